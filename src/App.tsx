@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { lazy, Suspense } from "react";
+import { AuthProvider } from "@/hooks/use-auth";
+import ProtectedRoute from "@/components/ProtectedRoute";
 
 // Lazy load pages for better performance
 const Index = lazy(() => import("./pages/Index"));
@@ -11,6 +13,9 @@ const NotFound = lazy(() => import("./pages/NotFound"));
 const CreateSet = lazy(() => import("./pages/CreateSet"));
 const EditSet = lazy(() => import("./pages/EditSet"));
 const StudyMode = lazy(() => import("./pages/StudyMode"));
+const Auth = lazy(() => import("./pages/Auth"));
+const Stats = lazy(() => import("./pages/Stats"));
+const ReviewAll = lazy(() => import("./pages/ReviewAll"));
 
 // Loading component
 const PageLoader = () => (
@@ -26,18 +31,23 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Suspense fallback={<PageLoader />}>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/create" element={<CreateSet />} />
-            <Route path="/edit/:setId" element={<EditSet />} />
-            <Route path="/study/:setId" element={<StudyMode />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </Suspense>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Suspense fallback={<PageLoader />}>
+            <Routes>
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
+              <Route path="/create" element={<ProtectedRoute><CreateSet /></ProtectedRoute>} />
+              <Route path="/edit/:setId" element={<ProtectedRoute><EditSet /></ProtectedRoute>} />
+              <Route path="/study/:setId" element={<ProtectedRoute><StudyMode /></ProtectedRoute>} />
+              <Route path="/review" element={<ProtectedRoute><ReviewAll /></ProtectedRoute>} />
+              <Route path="/stats" element={<ProtectedRoute><Stats /></ProtectedRoute>} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </Suspense>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
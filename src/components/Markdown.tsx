@@ -0,0 +1,68 @@
+import { memo } from 'react';
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import rehypeSanitize, { defaultSchema, Options as SanitizeSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { PluggableList } from 'unified';
+import 'katex/dist/katex.min.css';
+import { remarkPlugins } from '@/lib/markdown';
+import { MEDIA_PROTOCOL, mediaId } from '@/lib/media';
+import { cn } from '@/lib/utils';
+import MediaAudio from './MediaAudio';
+import MediaImage from './MediaImage';
+
+// User content is sanitized before KaTeX and highlighting add their own trusted markup,
+// so the math classes remark-math puts on code elements have to survive sanitizing.
+// Attached files are addressed as media:<id> and resolved when shown; images
+// embed them and links to them are audio clips
+const schema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']]
+  },
+  protocols: {
+    ...defaultSchema.protocols,
+    src: [...(defaultSchema.protocols?.src ?? []), MEDIA_PROTOCOL.slice(0, -1)],
+    href: [...(defaultSchema.protocols?.href ?? []), MEDIA_PROTOCOL.slice(0, -1)]
+  }
+};
+
+const urlTransform = (url: string) => (url.startsWith(MEDIA_PROTOCOL) ? url : defaultUrlTransform(url));
+
+const rehypePlugins: PluggableList = [[rehypeSanitize, schema], rehypeKatex, [rehypeHighlight, { detect: false }]];
+
+const defaultComponents: Components = {
+  a: ({ node: _node, ...props }) => mediaId(props.href)
+    ? <MediaAudio src={props.href!}>{props.children}</MediaAudio>
+    : <a {...props} target="_blank" rel="noopener noreferrer" />,
+  img: ({ src, alt }) => <MediaImage src={src} alt={alt} />
+};
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+  /** Overrides how elements are rendered, on top of the defaults. */
+  components?: Components;
+}
+
+/**
+ * Renders card text as Markdown: GFM lists and tables, code blocks with syntax
+ * highlighting and $...$ / $$...$$ math. Raw HTML is never rendered.
+ */
+const Markdown = memo(({ children, className, components }: MarkdownProps) => (
+  <div className={cn('markdown', className)}>
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={rehypePlugins}
+      urlTransform={urlTransform}
+      components={{ ...defaultComponents, ...components }}
+    >
+      {children}
+    </ReactMarkdown>
+  </div>
+));
+
+Markdown.displayName = 'Markdown';
+
+export default Markdown;
@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import type { ReactNode } from 'react';
+import { Loader2, Play, VolumeX } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useMediaUrl } from '@/hooks/use-media-url';
+import { playAudio } from '@/lib/audio';
+import { cn } from '@/lib/utils';
+
+interface MediaAudioProps {
+  /** A media:<id> address. */
+  src: string;
+  children?: ReactNode;
+  className?: string;
+}
+
+/**
+ * An audio clip on a card face, played with a button. Clicks and taps stay on
+ * the button so a flashcard does not flip.
+ */
+const MediaAudio = ({ src, children, className }: MediaAudioProps) => {
+  const url = useMediaUrl(src);
+
+  // Loaded as soon as the card is shown, like an image, so the service worker
+  // has it for offline study even if it was never played
+  useEffect(() => {
+    if (url && !url.startsWith('blob:')) fetch(url).catch(() => undefined);
+  }, [url]);
+
+  if (url === null) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+        <VolumeX className="h-4 w-4" />
+        {children || 'Audio unavailable'}
+      </span>
+    );
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="secondary"
+      size="sm"
+      disabled={!url}
+      className={cn('h-8 align-middle', className)}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!url) return;
+        playAudio(url).catch(error => {
+          console.error(error);
+          toast.error('Could not play this clip');
+        });
+      }}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      {url ? <Play className="mr-1 h-4 w-4" /> : <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+      {children}
+    </Button>
+  );
+};
+
+export default MediaAudio;
@@ -0,0 +1,38 @@
+import { ImageOff } from 'lucide-react';
+import { useMediaUrl } from '@/hooks/use-media-url';
+import { cn } from '@/lib/utils';
+
+interface MediaImageProps {
+  /** A media:<id> address or an ordinary URL. */
+  src: string | undefined;
+  alt?: string;
+  className?: string;
+}
+
+/** An image on a card face; attached files are looked up by their media id. */
+const MediaImage = ({ src, alt, className }: MediaImageProps) => {
+  const url = useMediaUrl(src);
+
+  // Still resolving: keep the space so the face does not jump once it loads
+  if (url === undefined) {
+    return <span className={cn('inline-block h-32 w-48 max-w-full animate-pulse rounded-md bg-muted', className)} />;
+  }
+  if (!url) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+        <ImageOff className="h-4 w-4" />
+        {alt || 'Image unavailable'}
+      </span>
+    );
+  }
+  return (
+    <img
+      src={url}
+      alt={alt ?? ''}
+      loading="lazy"
+      className={cn('mx-auto max-h-80 max-w-full rounded-md object-contain', className)}
+    />
+  );
+};
+
+export default MediaImage;
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { syncEngine } from '@/lib/repository';
+
+const SyncIndicator = () => {
+  const status = useSyncStatus();
+  const [discardDialogOpen, setDiscardDialogOpen] = useState(false);
+
+  if (!status) return null;
+
+  // Changes the server refused stay on this device until the user decides what to do with them
+  if (status.rejected > 0 && !status.syncing) {
+    return (
+      <>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Some changes were refused by the server."
+              className="text-destructive"
+            >
+              <AlertTriangle className="mr-2 h-4 w-4" />
+              {status.rejected} not synced
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              disabled={!status.online}
+              onSelect={() => syncEngine?.retryRejected().catch(console.error)}
+            >
+              Try again
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setDiscardDialogOpen(true)}>Discard these changes</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <AlertDialog open={discardDialogOpen} onOpenChange={setDiscardDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Discard unsynced changes?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The server refused {status.rejected === 1 ? 'one change' : `${status.rejected} changes`} made on this
+                device. Discarding them keeps the server's copy and cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => syncEngine?.discardRejected().catch(console.error)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Discard
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </>
+    );
+  }
+
+  const label = status.syncing
+    ? 'Syncing...'
+    : status.pending > 0
+    ? `${status.pending} pending`
+    : status.online
+    ? 'Synced'
+    : 'Offline';
+
+  const Icon = status.syncing ? RefreshCw : status.online ? Cloud : CloudOff;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => syncEngine?.flush().catch(console.error)}
+      disabled={status.syncing || !status.online}
+      title={status.pending > 0 ? 'Changes waiting to sync. Click to retry now.' : undefined}
+      className={status.pending > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}
+    >
+      <Icon className={`mr-2 h-4 w-4 ${status.syncing ? 'animate-spin' : ''}`} />
+      {label}
+    </Button>
+  );
+};
+
+export default SyncIndicator;
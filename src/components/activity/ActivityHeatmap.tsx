@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { ACTIVITY_WEEKS, activityStart, DayActivity } from '@/lib/activity';
+import { dayKey } from '@/lib/studyStats';
+import { DailyGoal, GOAL_UNITS, goalAmount } from '@/lib/dailyGoal';
+
+// Shades are relative to the daily goal, so a full-colour square means the goal was met
+const LEVEL_CLASSES = [
+  'bg-muted',
+  'bg-green-200 dark:bg-green-900',
+  'bg-green-400 dark:bg-green-700',
+  'bg-green-600 dark:bg-green-500',
+  'bg-green-800 dark:bg-green-300',
+];
+
+function level(day: DayActivity | undefined, goal: DailyGoal): number {
+  if (!day || day.cards === 0) return 0;
+  const share = goalAmount(day, goal.daily_goal_type) / goal.daily_goal_target;
+  if (share >= 2) return 4;
+  if (share >= 1) return 3;
+  return share >= 0.5 ? 2 : 1;
+}
+
+function describe(date: Date, day: DayActivity | undefined, goal: DailyGoal): string {
+  const label = format(date, 'EEE, MMM d, yyyy');
+  if (!day || day.cards === 0) return `${label}: no study`;
+  const minutes = Math.floor(day.seconds / 60);
+  const met = goalAmount(day, goal.daily_goal_type) >= goal.daily_goal_target;
+  return `${label}: ${day.cards} cards, ${minutes} min${met ? ' · goal met' : ''}`;
+}
+
+interface ActivityHeatmapProps {
+  activity: Map<string, DayActivity>;
+  goal: DailyGoal;
+}
+
+const ActivityHeatmap = ({ activity, goal }: ActivityHeatmapProps) => {
+  const todayKey = dayKey(new Date());
+  const today = parseISO(todayKey);
+
+  const weeks = useMemo(() => {
+    const first = activityStart(parseISO(todayKey));
+    return Array.from({ length: ACTIVITY_WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => addDays(first, week * 7 + weekday))
+    );
+  }, [todayKey]);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto pb-1">
+        <div className="inline-flex gap-[3px]">
+          {weeks.map((days, index) => (
+            <div key={index} className="flex flex-col gap-[3px]">
+              <div className="h-4 text-[10px] leading-4 text-muted-foreground whitespace-nowrap">
+                {days[0].getDate() <= 7 ? format(days[0], 'MMM') : ''}
+              </div>
+              {days.map(date => {
+                const day = activity.get(dayKey(date));
+                return date > today ? (
+                  <div key={date.getTime()} className="h-3 w-3" />
+                ) : (
+                  <div
+                    key={date.getTime()}
+                    title={describe(date, day, goal)}
+                    className={`h-3 w-3 rounded-sm ${LEVEL_CLASSES[level(day, goal)]}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <span className="mr-1">Less</span>
+        {LEVEL_CLASSES.map(className => (
+          <div key={className} className={`h-3 w-3 rounded-sm ${className}`} />
+        ))}
+        <span className="ml-1">More</span>
+        <span className="ml-3">
+          Goal: {goal.daily_goal_target} {GOAL_UNITS[goal.daily_goal_type]}/day
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DailyGoal } from '@/lib/dailyGoal';
+import { DailyGoalType } from '@/types/flashcard';
+
+interface DailyGoalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  goal: DailyGoal;
+  onSave: (goal: DailyGoal) => void;
+}
+
+const DailyGoalDialog = ({ open, onOpenChange, goal, onSave }: DailyGoalDialogProps) => {
+  const [type, setType] = useState<DailyGoalType>(goal.daily_goal_type);
+  const [target, setTarget] = useState(String(goal.daily_goal_target));
+
+  useEffect(() => {
+    if (open) {
+      setType(goal.daily_goal_type);
+      setTarget(String(goal.daily_goal_target));
+    }
+  }, [open, goal]);
+
+  const parsedTarget = Math.floor(Number(target));
+  const valid = Number.isFinite(parsedTarget) && parsedTarget > 0;
+
+  const handleSave = () => {
+    if (!valid) return;
+    onSave({ daily_goal_type: type, daily_goal_target: parsedTarget });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Daily Goal</DialogTitle>
+          <DialogDescription>
+            Days where you reach your goal are highlighted in your activity history
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-target">Target</Label>
+            <Input
+              id="goal-target"
+              type="number"
+              min={1}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-type">Measured in</Label>
+            <select
+              id="goal-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as DailyGoalType)}
+              className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+            >
+              <option value="cards">Cards studied</option>
+              <option value="minutes">Minutes studied</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={!valid} className="flex-1">Save</Button>
+          <Button onClick={() => onOpenChange(false)} variant="outline">Cancel</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DailyGoalDialog;
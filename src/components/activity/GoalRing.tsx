@@ -0,0 +1,44 @@
+interface GoalRingProps {
+  value: number;
+  target: number;
+  size?: number;
+  strokeWidth?: number;
+  children?: React.ReactNode;
+}
+
+const GoalRing = ({ value, target, size = 72, strokeWidth = 8, children }: GoalRingProps) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = target > 0 ? Math.min(value / target, 1) : 0;
+
+  return (
+    <div className="relative shrink-0" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          className="stroke-muted"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          className={`transition-[stroke-dashoffset] duration-500 ${fraction >= 1 ? 'stroke-green-500' : 'stroke-primary'}`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center text-xs font-medium">
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default GoalRing;
@@ -0,0 +1,71 @@
+import { useRef } from 'react';
+import { Loader2, Mic, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { AUDIO_TYPES, baseType } from '@/lib/media';
+
+interface AttachAudioButtonProps {
+  onFiles: (files: File[]) => void;
+  uploading?: boolean;
+}
+
+// Recordings are named after the format they came in, e.g. Recording.webm
+const recordingFile = (clip: Blob) => {
+  const type = baseType(clip.type);
+  const extension = type.split('/')[1]?.replace(/^x-/, '') || 'webm';
+  return new File([clip], `Recording.${extension}`, { type });
+};
+
+/** Records a clip in the browser, or picks audio files, to attach to a card side. */
+const AttachAudioButton = ({ onFiles, uploading }: AttachAudioButtonProps) => {
+  const { toast } = useToast();
+  const input = useRef<HTMLInputElement>(null);
+  const { recording, start, stop, supported } = useAudioRecorder(clip => onFiles([recordingFile(clip)]));
+
+  const record = () => {
+    start().catch(error => {
+      console.error(error);
+      toast({ title: 'Could not use the microphone', variant: 'destructive' });
+    });
+  };
+
+  if (recording) {
+    return (
+      <Button onClick={stop} variant="destructive" size="icon" title="Stop recording">
+        <Square className="h-4 w-4" />
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button disabled={uploading} variant="outline" size="icon" title="Attach audio">
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mic className="h-4 w-4" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={record} disabled={!supported}>Record</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => input.current?.click()}>Upload audio file</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={input}
+        type="file"
+        accept={AUDIO_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          // Lets the same file be picked again
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
+
+export default AttachAudioButton;
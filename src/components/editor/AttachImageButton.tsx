@@ -0,0 +1,42 @@
+import { useRef } from 'react';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { IMAGE_TYPES } from '@/lib/media';
+
+interface AttachImageButtonProps {
+  onFiles: (files: File[]) => void;
+  uploading?: boolean;
+}
+
+/** Opens a file picker for images to attach to a card side. */
+const AttachImageButton = ({ onFiles, uploading }: AttachImageButtonProps) => {
+  const input = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <Button
+        onClick={() => input.current?.click()}
+        disabled={uploading}
+        variant="outline"
+        size="icon"
+        title="Attach image"
+      >
+        {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+      </Button>
+      <input
+        ref={input}
+        type="file"
+        accept={IMAGE_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []));
+          // Lets the same file be picked again
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
+
+export default AttachImageButton;
@@ -0,0 +1,28 @@
+import { CARD_TYPE_LABELS } from '@/lib/cardTypes';
+import { cardOrdinals } from '@/lib/studyItems';
+import { Card, NoteType } from '@/types/flashcard';
+import ItemFace from '@/components/study/ItemFace';
+
+interface CardPreviewProps {
+  card: Pick<Card, 'card_type' | 'front' | 'back' | 'fields' | 'occlusions'>;
+  noteType?: NoteType;
+}
+
+/** Both sides of an editor row as they will be studied; cloze, note and occlusion cards show their first item. */
+const CardPreview = ({ card, noteType }: CardPreviewProps) => {
+  const labels = CARD_TYPE_LABELS[card.card_type];
+  const ordinal = cardOrdinals(card, noteType)[0] ?? 0;
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 rounded-md bg-muted/40 p-3">
+      {(['front', 'back'] as const).map(side => (
+        <div key={side} className="min-w-0">
+          <div className="text-xs uppercase text-muted-foreground mb-1">{labels[side]}</div>
+          <ItemFace card={card} ordinal={ordinal} side={side} noteType={noteType} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CardPreview;
@@ -0,0 +1,47 @@
+import { CARD_TYPE_LABELS, CARD_TYPES } from '@/lib/cardTypes';
+import { cn } from '@/lib/utils';
+import { Card, CardType, NoteType } from '@/types/flashcard';
+
+// Note types share one select with the built-in card types
+const NOTE_PREFIX = 'note:';
+
+interface CardTypeSelectProps {
+  card: Pick<Card, 'card_type' | 'note_type_id'>;
+  noteTypes: NoteType[];
+  onChange: (cardType: CardType, noteTypeId: string | null) => void;
+  className?: string;
+}
+
+/** Picks a built-in card type or one of the user's note types. */
+const CardTypeSelect = ({ card, noteTypes, onChange, className }: CardTypeSelectProps) => {
+  const value = card.card_type === 'note' ? `${NOTE_PREFIX}${card.note_type_id ?? ''}` : card.card_type;
+  const knownNoteType = noteTypes.some(noteType => noteType.id === card.note_type_id);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => {
+        const selected = e.target.value;
+        if (selected.startsWith(NOTE_PREFIX)) onChange('note', selected.slice(NOTE_PREFIX.length));
+        else onChange(selected as CardType, null);
+      }}
+      className={cn('text-sm border rounded px-2 py-1 bg-background', className)}
+    >
+      {CARD_TYPES.map(type => (
+        <option key={type} value={type}>{CARD_TYPE_LABELS[type].name}</option>
+      ))}
+      {(noteTypes.length > 0 || card.card_type === 'note') && (
+        <optgroup label="Note types">
+          {noteTypes.map(noteType => (
+            <option key={noteType.id} value={`${NOTE_PREFIX}${noteType.id}`}>{noteType.name}</option>
+          ))}
+          {card.card_type === 'note' && !knownNoteType && (
+            <option value={value}>{CARD_TYPE_LABELS.note.name}</option>
+          )}
+        </optgroup>
+      )}
+    </select>
+  );
+};
+
+export default CardTypeSelect;
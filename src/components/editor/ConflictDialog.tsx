@@ -0,0 +1,132 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { CardChange, CardSnapshot, MergeChoice, MergeChoices, SetConflict, SetDetails } from '@/lib/setMerge';
+
+interface ConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflict: SetConflict;
+  initialChoices: MergeChoices;
+  onResolve: (choices: MergeChoices) => void;
+}
+
+const REMOTE_CHANGE_LABELS: Record<CardChange, string> = {
+  added: 'Added on another device',
+  removed: 'Deleted on another device',
+  changed: 'Changed on another device',
+  unchanged: ''
+};
+
+const CardSide = ({ card, missing }: { card: CardSnapshot | null; missing: string }) =>
+  card ? (
+    <div className="space-y-1 text-sm min-w-0">
+      <p className="font-medium break-words">{card.front || <span className="text-muted-foreground">(empty)</span>}</p>
+      <p className="text-muted-foreground break-words whitespace-pre-wrap">{card.back}</p>
+    </div>
+  ) : (
+    <p className="text-sm italic text-muted-foreground">{missing}</p>
+  );
+
+const DetailsSide = ({ details }: { details: SetDetails }) => (
+  <div className="space-y-1 text-sm min-w-0">
+    <p className="font-medium break-words">{details.title}</p>
+    {details.description && <p className="text-muted-foreground break-words">{details.description}</p>}
+  </div>
+);
+
+interface ChoiceRowProps {
+  label: string;
+  choice: MergeChoice;
+  onChoose: (choice: MergeChoice) => void;
+  mine: ReactNode;
+  theirs: ReactNode;
+}
+
+const ChoiceRow = ({ label, choice, onChoose, mine, theirs }: ChoiceRowProps) => (
+  <div className="p-3 border rounded-lg space-y-3">
+    <Badge variant="secondary">{label}</Badge>
+    <div className="grid grid-cols-2 gap-3">
+      <button
+        type="button"
+        onClick={() => onChoose('mine')}
+        className={cn('text-left p-2 rounded-md border', choice === 'mine' ? 'border-primary bg-primary/5' : 'border-transparent')}
+      >
+        <p className="text-xs text-muted-foreground mb-1">Yours</p>
+        {mine}
+      </button>
+      <button
+        type="button"
+        onClick={() => onChoose('theirs')}
+        className={cn('text-left p-2 rounded-md border', choice === 'theirs' ? 'border-primary bg-primary/5' : 'border-transparent')}
+      >
+        <p className="text-xs text-muted-foreground mb-1">Other device</p>
+        {theirs}
+      </button>
+    </div>
+  </div>
+);
+
+/** Lets the user pick, card by card, between their edit and what another device saved meanwhile. */
+const ConflictDialog = ({ open, onOpenChange, conflict, initialChoices, onResolve }: ConflictDialogProps) => {
+  const [choices, setChoices] = useState<MergeChoices>(initialChoices);
+
+  useEffect(() => {
+    if (open) setChoices(initialChoices);
+  }, [open, initialChoices]);
+
+  const chooseAll = (choice: MergeChoice) =>
+    setChoices({
+      cards: Object.fromEntries(conflict.cards.map(card => [card.id, choice])),
+      details: choice
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>This set was changed on another device</DialogTitle>
+          <DialogDescription>
+            Choose which version to keep for each change, then save again
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll('mine')}>Keep all mine</Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll('theirs')}>Take all theirs</Button>
+        </div>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+          {conflict.details && (
+            <ChoiceRow
+              label="Title and description changed on another device"
+              choice={choices.details}
+              onChoose={(choice) => setChoices({ ...choices, details: choice })}
+              mine={<DetailsSide details={conflict.details.mine} />}
+              theirs={<DetailsSide details={conflict.details.theirs} />}
+            />
+          )}
+          {conflict.cards.map(card => (
+            <ChoiceRow
+              key={card.id}
+              label={REMOTE_CHANGE_LABELS[card.remoteChange]}
+              choice={choices.cards[card.id]}
+              onChoose={(choice) => setChoices({ ...choices, cards: { ...choices.cards, [card.id]: choice } })}
+              mine={<CardSide card={card.mine} missing={card.localChange === 'removed' ? 'You deleted this card' : 'Not in your copy'} />}
+              theirs={<CardSide card={card.theirs} missing="Deleted" />}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => onResolve(choices)} className="flex-1">Merge and Save</Button>
+          <Button onClick={() => onOpenChange(false)} variant="outline">Cancel</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConflictDialog;
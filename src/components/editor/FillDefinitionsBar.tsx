@@ -0,0 +1,51 @@
+import { Loader2, RotateCcw, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+
+interface FillDefinitionsBarProps {
+  /** How far a running fill is, or null when none is running. */
+  progress: { done: number; total: number } | null;
+  emptyCount: number;
+  failedCount: number;
+  onFill: () => void;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+/** Starts, follows and cancels generating the backs of every card without one. */
+const FillDefinitionsBar = ({ progress, emptyCount, failedCount, onFill, onCancel, onRetry }: FillDefinitionsBarProps) => {
+  if (progress) {
+    return (
+      <div className="flex items-center gap-3 p-3 border rounded-lg">
+        <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+        <div className="flex-1 space-y-1">
+          <p className="text-sm">Generating definitions: {progress.done} of {progress.total}</p>
+          <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+        </div>
+        <Button onClick={onCancel} variant="outline" size="sm">
+          <X className="mr-2 h-4 w-4" />
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  if (emptyCount === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button onClick={onFill} variant="outline" size="sm">
+        <Sparkles className="mr-2 h-4 w-4" />
+        Fill {emptyCount} Empty {emptyCount === 1 ? 'Definition' : 'Definitions'}
+      </Button>
+      {failedCount > 0 && (
+        <Button onClick={onRetry} variant="ghost" size="sm" className="text-destructive">
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Retry {failedCount} failed
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default FillDefinitionsBar;
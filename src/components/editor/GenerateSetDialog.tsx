@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CARD_TYPE_LABELS } from '@/lib/cardTypes';
+import {
+  DefinitionStyle,
+  GeneratedCardType,
+  generateSet,
+  generationErrorToast,
+  MAX_GENERATED_CARDS,
+  MAX_SOURCE_LENGTH
+} from '@/lib/generation';
+
+interface ProposedCard {
+  id: string;
+  front: string;
+  back: string;
+  selected: boolean;
+}
+
+interface GenerateSetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** How the backs are written, from the settings of the set. */
+  style: DefinitionStyle;
+  /** Called with the cards the user kept and the suggested title. */
+  onAdd: (cards: { front: string; back: string; card_type: GeneratedCardType }[], title: string) => void;
+}
+
+/**
+ * Generates cards from pasted notes or a topic. The proposals can be edited
+ * and deselected before they are added to the editor; nothing is saved here.
+ */
+const GenerateSetDialog = ({ open, onOpenChange, style, onAdd }: GenerateSetDialogProps) => {
+  const { toast } = useToast();
+  const [from, setFrom] = useState<'notes' | 'topic'>('notes');
+  const [source, setSource] = useState('');
+  const [topic, setTopic] = useState('');
+  const [count, setCount] = useState(10);
+  const [type, setType] = useState<GeneratedCardType>('term');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [proposed, setProposed] = useState<ProposedCard[]>([]);
+  // What the proposals were generated as, whatever is picked since
+  const [proposedType, setProposedType] = useState<GeneratedCardType>('term');
+  const [title, setTitle] = useState('');
+
+  const selectedCount = proposed.filter(card => card.selected).length;
+
+  const updateProposed = (id: string, changes: Partial<ProposedCard>) => {
+    setProposed(current => current.map(card => (card.id === id ? { ...card, ...changes } : card)));
+  };
+
+  const handleGenerate = async () => {
+    if (from === 'notes' ? !source.trim() : !topic.trim()) {
+      toast({ title: from === 'notes' ? 'Please paste some notes' : 'Please enter a topic', variant: 'destructive' });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const result = await generateSet({
+        source: from === 'notes' ? source : '',
+        topic: from === 'topic' ? topic.trim() : '',
+        count,
+        type,
+        style
+      });
+      if (result.cards.length === 0) {
+        toast({ title: 'No cards could be generated', description: 'Try longer notes or a broader topic.' });
+      }
+      setProposed(result.cards.map(card => ({ ...card, id: crypto.randomUUID(), selected: true })));
+      setProposedType(type);
+      setTitle(result.title || (from === 'topic' ? topic.trim() : ''));
+    } catch (error) {
+      console.error(error);
+      toast({ ...generationErrorToast(error, 'Failed to generate cards'), variant: 'destructive' });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const kept = proposed
+      .filter(card => card.selected && card.front.trim() && card.back.trim())
+      .map(card => ({ front: card.front.trim(), back: card.back.trim(), card_type: proposedType }));
+    if (kept.length === 0) {
+      toast({ title: 'Please keep at least one complete card', variant: 'destructive' });
+      return;
+    }
+    onAdd(kept, title);
+    toast({ title: `Added ${kept.length} cards` });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Cards</DialogTitle>
+          <DialogDescription>
+            Paste lecture notes or an article, or just name a topic. Review the proposed cards before adding them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={from} onValueChange={(value) => setFrom(value as 'notes' | 'topic')}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="notes">From notes</TabsTrigger>
+            <TabsTrigger value="topic">From a topic</TabsTrigger>
+          </TabsList>
+          <TabsContent value="notes" className="space-y-2">
+            <Textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              maxLength={MAX_SOURCE_LENGTH}
+              placeholder="Paste your notes here..."
+              rows={8}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {source.length} / {MAX_SOURCE_LENGTH}
+            </p>
+          </TabsContent>
+          <TabsContent value="topic">
+            <Input
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              maxLength={200}
+              placeholder="e.g., The French Revolution"
+            />
+          </TabsContent>
+        </Tabs>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="generate-type" className="text-sm text-muted-foreground">Cards</Label>
+            <select
+              id="generate-type"
+              value={type}
+              onChange={(e) => setType(e.target.value as GeneratedCardType)}
+              className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+            >
+              <option value="term">{CARD_TYPE_LABELS.term.front} and {CARD_TYPE_LABELS.term.back.toLowerCase()}</option>
+              <option value="question">{CARD_TYPE_LABELS.question.front} and {CARD_TYPE_LABELS.question.back.toLowerCase()}</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="generate-count" className="text-sm text-muted-foreground">How many</Label>
+            <Input
+              id="generate-count"
+              type="number"
+              min={1}
+              max={MAX_GENERATED_CARDS}
+              value={count}
+              onChange={(e) => setCount(Math.min(MAX_GENERATED_CARDS, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+            />
+          </div>
+        </div>
+
+        <Button onClick={handleGenerate} disabled={isGenerating}>
+          {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          {isGenerating ? 'Generating...' : proposed.length > 0 ? 'Generate Again' : 'Generate'}
+        </Button>
+
+        {proposed.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Proposed cards</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setProposed(current => current.map(card => ({ ...card, selected: selectedCount === 0 })))}
+              >
+                {selectedCount === 0 ? 'Select all' : 'Deselect all'}
+              </Button>
+            </div>
+            {proposed.map(card => (
+              <div key={card.id} className="flex gap-3 p-3 border rounded-lg">
+                <Checkbox
+                  checked={card.selected}
+                  onCheckedChange={(checked) => updateProposed(card.id, { selected: checked === true })}
+                  aria-label="Keep this card"
+                  className="mt-3"
+                />
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={card.front}
+                    onChange={(e) => updateProposed(card.id, { front: e.target.value })}
+                    placeholder={CARD_TYPE_LABELS[proposedType].frontPlaceholder}
+                    disabled={!card.selected}
+                  />
+                  <Textarea
+                    value={card.back}
+                    onChange={(e) => updateProposed(card.id, { back: e.target.value })}
+                    placeholder={CARD_TYPE_LABELS[proposedType].backPlaceholder}
+                    disabled={!card.selected}
+                    rows={2}
+                  />
+                </div>
+              </div>
+            ))}
+            <Button onClick={handleAdd} disabled={selectedCount === 0} className="w-full">
+              Add {selectedCount} {selectedCount === 1 ? 'Card' : 'Cards'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GenerateSetDialog;
@@ -0,0 +1,41 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { NoteFields } from '@/lib/noteTemplates';
+import { NoteType } from '@/types/flashcard';
+
+interface NoteFieldInputsProps {
+  cardId: string;
+  noteType: NoteType | undefined;
+  fields: NoteFields | null;
+  onChange: (field: string, value: string) => void;
+  invalid?: boolean;
+}
+
+/** One input per field of a note card's note type. */
+const NoteFieldInputs = ({ cardId, noteType, fields, onChange, invalid }: NoteFieldInputsProps) => {
+  if (!noteType) {
+    return <p className="text-sm text-muted-foreground">This note type is not available.</p>;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {noteType.fields.map(field => {
+        const id = `${cardId}-${field}`;
+        return (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={id} className="text-sm text-muted-foreground">{field}</Label>
+            <Input
+              id={id}
+              value={fields?.[field] ?? ''}
+              onChange={(e) => onChange(field, e.target.value)}
+              className={cn(invalid && 'border-destructive')}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NoteFieldInputs;
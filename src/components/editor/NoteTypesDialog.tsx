@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { repository } from '@/lib/repository';
+import {
+  nextTemplateOrdinal,
+  renameFields,
+  validateNoteType,
+  VOCABULARY_NOTE_TYPE,
+  withNoteFields,
+  withTemplateOrdinals
+} from '@/lib/noteTemplates';
+import { CardTemplate, NoteType } from '@/types/flashcard';
+
+type NoteTypeDraft = Pick<NoteType, 'name' | 'fields' | 'templates'>;
+
+const EMPTY_DRAFT: NoteTypeDraft = {
+  name: '',
+  fields: ['Front', 'Back'],
+  templates: [{ ordinal: 0, name: 'Card 1', front: '{{Front}}', back: '{{Back}}' }]
+};
+
+const draftOf = (noteType: NoteType | undefined): NoteTypeDraft => noteType
+  ? { name: noteType.name, fields: [...noteType.fields], templates: withTemplateOrdinals(noteType.templates) }
+  : EMPTY_DRAFT;
+
+interface NoteTypesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  noteTypes: NoteType[];
+  /** Called after a note type was created, changed or deleted. */
+  onChanged: () => void;
+}
+
+/**
+ * Creates and edits note types: their fields and the card templates each note
+ * generates. Starts on the first note type each time it is mounted.
+ */
+const NoteTypesDialog = ({ open, onOpenChange, noteTypes, onChanged }: NoteTypesDialogProps) => {
+  const { toast } = useToast();
+  // Null while a new note type is being drafted
+  const [selectedId, setSelectedId] = useState<string | null>(noteTypes[0]?.id ?? null);
+  const [draft, setDraft] = useState<NoteTypeDraft>(() => draftOf(noteTypes[0]));
+  // The saved name of each draft field by position; fields added since have none
+  const [savedFields, setSavedFields] = useState<(string | null)[]>(() => [...(noteTypes[0]?.fields ?? [])]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const select = (noteType: NoteType | undefined) => {
+    setSelectedId(noteType?.id ?? null);
+    setDraft(draftOf(noteType));
+    setSavedFields([...(noteType?.fields ?? [])]);
+  };
+
+  const removeField = (index: number) => {
+    setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) });
+    setSavedFields(savedFields.filter((_, i) => i !== index));
+  };
+
+  /** Notes keep their values under field names, so renamed fields are renamed in every note of the type. */
+  const renameNoteFields = async (noteTypeId: string, noteType: NoteTypeDraft) => {
+    const renames = new Map<string, string>();
+    savedFields.forEach((saved, index) => {
+      if (saved !== null && saved !== noteType.fields[index]) renames.set(saved, noteType.fields[index]);
+    });
+    if (renames.size === 0) return;
+
+    for (const card of await repository.cards.listByNoteType(noteTypeId)) {
+      const { front, back, fields } = withNoteFields(card, noteType, renameFields(card.fields, renames));
+      await repository.cards.update(card.id, { front, back, fields });
+    }
+  };
+
+  const updateField = (index: number, name: string) => {
+    setDraft({ ...draft, fields: draft.fields.map((field, i) => (i === index ? name : field)) });
+  };
+
+  const updateTemplate = (index: number, changes: Partial<CardTemplate>) => {
+    setDraft({
+      ...draft,
+      templates: draft.templates.map((template, i) => (i === index ? { ...template, ...changes } : template))
+    });
+  };
+
+  const handleSave = async () => {
+    const problem = validateNoteType(draft);
+    if (problem) {
+      toast({ title: problem, variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const noteType = { ...draft, name: draft.name.trim() };
+      if (selectedId) {
+        await repository.noteTypes.update(selectedId, noteType);
+        await renameNoteFields(selectedId, noteType);
+      } else {
+        const row = await repository.noteTypes.create(noteType);
+        setSelectedId(row.id);
+      }
+      setSavedFields([...noteType.fields]);
+      toast({ title: 'Note type saved' });
+      onChanged();
+    } catch (error) {
+      console.error(error);
+      toast({ title: 'Failed to save note type', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    try {
+      await repository.noteTypes.remove(selectedId);
+      toast({ title: 'Note type deleted' });
+      select(noteTypes.find(noteType => noteType.id !== selectedId));
+      onChanged();
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: 'Failed to delete note type',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Note Types</DialogTitle>
+          <DialogDescription>
+            Use {'{{Field}}'} in a template to insert a field, and {'{{FrontSide}}'} on the back to repeat the front.
+            Each template makes its own card.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={selectedId ?? ''}
+            onChange={(e) => select(noteTypes.find(noteType => noteType.id === e.target.value))}
+            className="text-sm border rounded px-2 py-1 bg-background flex-1"
+          >
+            {noteTypes.map(noteType => (
+              <option key={noteType.id} value={noteType.id}>{noteType.name}</option>
+            ))}
+            <option value="">New note type</option>
+          </select>
+          <Button onClick={() => select(undefined)} variant="outline" size="sm">
+            <Plus className="mr-2 h-4 w-4" />
+            New
+          </Button>
+          <Button
+            onClick={() => { select(undefined); setDraft(VOCABULARY_NOTE_TYPE); }}
+            variant="outline"
+            size="sm"
+          >
+            Vocabulary preset
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="note-type-name">Name</Label>
+          <Input
+            id="note-type-name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g., Vocabulary"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Fields</Label>
+          {draft.fields.map((field, index) => (
+            <div key={index} className="flex gap-2">
+              <Input value={field} onChange={(e) => updateField(index, e.target.value)} />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeField(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            onClick={() => setDraft({ ...draft, fields: [...draft.fields, ''] })}
+            variant="outline"
+            size="sm"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Field
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Card templates</Label>
+          {draft.templates.map((template, index) => (
+            <div key={index} className="p-3 border rounded-lg space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  value={template.name}
+                  onChange={(e) => updateTemplate(index, { name: e.target.value })}
+                  placeholder="Template name"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft({ ...draft, templates: draft.templates.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                value={template.front}
+                onChange={(e) => updateTemplate(index, { front: e.target.value })}
+                placeholder="Front, e.g. {{Word}}"
+              />
+              <Textarea
+                value={template.back}
+                onChange={(e) => updateTemplate(index, { back: e.target.value })}
+                placeholder="Back, e.g. {{FrontSide}} {{Meaning}}"
+              />
+            </div>
+          ))}
+          <Button
+            onClick={() => setDraft({
+              ...draft,
+              templates: [
+                ...draft.templates,
+                { ordinal: nextTemplateOrdinal(draft.templates), name: `Card ${draft.templates.length + 1}`, front: '', back: '' }
+              ]
+            })}
+            variant="outline"
+            size="sm"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Template
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+            {isSaving ? 'Saving...' : 'Save Note Type'}
+          </Button>
+          {selectedId && (
+            <Button onClick={handleDelete} variant="destructive">Delete</Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NoteTypesDialog;
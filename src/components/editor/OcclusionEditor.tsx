@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import type { ClipboardEvent, DragEvent, PointerEvent } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { nextRegionOrdinal, occlusionImage, regionBetween } from '@/lib/occlusion';
+import { OcclusionRegion } from '@/types/flashcard';
+import MediaImage from '@/components/MediaImage';
+import AttachImageButton from './AttachImageButton';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface OcclusionEditorProps {
+  /** The card's front, holding the image being masked. */
+  front: string;
+  regions: OcclusionRegion[];
+  onRegionsChange: (regions: OcclusionRegion[]) => void;
+  onFiles: (files: File[]) => void;
+  /** Paste and drop handlers for attaching the image. */
+  dropProps: {
+    onPaste: (e: ClipboardEvent) => void;
+    onDragOver: (e: DragEvent) => void;
+    onDrop: (e: DragEvent) => void;
+  };
+  uploading?: boolean;
+  invalid?: boolean;
+}
+
+const percent = (fraction: number) => `${fraction * 100}%`;
+
+// Where the pointer is, as a fraction of the element it is over
+const pointIn = (e: PointerEvent<HTMLElement>): Point => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+};
+
+/**
+ * Attaches the image of an occlusion card and lets the user drag out the
+ * rectangles to hide on it, each with the label it hides.
+ */
+const OcclusionEditor = ({
+  front,
+  regions,
+  onRegionsChange,
+  onFiles,
+  dropProps,
+  uploading,
+  invalid
+}: OcclusionEditorProps) => {
+  const image = occlusionImage(front);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const draft = dragStart && dragEnd ? regionBetween(dragStart, dragEnd, 0) : null;
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointIn(e);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const region = regionBetween(dragStart, pointIn(e), nextRegionOrdinal(regions));
+    if (region) onRegionsChange([...regions, region]);
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const updateLabel = (ordinal: number, label: string) => {
+    onRegionsChange(regions.map(region => (region.ordinal === ordinal ? { ...region, label } : region)));
+  };
+
+  if (!image) {
+    return (
+      <div
+        {...dropProps}
+        tabIndex={0}
+        className={cn(
+          'flex flex-col items-center gap-2 rounded-md border-2 border-dashed p-6 text-center text-sm text-muted-foreground',
+          invalid && 'border-destructive'
+        )}
+      >
+        <p>Drop or paste the image to mask here, or pick a file.</p>
+        <AttachImageButton onFiles={(files) => onFiles(files.slice(0, 1))} uploading={uploading} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Drag over the parts of the image to hide. Each region is studied on its own.
+      </p>
+      <div {...dropProps} className={cn('relative mx-auto w-fit select-none', invalid && 'ring-2 ring-destructive')}>
+        <MediaImage src={image.src} alt={image.alt} className="block max-h-96" />
+        <div
+          className="absolute inset-0 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={(e) => { if (dragStart) setDragEnd(pointIn(e)); }}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { setDragStart(null); setDragEnd(null); }}
+        >
+          {regions.map((region, index) => (
+            <div
+              key={region.ordinal}
+              className="absolute flex items-center justify-center rounded-sm border-2 border-primary bg-primary/60 text-xs font-semibold text-primary-foreground"
+              style={{
+                left: percent(region.x),
+                top: percent(region.y),
+                width: percent(region.width),
+                height: percent(region.height)
+              }}
+            >
+              {index + 1}
+            </div>
+          ))}
+          {draft && (
+            <div
+              className="absolute rounded-sm border-2 border-dashed border-primary bg-primary/20"
+              style={{ left: percent(draft.x), top: percent(draft.y), width: percent(draft.width), height: percent(draft.height) }}
+            />
+          )}
+        </div>
+      </div>
+
+      {regions.map((region, index) => (
+        <div key={region.ordinal} className="flex items-center gap-2">
+          <span className="w-6 text-sm font-medium text-muted-foreground">{index + 1}</span>
+          <Input
+            value={region.label}
+            onChange={(e) => updateLabel(region.ordinal, e.target.value)}
+            placeholder="What this region hides"
+            className={cn('flex-1', invalid && !region.label.trim() && 'border-destructive')}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onRegionsChange(regions.filter(other => other.ordinal !== region.ordinal))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <AttachImageButton onFiles={(files) => onFiles(files.slice(0, 1))} uploading={uploading} />
+        Replace image
+      </div>
+    </div>
+  );
+};
+
+export default OcclusionEditor;
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DefinitionLength, ReadingLevel, SchedulerAlgorithm, StudyDirection } from '@/types/flashcard';
+import { formatSteps, parseSteps, SetSettingsValue } from '@/lib/setSettings';
+import { STUDY_DIRECTION_LABELS, STUDY_DIRECTIONS } from '@/lib/studyItems';
+import { LANGUAGES } from '@/lib/speech';
+import { DEFINITION_LENGTH_LABELS, DEFINITION_LENGTHS, READING_LEVEL_LABELS, READING_LEVELS } from '@/lib/generation';
+
+interface StepsInputProps {
+  id: string;
+  label: string;
+  value: number[];
+  onChange: (steps: number[]) => void;
+}
+
+// Keeps the typed text while it is incomplete and only reports valid steps
+const StepsInput = ({ id, label, value, onChange }: StepsInputProps) => {
+  const [text, setText] = useState(formatSteps(value));
+  const invalid = parseSteps(text) === null;
+
+  useEffect(() => {
+    setText(current => {
+      const parsed = parseSteps(current);
+      return parsed && formatSteps(parsed) === formatSteps(value) ? current : formatSteps(value);
+    });
+  }, [value]);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm text-muted-foreground">{label}</Label>
+      <Input
+        id={id}
+        value={text}
+        placeholder="e.g. 1m 10m"
+        aria-invalid={invalid}
+        className={invalid ? 'border-destructive' : undefined}
+        onChange={(e) => {
+          setText(e.target.value);
+          const steps = parseSteps(e.target.value);
+          if (steps) onChange(steps);
+        }}
+      />
+    </div>
+  );
+};
+
+interface LanguageSelectProps {
+  id: string;
+  label: string;
+  value: string | null;
+  onChange: (language: string | null) => void;
+  /** What no language stands for. */
+  emptyLabel?: string;
+}
+
+// Languages set elsewhere, e.g. by an import, stay selectable even when not listed
+const LanguageSelect = ({ id, label, value, onChange, emptyLabel = 'Not set' }: LanguageSelectProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={id} className="text-sm text-muted-foreground">{label}</Label>
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+    >
+      <option value="">{emptyLabel}</option>
+      {value && !LANGUAGES.some(language => language.code === value) && <option value={value}>{value}</option>}
+      {LANGUAGES.map(language => (
+        <option key={language.code} value={language.code}>{language.name}</option>
+      ))}
+    </select>
+  </div>
+);
+
+interface SetSettingsProps {
+  value: SetSettingsValue;
+  onChange: (value: SetSettingsValue) => void;
+}
+
+const SetSettings = ({ value, onChange }: SetSettingsProps) => {
+  const update = <K extends keyof SetSettingsValue>(key: K, fieldValue: SetSettingsValue[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="space-y-2">
+        <Label htmlFor="study-direction">Study direction</Label>
+        <select
+          id="study-direction"
+          value={value.study_direction}
+          onChange={(e) => update('study_direction', e.target.value as StudyDirection)}
+          className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+        >
+          {STUDY_DIRECTIONS.map(direction => (
+            <option key={direction} value={direction}>{STUDY_DIRECTION_LABELS[direction]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-muted-foreground">
+          Study sessions start in this direction. Both ways schedules each direction of a card separately.
+        </p>
+      </div>
+
+      <Label>Languages</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <LanguageSelect
+          id="front-language"
+          label="Front"
+          value={value.front_language}
+          onChange={(language) => update('front_language', language)}
+        />
+        <LanguageSelect
+          id="back-language"
+          label="Back"
+          value={value.back_language}
+          onChange={(language) => update('back_language', language)}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Cards are read aloud in these languages.
+      </p>
+
+      <Label>Generated definitions</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="definition-length" className="text-sm text-muted-foreground">Length</Label>
+          <select
+            id="definition-length"
+            value={value.definition_length}
+            onChange={(e) => update('definition_length', e.target.value as DefinitionLength)}
+            className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+          >
+            {DEFINITION_LENGTHS.map(length => (
+              <option key={length} value={length}>{DEFINITION_LENGTH_LABELS[length]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reading-level" className="text-sm text-muted-foreground">Reading level</Label>
+          <select
+            id="reading-level"
+            value={value.reading_level}
+            onChange={(e) => update('reading_level', e.target.value as ReadingLevel)}
+            className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+          >
+            {READING_LEVELS.map(level => (
+              <option key={level} value={level}>{READING_LEVEL_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+        <LanguageSelect
+          id="definition-language"
+          label="Write in"
+          value={value.definition_language}
+          onChange={(language) => update('definition_language', language)}
+          emptyLabel="Same language as the card"
+        />
+        <div className="flex items-center gap-2 md:pt-8">
+          <Switch
+            id="include-example"
+            checked={value.include_example}
+            onCheckedChange={(checked) => update('include_example', checked)}
+          />
+          <Label htmlFor="include-example" className="text-sm text-muted-foreground">Add an example sentence</Label>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Writing in another language gives glosses, e.g. English terms explained in Vietnamese.
+      </p>
+
+      <Label>Spaced Repetition</Label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="scheduler" className="text-sm text-muted-foreground">Algorithm</Label>
+          <select
+            id="scheduler"
+            value={value.scheduler}
+            onChange={(e) => update('scheduler', e.target.value as SchedulerAlgorithm)}
+            className="w-full h-10 text-sm border rounded-md px-3 bg-background"
+          >
+            <option value="sm2">SM-2 (classic)</option>
+            <option value="fsrs">FSRS (memory model)</option>
+          </select>
+        </div>
+
+        {value.scheduler === 'fsrs' && (
+          <div className="space-y-2">
+            <Label htmlFor="target-retention" className="text-sm text-muted-foreground">
+              Target retention: {Math.round(value.target_retention * 100)}%
+            </Label>
+            <Input
+              id="target-retention"
+              type="range"
+              min={0.7}
+              max={0.99}
+              step={0.01}
+              value={value.target_retention}
+              onChange={(e) => update('target_retention', Number(e.target.value))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Higher retention means more frequent reviews.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="new-cards-per-day" className="text-sm text-muted-foreground">New cards per day</Label>
+          <Input
+            id="new-cards-per-day"
+            type="number"
+            min={0}
+            value={value.new_cards_per_day}
+            onChange={(e) => update('new_cards_per_day', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="max-reviews-per-day" className="text-sm text-muted-foreground">Maximum reviews per day</Label>
+          <Input
+            id="max-reviews-per-day"
+            type="number"
+            min={0}
+            value={value.max_reviews_per_day}
+            onChange={(e) => update('max_reviews_per_day', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          />
+        </div>
+        <StepsInput
+          id="learning-steps"
+          label="Learning steps"
+          value={value.learning_steps}
+          onChange={(steps) => update('learning_steps', steps)}
+        />
+        <StepsInput
+          id="relearning-steps"
+          label="Relearning steps"
+          value={value.relearning_steps}
+          onChange={(steps) => update('relearning_steps', steps)}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Steps are delays before a card is shown again the same day, e.g. 1m 10m or 1h. Leave empty to schedule in whole days.
+      </p>
+    </div>
+  );
+};
+
+export default SetSettings;
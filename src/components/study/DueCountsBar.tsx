@@ -0,0 +1,23 @@
+import type { DueCounts } from '@/lib/repository/types';
+
+interface DueCountsBarProps {
+  counts: DueCounts;
+}
+
+/** Remaining new, learning and review cards, as shown above the spaced review. */
+const DueCountsBar = ({ counts }: DueCountsBarProps) => (
+  <div className="flex items-center gap-4 text-sm">
+    <span className="text-blue-600 dark:text-blue-400" title="New cards">
+      <span className="font-semibold">{counts.new}</span> new
+    </span>
+    <span className="text-red-600 dark:text-red-400" title="Learning and relearning cards">
+      <span className="font-semibold">{counts.learning}</span> learning
+    </span>
+    <span className="text-green-600 dark:text-green-400" title="Reviews due">
+      <span className="font-semibold">{counts.due}</span> due
+    </span>
+    <span className="text-muted-foreground">{counts.total} cards</span>
+  </div>
+);
+
+export default DueCountsBar;
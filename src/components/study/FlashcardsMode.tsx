@@ -1,25 +1,62 @@
-import { useState, useEffect, memo } from 'react';
+import { useState, useEffect, memo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Card } from '@/types/flashcard';
 import { ChevronLeft, ChevronRight, Shuffle } from 'lucide-react';
+import { recordReview } from '@/lib/reviewRecorder';
+import { useResponseTimer } from '@/hooks/use-response-timer';
+import { useStudySession } from '@/hooks/use-study-session';
+import { CARD_TYPE_LABELS } from '@/lib/cardTypes';
+import { questionOf, StudyItem } from '@/lib/studyItems';
+import { itemSpeech, SetLanguages } from '@/lib/speech';
+import { useAutoplay, useSpeech } from '@/hooks/use-speech';
+import ItemFace from './ItemFace';
+import SpeakButton from './SpeakButton';
 
 interface FlashcardsModeProps {
-  cards: Card[];
+  items: StudyItem[];
   setId: string;
+  /** Languages the sides are read aloud in. */
+  languages: SetLanguages;
 }
 
-const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
+const FlashcardsMode = memo(({ items, setId, languages }: FlashcardsModeProps) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
-  const [studyCards, setStudyCards] = useState(cards);
+  const [studyCards, setStudyCards] = useState(items);
   const [touchStart, setTouchStart] = useState(0);
   const [touchEnd, setTouchEnd] = useState(0);
   const [swipeOffset, setSwipeOffset] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
+  const revealedRef = useRef(false);
+  const timer = useResponseTimer();
+  const { sessionId, record } = useStudySession(setId, 'flashcards', { graded: false, completeOnLeave: true });
+  const say = useSpeech();
 
   useEffect(() => {
-    setStudyCards(cards);
-  }, [cards]);
+    setStudyCards(items);
+  }, [items]);
+
+  useEffect(() => {
+    revealedRef.current = false;
+    timer.restart();
+  }, [currentIndex, studyCards, timer]);
+
+  const flip = () => {
+    // Log the first reveal of each card; flipping back and forth is not a new answer
+    if (!isFlipped && !revealedRef.current) {
+      revealedRef.current = true;
+      record();
+      recordReview({
+        cardId: studyCards[currentIndex].card.id,
+        ordinal: studyCards[currentIndex].ordinal,
+        direction: studyCards[currentIndex].direction,
+        setId,
+        sessionId,
+        mode: 'flashcards',
+        responseTimeMs: timer.elapsed()
+      });
+    }
+    setIsFlipped(!isFlipped);
+  };
 
   const handleNext = () => {
     if (isAnimating) return;
@@ -77,7 +114,7 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
     if (Math.abs(distance) < minSwipeDistance) {
       // Small movement - treat as tap to flip
       setSwipeOffset(0);
-      setIsFlipped(!isFlipped);
+      flip();
     } else if (distance > 0) {
       // Swiped left - go to next card
       handleNext();
@@ -94,7 +131,7 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
     const handleKeyPress = (e: KeyboardEvent) => {
       if (e.key === ' ') {
         e.preventDefault();
-        setIsFlipped(!isFlipped);
+        flip();
       } else if (e.key === 'ArrowRight') {
         handleNext();
       } else if (e.key === 'ArrowLeft') {
@@ -106,7 +143,12 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, [isFlipped, currentIndex]);
 
-  const currentCard = studyCards[currentIndex];
+  const current = studyCards[currentIndex];
+  const labels = CARD_TYPE_LABELS[current.card.card_type];
+  const { promptSide, answerSide } = questionOf(current);
+  const prompt = itemSpeech(current, promptSide, languages);
+  const answer = itemSpeech(current, answerSide, languages);
+  useAutoplay(say, answer.text, answer.lang, isFlipped);
 
   return (
     <div className="space-y-6">
@@ -128,7 +170,7 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
           onClick={(e) => {
             // Only flip on click if not on mobile (no touch events)
             if (!('ontouchstart' in window)) {
-              setIsFlipped(!isFlipped);
+              flip();
             }
           }}
           className={`w-full h-full cursor-pointer preserve-3d ${
@@ -142,11 +184,18 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
           }}
         >
           <div className="absolute w-full h-full backface-hidden bg-card border-2 border-primary rounded-lg p-8 flex items-center justify-center">
+            <SpeakButton text={prompt.text} lang={prompt.lang} onSpeak={say} className="absolute top-2 right-2" />
             <div className="text-center">
               <div className="text-xs uppercase text-muted-foreground mb-2">
-                {currentCard.card_type === 'term' ? 'Term' : 'Question'}
+                {labels[promptSide]}
               </div>
-              <p className="text-2xl font-semibold">{currentCard.front}</p>
+              <ItemFace
+                card={current.card}
+                ordinal={current.ordinal}
+                noteType={current.noteType}
+                side={promptSide}
+                className="text-2xl font-semibold"
+              />
             </div>
           </div>
 
@@ -154,11 +203,18 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
             className="absolute w-full h-full backface-hidden bg-secondary border-2 border-secondary-foreground rounded-lg p-8 flex items-center justify-center rotate-y-180"
             style={{ transform: 'rotateY(180deg)' }}
           >
+            <SpeakButton text={answer.text} lang={answer.lang} onSpeak={say} className="absolute top-2 right-2" />
             <div className="text-center">
               <div className="text-xs uppercase text-muted-foreground mb-2">
-                {currentCard.card_type === 'term' ? 'Definition' : 'Answer'}
+                {labels[answerSide]}
               </div>
-              <p className="text-xl">{currentCard.back}</p>
+              <ItemFace
+                card={current.card}
+                ordinal={current.ordinal}
+                noteType={current.noteType}
+                side={answerSide}
+                className="text-xl"
+              />
             </div>
           </div>
         </div>
@@ -168,7 +224,7 @@ const FlashcardsMode = memo(({ cards }: FlashcardsModeProps) => {
         <Button onClick={handlePrev} variant="outline" size="icon">
           <ChevronLeft className="h-5 w-5" />
         </Button>
-        <Button onClick={() => setIsFlipped(!isFlipped)} variant="secondary">
+        <Button onClick={() => flip()} variant="secondary">
           {isFlipped ? 'Show Front' : 'Show Back'}
         </Button>
         <Button onClick={handleNext} variant="outline" size="icon">
@@ -0,0 +1,81 @@
+import type { Components } from 'react-markdown';
+import { Card, NoteType, OcclusionMode } from '@/types/flashcard';
+import { CLOZE_HREF, clozeMarkdown } from '@/lib/cloze';
+import { mediaId } from '@/lib/media';
+import { renderNote, templateFor } from '@/lib/noteTemplates';
+import { occlusionImage } from '@/lib/occlusion';
+import Markdown from '@/components/Markdown';
+import MediaAudio from '@/components/MediaAudio';
+import OcclusionImage from './OcclusionImage';
+
+interface ItemFaceProps {
+  card: Pick<Card, 'card_type' | 'front' | 'back' | 'fields' | 'occlusions'>;
+  /** Cloze number, template ordinal or region being studied; ignored for other card types. */
+  ordinal: number;
+  side: 'front' | 'back';
+  /** The note type a note card is rendered with; without it the stored preview is shown. */
+  noteType?: NoteType;
+  /** Which regions of an occlusion card stay masked besides the one asked about. */
+  occlusionMode?: OcclusionMode;
+  className?: string;
+}
+
+// Blanks and revealed answers come through as links to CLOZE_HREF, next to audio clips and ordinary links
+const clozeComponents: Components = {
+  a: ({ node: _node, href, children, ...props }) => {
+    if (href === CLOZE_HREF) return <span className="text-primary font-semibold">{children}</span>;
+    if (mediaId(href)) return <MediaAudio src={href!}>{children}</MediaAudio>;
+    return <a {...props} href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+  }
+};
+
+/**
+ * One side of a study item, rendered as Markdown. Cloze cards show their text
+ * on both sides, blanked on the front and revealed on the back, followed by
+ * any notes from the back. Note cards show the side rendered from their template.
+ * Occlusion cards show their image masked the same way, revealed on the back.
+ */
+const ItemFace = ({ card, ordinal, side, noteType, occlusionMode = 'hide_one', className }: ItemFaceProps) => {
+  const template = templateFor(noteType, ordinal);
+  if (card.card_type === 'note' && template) {
+    return <Markdown className={className}>{renderNote(template, card.fields ?? {})[side]}</Markdown>;
+  }
+
+  if (card.card_type === 'occlusion') {
+    const image = occlusionImage(card.front);
+    return (
+      <div className="space-y-3">
+        {image && (
+          <OcclusionImage
+            src={image.src}
+            alt={image.alt}
+            regions={card.occlusions ?? []}
+            ordinal={ordinal}
+            revealed={side === 'back'}
+            mode={occlusionMode}
+          />
+        )}
+        {side === 'back' && card.back.trim() && (
+          <Markdown className="text-sm text-muted-foreground">{card.back}</Markdown>
+        )}
+      </div>
+    );
+  }
+
+  if (card.card_type !== 'cloze') {
+    return <Markdown className={className}>{side === 'front' ? card.front : card.back}</Markdown>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Markdown className={className} components={clozeComponents}>
+        {clozeMarkdown(card.front, ordinal, side === 'back')}
+      </Markdown>
+      {side === 'back' && card.back.trim() && (
+        <Markdown className="text-sm text-muted-foreground">{card.back}</Markdown>
+      )}
+    </div>
+  );
+};
+
+export default ItemFace;
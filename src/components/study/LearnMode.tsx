@@ -1,51 +1,61 @@
 import { useState, useEffect, memo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Card } from '@/types/flashcard';
 import { Check, X } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { recordReview } from '@/lib/reviewRecorder';
+import { useResponseTimer } from '@/hooks/use-response-timer';
+import { useStudySession } from '@/hooks/use-study-session';
+import { CARD_TYPE_LABELS, revealsInPlace } from '@/lib/cardTypes';
+import { questionOf, StudyItem } from '@/lib/studyItems';
+import { markdownToPlainText } from '@/lib/markdown';
+import Markdown from '@/components/Markdown';
+import ItemFace from './ItemFace';
 
 interface LearnModeProps {
-  cards: Card[];
+  items: StudyItem[];
   setId: string;
 }
 
-interface ExtendedCard extends Card {
+interface ExtendedCard extends StudyItem {
   questionMode: 'typing' | 'mcq';
+  promptSide: 'front' | 'back';
+  answerSide: 'front' | 'back';
+  answer: string;
 }
 
-const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
+const LearnMode = memo(({ items, setId }: LearnModeProps) => {
   const [studyCards, setStudyCards] = useState<ExtendedCard[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userAnswer, setUserAnswer] = useState('');
   const [showResult, setShowResult] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
   const [correctCount, setCorrectCount] = useState(0);
-  const [sessionId, setSessionId] = useState<string | null>(null);
   const [mcqOptions, setMcqOptions] = useState<string[]>([]);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [inputKey, setInputKey] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
+  const timer = useResponseTimer();
+  const { sessionId, record, finish } = useStudySession(setId, 'learn');
 
   useEffect(() => {
-    // Create extended cards: each card appears twice (once for typing, once for MCQ)
+    // Create extended cards: each item appears twice (once for typing, once for MCQ)
     const extended: ExtendedCard[] = [];
-    cards.forEach(card => {
-      extended.push({ ...card, questionMode: 'typing' });
-      if (cards.length >= 4) { // Only add MCQ if we have enough cards
-        extended.push({ ...card, questionMode: 'mcq' });
+    items.forEach(item => {
+      const question = questionOf(item);
+      extended.push({ ...item, ...question, questionMode: 'typing' });
+      if (items.length >= 4) { // Only add MCQ if we have enough items
+        extended.push({ ...item, ...question, questionMode: 'mcq' });
       }
     });
     // Shuffle the cards
     const shuffled = extended.sort(() => Math.random() - 0.5);
     setStudyCards(shuffled);
-    
-    startSession();
+
     if (shuffled.length > 0) {
       prepareQuestion(0, shuffled);
     }
-  }, [cards]);
+  }, [items]);
 
   useEffect(() => {
     if (showResult && isCorrect) {
@@ -69,19 +79,17 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
     }
   }, [showResult, inputKey]);
 
-  const startSession = async () => {
-    const { data } = await supabase
-      .from('study_sessions')
-      .insert({ set_id: setId, mode: 'learn' })
-      .select()
-      .single();
-    if (data) setSessionId(data.id);
-  };
+  useEffect(() => {
+    timer.restart();
+  }, [currentIndex, studyCards, timer]);
 
-  const generateMCQOptions = (correctAnswer: string, currentCardId: string): string[] => {
-    const wrongAnswers = cards
-      .filter(c => c.id !== currentCardId && c.front !== correctAnswer)
-      .map(c => c.front)
+  const generateMCQOptions = (correctAnswer: string, currentKey: string): string[] => {
+    const current = items.find(item => item.key === currentKey);
+    // Options come from the same direction so they read like the answer expected
+    const wrongAnswers = [...new Set(items
+      .filter(item => item.key !== currentKey && item.direction === current?.direction)
+      .map(item => questionOf(item).answer)
+      .filter(answer => answer !== correctAnswer))]
       .sort(() => Math.random() - 0.5)
       .slice(0, 3);
     
@@ -94,7 +102,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
   const prepareQuestion = (index: number, cardsToUse: ExtendedCard[] = studyCards) => {
     const card = cardsToUse[index];
     if (card.questionMode === 'mcq') {
-      setMcqOptions(generateMCQOptions(card.front, card.id));
+      setMcqOptions(generateMCQOptions(card.answer, card.key));
     } else {
       setMcqOptions([]);
     }
@@ -102,19 +110,47 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
 
   const checkAnswer = () => {
     if (showResult) return;
-    const correct = fuzzyMatch(userAnswer.trim().toLowerCase(), studyCards[currentIndex].front.toLowerCase());
+    // Typed answers are compared with the rendered answer, not its Markdown
+    const correct = fuzzyMatch(
+      userAnswer.trim().toLowerCase(),
+      markdownToPlainText(studyCards[currentIndex].answer).toLowerCase()
+    );
     setIsCorrect(correct);
     setShowResult(true);
     if (correct) setCorrectCount(correctCount + 1);
+    record(correct);
+    recordReview({
+      cardId: studyCards[currentIndex].card.id,
+      ordinal: studyCards[currentIndex].ordinal,
+      direction: studyCards[currentIndex].direction,
+      setId,
+      sessionId,
+      mode: 'learn',
+      correct,
+      answer: userAnswer.trim(),
+      responseTimeMs: timer.elapsed()
+    });
   };
 
   const handleMCQAnswer = (option: string) => {
     if (showResult) return;
     setSelectedOption(option);
-    const correct = option === studyCards[currentIndex].front;
+    const correct = option === studyCards[currentIndex].answer;
     setIsCorrect(correct);
     setShowResult(true);
     if (correct) setCorrectCount(correctCount + 1);
+    record(correct);
+    recordReview({
+      cardId: studyCards[currentIndex].card.id,
+      ordinal: studyCards[currentIndex].ordinal,
+      direction: studyCards[currentIndex].direction,
+      setId,
+      sessionId,
+      mode: 'learn',
+      correct,
+      answer: option,
+      responseTimeMs: timer.elapsed()
+    });
   };
 
   const fuzzyMatch = (answer: string, target: string): boolean => {
@@ -158,18 +194,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
   const handleNext = async () => {
     if (currentIndex === studyCards.length - 1) {
       // End session
-      const accuracy = (correctCount / studyCards.length) * 100;
-      if (sessionId) {
-        await supabase
-          .from('study_sessions')
-          .update({
-            ended_at: new Date().toISOString(),
-            cards_studied: studyCards.length,
-            correct_count: correctCount,
-            accuracy
-          })
-          .eq('id', sessionId);
-      }
+      await finish();
     }
 
     const nextIndex = currentIndex + 1;
@@ -202,6 +227,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
   }
 
   const currentCard = studyCards[currentIndex];
+  const labels = CARD_TYPE_LABELS[currentCard.card.card_type];
 
   return (
     <div className="space-y-6">
@@ -211,9 +237,17 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
 
       <div className={`bg-card border rounded-lg p-8 transition-opacity duration-300 ${isTransitioning ? 'opacity-0' : 'opacity-100'}`}>
         <div className="text-sm uppercase text-muted-foreground mb-2">
-          {currentCard.card_type === 'term' ? 'Definition' : 'Answer'}
+          {labels[currentCard.promptSide]}
+        </div>
+        <div className="mb-6">
+          <ItemFace
+            card={currentCard.card}
+            ordinal={currentCard.ordinal}
+            noteType={currentCard.noteType}
+            side={showResult && revealsInPlace(currentCard.card.card_type) ? 'back' : currentCard.promptSide}
+            className="text-2xl font-semibold"
+          />
         </div>
-        <p className="text-2xl font-semibold mb-6">{currentCard.back}</p>
 
         {!showResult ? (
           <div className="space-y-4">
@@ -241,7 +275,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
                     variant="outline"
                     className="h-auto py-4 px-6 text-left justify-start whitespace-normal"
                   >
-                    {option}
+                    <Markdown>{option}</Markdown>
                   </Button>
                 ))}
               </div>
@@ -260,7 +294,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
               <div className="grid grid-cols-1 gap-3">
                 {mcqOptions.map((option, index) => {
                   const isSelected = option === selectedOption;
-                  const isCorrectOption = option === currentCard.front;
+                  const isCorrectOption = option === currentCard.answer;
                   
                   return (
                     <Button
@@ -277,7 +311,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
                           : ''
                       }`}
                     >
-                      {option}
+                      <Markdown>{option}</Markdown>
                       {isSelected && isCorrect && <Check className="ml-2 h-4 w-4 inline" />}
                       {isSelected && !isCorrect && <X className="ml-2 h-4 w-4 inline" />}
                       {!isSelected && isCorrectOption && <Check className="ml-2 h-4 w-4 inline" />}
@@ -304,7 +338,7 @@ const LearnMode = memo(({ cards, setId }: LearnModeProps) => {
             {!isCorrect && (
               <div>
                 <p className="text-sm text-muted-foreground">Correct answer:</p>
-                <p className="text-lg font-medium">{currentCard.front}</p>
+                <Markdown className="text-lg font-medium">{currentCard.answer}</Markdown>
               </div>
             )}
             
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Mic, Play, Square } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import MediaAudio from '@/components/MediaAudio';
+import { useAudioRecorder } from '@/hooks/use-audio-recorder';
+import { playAudio } from '@/lib/audio';
+
+interface ListenAndCompareProps {
+  /** The media:<id> address of the clip to imitate. */
+  reference: string;
+}
+
+/**
+ * Pronunciation practice: the learner records themselves and plays their
+ * attempt next to the card's clip. Recordings stay on the device and are
+ * gone once the card changes.
+ */
+const ListenAndCompare = ({ reference }: ListenAndCompareProps) => {
+  const [attempt, setAttempt] = useState<string | null>(null);
+  const { recording, start, stop } = useAudioRecorder(clip => setAttempt(URL.createObjectURL(clip)));
+
+  useEffect(() => () => {
+    if (attempt) URL.revokeObjectURL(attempt);
+  }, [attempt]);
+
+  const record = () => {
+    start().catch(error => {
+      console.error(error);
+      toast.error('Could not use the microphone');
+    });
+  };
+
+  const playAttempt = () => {
+    if (!attempt) return;
+    playAudio(attempt).catch(error => {
+      console.error(error);
+      toast.error('Could not play your recording');
+    });
+  };
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg space-y-3">
+      <p className="text-sm text-muted-foreground">Listen and compare</p>
+      <div className="flex flex-wrap items-center gap-2">
+        <MediaAudio src={reference}>Reference</MediaAudio>
+        {recording ? (
+          <Button onClick={stop} variant="destructive" size="sm" className="h-8">
+            <Square className="mr-1 h-4 w-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={record} variant="outline" size="sm" className="h-8">
+            <Mic className="mr-1 h-4 w-4" />
+            {attempt ? 'Record again' : 'Record yourself'}
+          </Button>
+        )}
+        {attempt && !recording && (
+          <Button onClick={playAttempt} variant="secondary" size="sm" className="h-8">
+            <Play className="mr-1 h-4 w-4" />
+            Yours
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ListenAndCompare;
@@ -0,0 +1,55 @@
+import { OcclusionMode, OcclusionRegion } from '@/types/flashcard';
+import { cn } from '@/lib/utils';
+import MediaImage from '@/components/MediaImage';
+
+interface OcclusionImageProps {
+  src: string;
+  alt?: string;
+  regions: OcclusionRegion[];
+  /** Region being asked about. */
+  ordinal: number;
+  revealed: boolean;
+  mode: OcclusionMode;
+}
+
+const percent = (fraction: number) => `${fraction * 100}%`;
+
+/**
+ * An occlusion card's image with its regions masked for one item: the region
+ * asked about is hidden until revealed, the others stay hidden in hide-all mode.
+ */
+const OcclusionImage = ({ src, alt, regions, ordinal, revealed, mode }: OcclusionImageProps) => (
+  <div className="relative mx-auto w-fit">
+    <MediaImage src={src} alt={alt} className="block max-h-72" />
+    {regions.map(region => {
+      const asked = region.ordinal === ordinal;
+      if (!asked && mode === 'hide_one') return null;
+      return (
+        <div
+          key={region.ordinal}
+          className={cn(
+            'absolute rounded-sm border-2',
+            !asked && 'border-muted-foreground bg-muted-foreground',
+            asked && !revealed && 'flex items-center justify-center border-primary bg-primary text-primary-foreground',
+            asked && revealed && 'border-primary bg-primary/10'
+          )}
+          style={{
+            left: percent(region.x),
+            top: percent(region.y),
+            width: percent(region.width),
+            height: percent(region.height)
+          }}
+        >
+          {asked && !revealed && <span className="text-sm font-semibold">?</span>}
+          {asked && revealed && (
+            <span className="absolute left-0 top-full mt-0.5 whitespace-nowrap rounded bg-primary px-1 text-xs text-primary-foreground">
+              {region.label}
+            </span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default OcclusionImage;
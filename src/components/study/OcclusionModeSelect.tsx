@@ -0,0 +1,23 @@
+import { OCCLUSION_MODE_LABELS, OCCLUSION_MODES } from '@/lib/occlusion';
+import { OcclusionMode } from '@/types/flashcard';
+
+interface OcclusionModeSelectProps {
+  value: OcclusionMode;
+  onChange: (mode: OcclusionMode) => void;
+}
+
+/** Picks whether occlusion items hide only the region asked about or every region. */
+const OcclusionModeSelect = ({ value, onChange }: OcclusionModeSelectProps) => (
+  <select
+    aria-label="Masks"
+    value={value}
+    onChange={(e) => onChange(e.target.value as OcclusionMode)}
+    className="h-8 text-sm border rounded-md px-2 bg-background"
+  >
+    {OCCLUSION_MODES.map(mode => (
+      <option key={mode} value={mode}>{OCCLUSION_MODE_LABELS[mode]}</option>
+    ))}
+  </select>
+);
+
+export default OcclusionModeSelect;
@@ -0,0 +1,144 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardProgress, NoteType, OcclusionMode } from '@/types/flashcard';
+import { Difficulty, SchedulingOptions } from '@/lib/spacedRepetition';
+import { retrievability } from '@/lib/fsrs';
+import { format } from 'date-fns';
+import { CARD_TYPE_LABELS, revealsInPlace } from '@/lib/cardTypes';
+import { questionOf } from '@/lib/studyItems';
+import { itemSpeech, SetLanguages } from '@/lib/speech';
+import { audioIds, MEDIA_PROTOCOL } from '@/lib/media';
+import { recordingSupported } from '@/hooks/use-audio-recorder';
+import { useAutoplay, useSpeech } from '@/hooks/use-speech';
+import ItemFace from './ItemFace';
+import SpeakButton from './SpeakButton';
+import ListenAndCompare from './ListenAndCompare';
+
+interface ReviewCardProps {
+  card: Card;
+  progress: CardProgress;
+  /** The note type a note card is rendered with. */
+  noteType?: NoteType;
+  /** Which regions of an occlusion card stay masked besides the one asked about. */
+  occlusionMode?: OcclusionMode;
+  /** Languages the sides are read aloud in. */
+  languages: SetLanguages;
+  algorithm: SchedulingOptions['algorithm'];
+  showAnswer: boolean;
+  onReveal: () => void;
+  onGrade: (difficulty: Difficulty) => void;
+}
+
+/** A due card with its answer, grading buttons and scheduling details. */
+const ReviewCard = ({
+  card,
+  progress,
+  noteType,
+  occlusionMode,
+  languages,
+  algorithm,
+  showAnswer,
+  onReveal,
+  onGrade
+}: ReviewCardProps) => {
+  const ordinal = progress.ordinal ?? 0;
+  const { promptSide, answerSide } = questionOf({ card, ordinal, direction: progress.direction ?? 'forward', noteType });
+  const say = useSpeech();
+  const prompt = itemSpeech({ card, ordinal, noteType }, promptSide, languages);
+  const answer = itemSpeech({ card, ordinal, noteType }, answerSide, languages);
+  useAutoplay(say, answer.text, answer.lang, showAnswer);
+  // The first clip on the card is the one to imitate
+  const reference = [card.front, card.back, ...Object.values(card.fields ?? {})].flatMap(audioIds)[0];
+
+  return (
+    <>
+      <div className="bg-card border rounded-lg p-8">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <span className="text-sm uppercase text-muted-foreground">
+            {CARD_TYPE_LABELS[card.card_type][promptSide]}
+          </span>
+          <SpeakButton text={prompt.text} lang={prompt.lang} onSpeak={say} />
+        </div>
+        {revealsInPlace(card.card_type) || card.card_type === 'note' ? (
+          // Blanks and masks are filled in place, and note backs repeat their front, when the answer is shown
+          <div className="mb-6">
+            <ItemFace
+              card={card}
+              ordinal={ordinal}
+              noteType={noteType}
+              occlusionMode={occlusionMode}
+              side={showAnswer ? answerSide : promptSide}
+              className="text-2xl font-semibold"
+            />
+            {showAnswer && <SpeakButton text={answer.text} lang={answer.lang} onSpeak={say} className="mt-2" />}
+          </div>
+        ) : (
+          <>
+            <ItemFace card={card} ordinal={0} side={promptSide} className="text-2xl font-semibold mb-6" />
+
+            {showAnswer && (
+              <div className="mb-6 p-4 bg-secondary rounded-lg">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-sm text-muted-foreground">Answer:</p>
+                  <SpeakButton text={answer.text} lang={answer.lang} onSpeak={say} />
+                </div>
+                <ItemFace card={card} ordinal={0} side={answerSide} className="text-lg" />
+              </div>
+            )}
+          </>
+        )}
+
+        {showAnswer && reference && recordingSupported() && (
+          <ListenAndCompare key={progress.id} reference={`${MEDIA_PROTOCOL}${reference}`} />
+        )}
+
+        {!showAnswer ? (
+          <Button onClick={onReveal}>Show Answer</Button>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Button onClick={() => onGrade('again')} variant="destructive">
+              Again
+            </Button>
+            <Button onClick={() => onGrade('hard')} variant="secondary">
+              Hard
+            </Button>
+            <Button onClick={() => onGrade('good')} variant="default">
+              Good
+            </Button>
+            <Button onClick={() => onGrade('easy')} variant="outline">
+              Easy
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        {algorithm === 'fsrs' && progress.stability != null ? (
+          <>
+            <p>Stability: {progress.stability.toFixed(1)} days</p>
+            <p>Difficulty: {progress.difficulty?.toFixed(1)}</p>
+            {progress.last_reviewed && (
+              <p>
+                Recall Probability: {Math.round(retrievability(
+                  (Date.now() - new Date(progress.last_reviewed).getTime()) / 86400000,
+                  progress.stability
+                ) * 100)}%
+              </p>
+            )}
+          </>
+        ) : (
+          <p>Ease Factor: {progress.ease_factor.toFixed(2)}</p>
+        )}
+        {progress.state === 'learning' || progress.state === 'relearning' ? (
+          <p>{progress.state === 'learning' ? 'Learning' : 'Relearning'} step {(progress.step ?? 0) + 1}</p>
+        ) : (
+          <p>Interval: {progress.interval} days</p>
+        )}
+        <p>Lapses: {progress.lapses}</p>
+        <p>Repetitions: {progress.repetitions}</p>
+        <p>Last Reviewed: {progress.last_reviewed ? format(new Date(progress.last_reviewed), 'PPp') : 'Never'}</p>
+      </div>
+    </>
+  );
+};
+
+export default ReviewCard;
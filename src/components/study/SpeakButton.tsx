@@ -0,0 +1,36 @@
+import { Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface SpeakButtonProps {
+  text: string;
+  lang: string | null;
+  onSpeak: (text: string, lang: string | null) => void;
+  className?: string;
+}
+
+/** Reads a card side aloud; clicks and taps stay on the button so a flashcard does not flip. */
+const SpeakButton = ({ text, lang, onSpeak, className }: SpeakButtonProps) => {
+  if (!text.trim()) return null;
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      title="Read aloud"
+      aria-label="Read aloud"
+      className={cn('h-8 w-8', className)}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSpeak(text, lang);
+      }}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <Volume2 className="h-4 w-4" />
+    </Button>
+  );
+};
+
+export default SpeakButton;
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { useVoices } from '@/hooks/use-speech';
+import {
+  autoplayEnabled,
+  LANGUAGES,
+  SERVER_VOICE,
+  serverSpeechAvailable,
+  SetLanguages,
+  setAutoplayEnabled,
+  setVoicePreference,
+  voicePreference,
+  voicesFor
+} from '@/lib/speech';
+
+const languageName = (code: string | null) =>
+  code ? LANGUAGES.find(language => language.code === code)?.name ?? code : 'No language set';
+
+interface VoiceSelectProps {
+  id: string;
+  label: string;
+  lang: string | null;
+}
+
+const VoiceSelect = ({ id, label, lang }: VoiceSelectProps) => {
+  const installed = useVoices();
+  const voices = voicesFor(lang, installed);
+  const [value, setValue] = useState(() => voicePreference(lang) ?? '');
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-sm text-muted-foreground">{label}: {languageName(lang)}</Label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setVoicePreference(lang, e.target.value || null);
+        }}
+        className="w-full h-9 text-sm border rounded-md px-2 bg-background"
+      >
+        <option value="">{voices.length > 0 ? 'Default voice' : 'No voice on this device'}</option>
+        {voices.map(voice => (
+          <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+        ))}
+        {serverSpeechAvailable() && <option value={SERVER_VOICE}>Generated audio (works offline once played)</option>}
+      </select>
+    </div>
+  );
+};
+
+interface SpeechSettingsProps {
+  languages: SetLanguages;
+}
+
+/** Auto-play and the voice for each side of the set, remembered on this device. */
+const SpeechSettings = ({ languages }: SpeechSettingsProps) => {
+  const [autoplay, setAutoplay] = useState(autoplayEnabled);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="mr-2 h-4 w-4" />
+          Speech
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="tts-autoplay">Read answers aloud on reveal</Label>
+          <Switch
+            id="tts-autoplay"
+            checked={autoplay}
+            onCheckedChange={(checked) => {
+              setAutoplay(checked);
+              setAutoplayEnabled(checked);
+            }}
+          />
+        </div>
+        <VoiceSelect id="tts-front-voice" label="Front" lang={languages.front_language} />
+        {languages.back_language !== languages.front_language && (
+          <VoiceSelect id="tts-back-voice" label="Back" lang={languages.back_language} />
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SpeechSettings;
@@ -1,31 +1,37 @@
 import { useState, useEffect, memo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Card } from '@/types/flashcard';
 import { Check, X } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { recordReview } from '@/lib/reviewRecorder';
+import { useResponseTimer } from '@/hooks/use-response-timer';
+import { useStudySession } from '@/hooks/use-study-session';
+import { CARD_TYPE_LABELS, revealsInPlace } from '@/lib/cardTypes';
+import { questionOf, StudyItem } from '@/lib/studyItems';
+import { markdownToPlainText } from '@/lib/markdown';
+import Markdown from '@/components/Markdown';
+import ItemFace from './ItemFace';
 
 interface TestModeProps {
-  cards: Card[];
+  items: StudyItem[];
   setId: string;
 }
 
-const TestMode = memo(({ cards, setId }: TestModeProps) => {
+const TestMode = memo(({ items, setId }: TestModeProps) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userAnswer, setUserAnswer] = useState('');
   const [showResult, setShowResult] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
   const [correctCount, setCorrectCount] = useState(0);
-  const [sessionId, setSessionId] = useState<string | null>(null);
   const [questionType, setQuestionType] = useState<'mcq' | 'typing'>('typing');
   const [mcqOptions, setMcqOptions] = useState<string[]>([]);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const timer = useResponseTimer();
+  const { sessionId, record, finish } = useStudySession(setId, 'test');
 
   useEffect(() => {
-    startSession();
-    if (cards.length > 0) {
+    if (items.length > 0) {
       prepareQuestion(0);
     }
   }, []);
@@ -52,19 +58,17 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
     }
   }, [questionType, showResult, currentIndex]);
 
-  const startSession = async () => {
-    const { data } = await supabase
-      .from('study_sessions')
-      .insert({ set_id: setId, mode: 'test' })
-      .select()
-      .single();
-    if (data) setSessionId(data.id);
-  };
+  useEffect(() => {
+    timer.restart();
+  }, [currentIndex, items, timer]);
 
-  const generateMCQOptions = (correctAnswer: string, currentCardId: string): string[] => {
-    const wrongAnswers = cards
-      .filter(c => c.id !== currentCardId && c.front !== correctAnswer)
-      .map(c => c.front)
+  const generateMCQOptions = (correctAnswer: string, currentKey: string): string[] => {
+    const current = items.find(item => item.key === currentKey);
+    // Options come from the same direction so they read like the answer expected
+    const wrongAnswers = [...new Set(items
+      .filter(item => item.key !== currentKey && item.direction === current?.direction)
+      .map(item => questionOf(item).answer)
+      .filter(answer => answer !== correctAnswer))]
       .sort(() => Math.random() - 0.5)
       .slice(0, 3);
     
@@ -75,12 +79,12 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
   };
 
   const prepareQuestion = (index: number) => {
-    const card = cards[index];
-    const shouldBeMCQ = cards.length >= 4 && Math.random() < 0.5;
+    const item = items[index];
+    const shouldBeMCQ = items.length >= 4 && Math.random() < 0.5;
     
     if (shouldBeMCQ) {
       setQuestionType('mcq');
-      setMcqOptions(generateMCQOptions(card.front, card.id));
+      setMcqOptions(generateMCQOptions(questionOf(item).answer, item.key));
     } else {
       setQuestionType('typing');
       setMcqOptions([]);
@@ -88,18 +92,46 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
   };
 
   const checkAnswer = () => {
-    const correct = fuzzyMatch(userAnswer.trim().toLowerCase(), cards[currentIndex].front.toLowerCase());
+    // Typed answers are compared with the rendered answer, not its Markdown
+    const correct = fuzzyMatch(
+      userAnswer.trim().toLowerCase(),
+      markdownToPlainText(questionOf(items[currentIndex]).answer).toLowerCase()
+    );
     setIsCorrect(correct);
     setShowResult(true);
     if (correct) setCorrectCount(correctCount + 1);
+    record(correct);
+    recordReview({
+      cardId: items[currentIndex].card.id,
+      ordinal: items[currentIndex].ordinal,
+      direction: items[currentIndex].direction,
+      setId,
+      sessionId,
+      mode: 'test',
+      correct,
+      answer: userAnswer.trim(),
+      responseTimeMs: timer.elapsed()
+    });
   };
 
   const handleMCQAnswer = (option: string) => {
     setSelectedOption(option);
-    const correct = option === cards[currentIndex].front;
+    const correct = option === questionOf(items[currentIndex]).answer;
     setIsCorrect(correct);
     setShowResult(true);
     if (correct) setCorrectCount(correctCount + 1);
+    record(correct);
+    recordReview({
+      cardId: items[currentIndex].card.id,
+      ordinal: items[currentIndex].ordinal,
+      direction: items[currentIndex].direction,
+      setId,
+      sessionId,
+      mode: 'test',
+      correct,
+      answer: option,
+      responseTimeMs: timer.elapsed()
+    });
   };
 
   const fuzzyMatch = (answer: string, target: string): boolean => {
@@ -141,19 +173,8 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
   };
 
   const handleNext = async () => {
-    if (currentIndex === cards.length - 1) {
-      const accuracy = (correctCount / cards.length) * 100;
-      if (sessionId) {
-        await supabase
-          .from('study_sessions')
-          .update({
-            ended_at: new Date().toISOString(),
-            cards_studied: cards.length,
-            correct_count: correctCount,
-            accuracy
-          })
-          .eq('id', sessionId);
-      }
+    if (currentIndex === items.length - 1) {
+      await finish();
     }
 
     const nextIndex = currentIndex + 1;
@@ -162,18 +183,18 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
     setSelectedOption(null);
     setShowResult(false);
     
-    if (nextIndex < cards.length) {
+    if (nextIndex < items.length) {
       prepareQuestion(nextIndex);
     }
   };
 
-  if (currentIndex >= cards.length) {
-    const accuracy = Math.round((correctCount / cards.length) * 100);
+  if (currentIndex >= items.length) {
+    const accuracy = Math.round((correctCount / items.length) * 100);
     return (
       <div className="text-center space-y-4 p-8">
         <h2 className="text-3xl font-bold">Test Complete!</h2>
         <div className="text-6xl font-bold text-primary my-6">
-          {correctCount}/{cards.length}
+          {correctCount}/{items.length}
         </div>
         <p className="text-xl text-muted-foreground">
           Your Score: {accuracy}%
@@ -183,13 +204,17 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
     );
   }
 
-  const currentCard = cards[currentIndex];
+  const current = items[currentIndex];
+  const question = questionOf(current);
+  const labels = CARD_TYPE_LABELS[current.card.card_type];
+  // Cloze and occlusion items reveal the hidden part in place once answered
+  const shownSide = showResult && revealsInPlace(current.card.card_type) ? 'back' : question.promptSide;
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div className="text-sm text-muted-foreground">
-          Question {currentIndex + 1} of {cards.length}
+          Question {currentIndex + 1} of {items.length}
         </div>
         <div className="text-sm font-medium">
           Score: {correctCount}/{currentIndex + (showResult ? 1 : 0)}
@@ -198,9 +223,17 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
 
       <div className={`bg-card border rounded-lg p-8 transition-opacity duration-300 ${isTransitioning ? 'opacity-0' : 'opacity-100'}`}>
         <div className="text-sm uppercase text-muted-foreground mb-2">
-          {currentCard.card_type === 'term' ? 'Definition' : 'Answer'}
+          {labels[question.promptSide]}
+        </div>
+        <div className="mb-6">
+          <ItemFace
+            card={current.card}
+            ordinal={current.ordinal}
+            noteType={current.noteType}
+            side={shownSide}
+            className="text-2xl font-semibold"
+          />
         </div>
-        <p className="text-2xl font-semibold mb-6">{currentCard.back}</p>
 
         {!showResult ? (
           <div className="space-y-4">
@@ -213,7 +246,7 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
                     variant="outline"
                     className="h-auto py-4 px-6 text-left justify-start whitespace-normal"
                   >
-                    {option}
+                    <Markdown>{option}</Markdown>
                   </Button>
                 ))}
               </div>
@@ -239,7 +272,7 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
               <div className="grid grid-cols-1 gap-3 mb-4">
                 {mcqOptions.map((option, index) => {
                   const isSelected = option === selectedOption;
-                  const isCorrectOption = option === currentCard.front;
+                  const isCorrectOption = option === question.answer;
                   
                   return (
                     <Button
@@ -256,7 +289,7 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
                           : ''
                       }`}
                     >
-                      {option}
+                      <Markdown>{option}</Markdown>
                       {isSelected && isCorrect && <Check className="ml-2 h-4 w-4 inline" />}
                       {isSelected && !isCorrect && <X className="ml-2 h-4 w-4 inline" />}
                       {!isSelected && isCorrectOption && <Check className="ml-2 h-4 w-4 inline" />}
@@ -283,12 +316,12 @@ const TestMode = memo(({ cards, setId }: TestModeProps) => {
             {questionType === 'typing' && (
               <div>
                 <p className="text-sm text-muted-foreground">Correct answer:</p>
-                <p className="text-lg font-medium">{currentCard.front}</p>
+                <Markdown className="text-lg font-medium">{question.answer}</Markdown>
               </div>
             )}
             
             <Button onClick={handleNext}>
-              {currentIndex === cards.length - 1 ? 'Finish' : 'Next Card'}
+              {currentIndex === items.length - 1 ? 'Finish' : 'Next Card'}
             </Button>
           </div>
         )}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/** Recordings stop on their own after this long, well within the media size limit. */
+export const MAX_RECORDING_MS = 60_000;
+
+export const recordingSupported = () =>
+  typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Records from the microphone, which is asked for on `start`; it rejects when
+ * access is denied. Each finished recording is handed to `onRecorded`; one
+ * still running when the component goes away is dropped.
+ */
+export function useAudioRecorder(onRecorded: (clip: Blob) => void) {
+  const [recording, setRecording] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const discardRef = useRef(false);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const limit = setTimeout(() => recorder.state === 'recording' && recorder.stop(), MAX_RECORDING_MS);
+
+    recorder.addEventListener('dataavailable', (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    });
+    recorder.addEventListener('stop', () => {
+      clearTimeout(limit);
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      if (discardRef.current) return;
+      setRecording(false);
+      // Some browsers leave the type empty; WebM is what they record
+      onRecordedRef.current(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+    });
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+  }, []);
+
+  // Lets go of the microphone when leaving mid-recording
+  useEffect(() => () => {
+    discardRef.current = true;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  return { recording, start, stop, supported: recordingSupported() };
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+
+const { auth, syncEngine, clearMirror } = vi.hoisted(() => ({
+  auth: {
+    onAuthStateChange: vi.fn(() => ({ data: { subscription: { unsubscribe: vi.fn() } } })),
+    getSession: vi.fn().mockResolvedValue({ data: { session: null } }),
+    signOut: vi.fn().mockResolvedValue({ error: null })
+  },
+  syncEngine: {
+    // Offline: flushing returns straight away and leaves the queue as it was
+    flush: vi.fn().mockResolvedValue(undefined),
+    hasPending: vi.fn().mockResolvedValue(true)
+  },
+  clearMirror: vi.fn().mockResolvedValue(undefined)
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { auth } }));
+vi.mock('@/lib/repository', () => ({ dataBackend: 'supabase', syncEngine }));
+vi.mock('@/lib/sync/mirror', () => ({ clearMirror }));
+
+import { AuthProvider, useAuth } from './use-auth';
+
+const renderAuth = async () => {
+  const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+  await waitFor(() => expect(result.current.loading).toBe(false));
+  return result;
+};
+
+describe('signOut', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('refuses while offline changes are still queued', async () => {
+    const result = await renderAuth();
+
+    await expect(result.current.signOut()).rejects.toMatchObject({ code: 'unsynced_changes' });
+    expect(syncEngine.flush).toHaveBeenCalled();
+    expect(auth.signOut).not.toHaveBeenCalled();
+    expect(clearMirror).not.toHaveBeenCalled();
+  });
+
+  it('discards queued changes only when asked to', async () => {
+    const result = await renderAuth();
+
+    await result.current.signOut({ discardUnsynced: true });
+    expect(auth.signOut).toHaveBeenCalled();
+    expect(clearMirror).toHaveBeenCalled();
+  });
+
+  it('signs out once everything has synced', async () => {
+    syncEngine.hasPending.mockResolvedValueOnce(false);
+    const result = await renderAuth();
+
+    await result.current.signOut();
+    expect(auth.signOut).toHaveBeenCalled();
+    expect(clearMirror).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { dataBackend, syncEngine } from '@/lib/repository';
+import { clearMirror } from '@/lib/sync/mirror';
+
+export type AuthUser = Pick<User, 'id' | 'email'>;
+
+// The IndexedDB backend keeps everything on this device, so there is no account
+const LOCAL_USER: AuthUser = { id: 'local', email: 'Offline mode' };
+
+interface SignOutOptions {
+  /** Signs out even though queued changes could not be sent; they are lost. */
+  discardUnsynced?: boolean;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  session: Session | null;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
+  /** Rejects with code 'unsynced_changes' while changes made offline are still queued. */
+  signOut: (options?: SignOutOptions) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(dataBackend === 'supabase');
+
+  useEffect(() => {
+    if (dataBackend !== 'supabase') return;
+
+    // Subscribe first so a token refresh during getSession isn't missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      setLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signUp = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin }
+    });
+    if (error) throw error;
+  };
+
+  const signOut = async ({ discardUnsynced = false }: SignOutOptions = {}) => {
+    if (dataBackend !== 'supabase') return;
+    // Push any queued offline changes before the session goes away; signing out wipes the outbox
+    await syncEngine?.flush();
+    if (!discardUnsynced && (await syncEngine?.hasPending())) {
+      throw Object.assign(new Error('Some changes have not been synced yet'), { code: 'unsynced_changes' });
+    }
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    await clearMirror();
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: dataBackend === 'supabase' ? session?.user ?? null : LOCAL_USER,
+        session,
+        loading,
+        signIn,
+        signUp,
+        signOut
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
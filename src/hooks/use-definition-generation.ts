@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { needsBack } from '@/lib/cardTypes';
+import {
+  DEFINITION_BATCH_SIZE,
+  DEFINITION_CONCURRENCY,
+  forEachConcurrently,
+  generateDefinition,
+  generateDefinitions,
+  DefinitionStyle,
+  generationErrorToast,
+  resultError
+} from '@/lib/generation';
+import { Card } from '@/types/flashcard';
+
+export type DefinitionStatus = 'queued' | 'generating' | 'failed';
+
+type DefinitionCard = Pick<Card, 'id' | 'front' | 'back' | 'card_type'>;
+
+/** Cards "fill all" would write a back for: those with a front that needs a back they lack. */
+export const emptyDefinitions = <T extends DefinitionCard>(cards: T[]) =>
+  cards.filter(card => needsBack(card.card_type) && card.front.trim() && !card.back.trim());
+
+/**
+ * Generates card backs in the set's style, tracking every card on its own so
+ * several can be generated at once. `onDefinition` receives each back with
+ * whether it may replace one the user typed meanwhile; only asking for a
+ * single card again does that.
+ */
+export function useDefinitionGeneration(
+  style: DefinitionStyle,
+  onDefinition: (id: string, definition: string, overwrite: boolean) => void
+) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<Record<string, DefinitionStatus>>({});
+  // Kept in step with the state right away, so a card asked for twice in a row is only generated once
+  const statusRef = useRef(status);
+  const onDefinitionRef = useRef(onDefinition);
+  onDefinitionRef.current = onDefinition;
+  const styleRef = useRef(style);
+  styleRef.current = style;
+  const batch = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => () => batch.current?.abort(), []);
+
+  const updateStatus = useCallback((update: (current: Record<string, DefinitionStatus>) => Record<string, DefinitionStatus>) => {
+    statusRef.current = update(statusRef.current);
+    setStatus(statusRef.current);
+  }, []);
+
+  const setStatusOf = useCallback((ids: string[], next: DefinitionStatus | null) => {
+    updateStatus(current => {
+      const updated = { ...current };
+      for (const id of ids) {
+        if (next) updated[id] = next;
+        else delete updated[id];
+      }
+      return updated;
+    });
+  }, [updateStatus]);
+
+  /** Generates the back of one card; `overwrite` when the user asked for it explicitly. */
+  const generate = useCallback(async (card: DefinitionCard, overwrite: boolean) => {
+    const busy = statusRef.current[card.id];
+    if (!card.front.trim() || busy === 'queued' || busy === 'generating') return;
+    setStatusOf([card.id], 'generating');
+    try {
+      onDefinitionRef.current(card.id, await generateDefinition(card.front, card.card_type, styleRef.current), overwrite);
+      setStatusOf([card.id], null);
+    } catch (error) {
+      console.error(error);
+      setStatusOf([card.id], 'failed');
+      toast({ ...generationErrorToast(error, 'Failed to generate definition'), variant: 'destructive' });
+    }
+  }, [setStatusOf, toast]);
+
+  /** Generates the backs of every card that has none, a few batches at a time. */
+  const fillAll = useCallback(async (cards: DefinitionCard[]) => {
+    if (batch.current) return;
+    const targets = emptyDefinitions(cards).filter(card => {
+      const busy = statusRef.current[card.id];
+      return busy !== 'queued' && busy !== 'generating';
+    });
+    if (targets.length === 0) {
+      toast({ title: 'No cards are missing a definition' });
+      return;
+    }
+
+    // Settings changed mid-run apply from the next run on
+    const style = styleRef.current;
+    const controller = new AbortController();
+    batch.current = controller;
+    setStatusOf(targets.map(card => card.id), 'queued');
+    setProgress({ done: 0, total: targets.length });
+
+    const batches: DefinitionCard[][] = [];
+    for (let i = 0; i < targets.length; i += DEFINITION_BATCH_SIZE) {
+      batches.push(targets.slice(i, i + DEFINITION_BATCH_SIZE));
+    }
+
+    let failed = 0;
+    let firstError: unknown = null;
+    await forEachConcurrently(batches, DEFINITION_CONCURRENCY, async (items) => {
+      const ids = items.map(card => card.id);
+      setStatusOf(ids, 'generating');
+      try {
+        const results = await generateDefinitions(
+          items.map(card => ({ id: card.id, text: card.front, type: card.card_type })),
+          style,
+          controller.signal
+        );
+        for (const result of results) {
+          if ('definition' in result) onDefinitionRef.current(result.id, result.definition, false);
+          else firstError ??= resultError(result);
+        }
+        const failedIds = ids.filter(id => !results.some(result => result.id === id && 'definition' in result));
+        failed += failedIds.length;
+        setStatusOf(ids.filter(id => !failedIds.includes(id)), null);
+        setStatusOf(failedIds, 'failed');
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(error);
+        firstError ??= error;
+        failed += ids.length;
+        setStatusOf(ids, 'failed');
+      }
+      setProgress(current => current && { ...current, done: current.done + ids.length });
+    }, controller.signal);
+
+    // Cancelling leaves what finished in place and forgets what was still waiting
+    if (controller.signal.aborted) {
+      const ids = new Set(targets.map(card => card.id));
+      updateStatus(current => Object.fromEntries(
+        Object.entries(current).filter(([id, value]) => value === 'failed' || !ids.has(id))
+      ));
+      toast({ title: 'Stopped generating definitions' });
+    } else if (failed > 0) {
+      const problem = generationErrorToast(firstError, 'Something went wrong');
+      toast({
+        title: `${failed} of ${targets.length} definitions could not be generated`,
+        description: `${problem.title}. Use Retry failed to try them again.`,
+        variant: 'destructive'
+      });
+    } else {
+      toast({ title: `Generated ${targets.length} definitions` });
+    }
+    batch.current = null;
+    setProgress(null);
+  }, [setStatusOf, updateStatus, toast]);
+
+  const cancel = useCallback(() => batch.current?.abort(), []);
+
+  /** Tries the cards whose back failed again, unless the user has typed one since. */
+  const retryFailed = useCallback(
+    (cards: DefinitionCard[]) => fillAll(cards.filter(card => statusRef.current[card.id] === 'failed')),
+    [fillAll]
+  );
+
+  const isGenerating = useCallback((id: string) => status[id] === 'queued' || status[id] === 'generating', [status]);
+
+  return { status, progress, isGenerating, generate, fillAll, cancel, retryFailed };
+}
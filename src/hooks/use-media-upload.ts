@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+import type { ClipboardEvent, DragEvent } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { repository } from '@/lib/repository';
+import { isNetworkError } from '@/lib/sync/syncEngine';
+import { audioMarkdown, imageMarkdown, isAudio, mediaProblem } from '@/lib/media';
+
+const filesIn = (items: DataTransferItemList | null) =>
+  Array.from(items ?? [])
+    .filter(item => item.kind === 'file' && (item.type.startsWith('image/') || item.type.startsWith('audio/')))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+
+/**
+ * Uploads images and audio clips for editor fields and hands back the Markdown
+ * that shows or plays them.
+ * Uploads are tracked per key, usually `<cardId>-<side>`.
+ */
+export function useMediaUpload() {
+  const { toast } = useToast();
+  const [uploading, setUploading] = useState<Set<string>>(new Set());
+
+  const attach = useCallback(async (key: string, files: File[], insert: (markdown: string) => void) => {
+    if (files.length === 0) return;
+    setUploading(current => new Set(current).add(key));
+    try {
+      for (const file of files) {
+        const problem = mediaProblem(file);
+        if (problem) {
+          toast({ title: problem, description: file.name, variant: 'destructive' });
+          continue;
+        }
+        const media = await repository.media.upload(file);
+        const name = file.name.replace(/\.[^.]+$/, '');
+        insert(isAudio(file) ? audioMarkdown(media.id, name) : imageMarkdown(media.id, name));
+      }
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: isNetworkError(error) ? 'Files can only be attached while online' : 'Failed to attach file',
+        variant: 'destructive'
+      });
+    } finally {
+      setUploading(current => {
+        const next = new Set(current);
+        next.delete(key);
+        return next;
+      });
+    }
+  }, [toast]);
+
+  /** Paste and drop handlers that attach images and audio and leave anything else to the field. */
+  const dropProps = useCallback((key: string, insert: (markdown: string) => void) => ({
+    onPaste: (e: ClipboardEvent) => {
+      const files = filesIn(e.clipboardData.items);
+      if (files.length === 0) return;
+      e.preventDefault();
+      attach(key, files, insert);
+    },
+    onDragOver: (e: DragEvent) => {
+      if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+    },
+    onDrop: (e: DragEvent) => {
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length === 0) return;
+      e.preventDefault();
+      attach(key, files, insert);
+    }
+  }), [attach]);
+
+  const isUploading = useCallback((key: string) => uploading.has(key), [uploading]);
+
+  return { attach, dropProps, isUploading };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { repository } from '@/lib/repository';
+import { mediaId } from '@/lib/media';
+
+/**
+ * The address to load an image from: media:<id> addresses are looked up,
+ * anything else is used as is. Undefined while looking up, null when the file
+ * cannot be found.
+ */
+export function useMediaUrl(src: string | undefined) {
+  const id = mediaId(src);
+  const [url, setUrl] = useState<string | null | undefined>(id ? undefined : src);
+
+  useEffect(() => {
+    if (!id) {
+      setUrl(src);
+      return;
+    }
+    let cancelled = false;
+    setUrl(undefined);
+    repository.media.url(id)
+      .then(resolved => { if (!cancelled) setUrl(resolved); })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) setUrl(null);
+      });
+    return () => { cancelled = true; };
+  }, [id, src]);
+
+  return url;
+}
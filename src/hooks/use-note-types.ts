@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from 'react';
+import { repository } from '@/lib/repository';
+import { NoteType } from '@/types/flashcard';
+
+/** The user's note types, reloaded after they are edited. */
+export function useNoteTypes() {
+  const [noteTypes, setNoteTypes] = useState<NoteType[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setNoteTypes(await repository.noteTypes.list());
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { noteTypes, reload };
+}
@@ -0,0 +1,14 @@
+import { useCallback, useMemo, useRef } from 'react';
+
+/** Measures how long the learner takes to answer the current card. */
+export function useResponseTimer() {
+  const startedAt = useRef(performance.now());
+
+  const restart = useCallback(() => {
+    startedAt.current = performance.now();
+  }, []);
+
+  const elapsed = useCallback(() => Math.round(performance.now() - startedAt.current), []);
+
+  return useMemo(() => ({ restart, elapsed }), [restart, elapsed]);
+}
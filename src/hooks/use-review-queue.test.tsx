@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+
+const { repository, sessions } = vi.hoisted(() => ({
+  repository: {
+    progress: { dueQueue: vi.fn(), update: vi.fn() },
+    sets: { get: vi.fn() },
+    noteTypes: { list: vi.fn().mockResolvedValue([]) }
+  },
+  sessions: {
+    record: vi.fn().mockResolvedValue('session-1'),
+    finish: vi.fn().mockResolvedValue(undefined)
+  }
+}));
+
+vi.mock('@/lib/repository', () => ({ repository }));
+vi.mock('@/hooks/use-study-session', () => ({ useStudySessionsBySet: () => sessions }));
+vi.mock('@/lib/reviewRecorder', () => ({ recordReview: vi.fn() }));
+
+import { useReviewQueue } from './use-review-queue';
+
+const set = { id: 'set-1', title: 'French' };
+const itemFor = (id: string) => ({
+  card: { id, set_id: set.id, front: id, back: id, card_type: 'term' },
+  progress: {
+    id: `progress-${id}`,
+    card_id: id,
+    ordinal: 0,
+    direction: 'forward',
+    ease_factor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    next_review: new Date().toISOString(),
+    last_reviewed: null,
+    stability: null,
+    difficulty: null,
+    lapses: 0,
+    state: 'new',
+    step: 0,
+    owner_id: null
+  }
+});
+
+describe('useReviewQueue', () => {
+  it('ignores a grade while the previous one is still being saved', async () => {
+    repository.progress.dueQueue.mockResolvedValue({
+      items: [itemFor('a'), itemFor('b')],
+      counts: { new: 2, learning: 0, due: 0 },
+      countsBySet: {}
+    });
+    repository.sets.get.mockResolvedValue(set);
+    let saved: () => void = () => undefined;
+    repository.progress.update.mockReturnValueOnce(new Promise<void>(resolve => { saved = resolve; }));
+
+    const { result } = renderHook(() => useReviewQueue(set.id));
+    await act(() => result.current.load());
+
+    let first: Promise<void> = Promise.resolve();
+    await act(async () => {
+      first = result.current.grade('easy');
+      await result.current.grade('easy');
+    });
+    await act(async () => {
+      saved();
+      await first;
+    });
+
+    expect(repository.progress.update).toHaveBeenCalledTimes(1);
+    expect(result.current.current?.card.id).toBe('b');
+  });
+});
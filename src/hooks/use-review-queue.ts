@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { startOfDay } from 'date-fns';
+import { repository } from '@/lib/repository';
+import type { DueCounts } from '@/lib/repository/types';
+import { DueItem, dueQueueOf, isDueWithinSession } from '@/lib/reviewQueue';
+import { scheduleReview, Difficulty } from '@/lib/spacedRepetition';
+import { schedulingOptions } from '@/lib/setSettings';
+import { recordReview } from '@/lib/reviewRecorder';
+import { noteTypeOf } from '@/lib/studyItems';
+import { StudyDirection } from '@/types/flashcard';
+import { useResponseTimer } from '@/hooks/use-response-timer';
+import { useStudySessionsBySet } from '@/hooks/use-study-session';
+
+/** Cards to review now, from one set or across all of them, in review order. */
+async function loadDueQueue(setId?: string, direction?: StudyDirection) {
+  const [queue, sets, noteTypes] = await Promise.all([
+    repository.progress.dueQueue({ setId, direction, dayStart: startOfDay(new Date()) }),
+    setId ? repository.sets.get(setId).then(set => (set ? [set] : [])) : repository.sets.list(),
+    repository.noteTypes.list()
+  ]);
+
+  const setsById = new Map(sets.map(set => [set.id, set]));
+  const items = queue.items.flatMap(({ card, progress }): DueItem[] => {
+    const set = setsById.get(card.set_id);
+    return set ? [{ card, progress, set, noteType: noteTypeOf(card, noteTypes) }] : [];
+  });
+  return { items, counts: queue.counts };
+}
+
+/**
+ * Spaced-repetition review of the cards due now, for one set or all of them.
+ * Cards still in their learning steps come back later in the same session.
+ * `direction` overrides the study direction of the sets for this session.
+ */
+export function useReviewQueue(setId?: string, direction?: StudyDirection) {
+  const [queue, setQueue] = useState<DueItem[]>([]);
+  const [counts, setCounts] = useState<DueCounts | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const answerTimeRef = useRef<number | null>(null);
+  // A second press while an answer is still being saved would grade the same card twice
+  const gradingRef = useRef(false);
+  const timer = useResponseTimer();
+  const sessions = useStudySessionsBySet('spaced');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { items, counts } = await loadDueQueue(setId, direction);
+      setQueue(items);
+      setCounts(counts);
+      setCurrentIndex(0);
+      setReviewedCount(0);
+      setShowAnswer(false);
+    } finally {
+      setLoading(false);
+    }
+  }, [setId, direction]);
+
+  useEffect(() => {
+    timer.restart();
+  }, [currentIndex, timer]);
+
+  const reveal = () => {
+    answerTimeRef.current = timer.elapsed();
+    setShowAnswer(true);
+  };
+
+  const grade = async (difficulty: Difficulty) => {
+    if (gradingRef.current) return;
+    gradingRef.current = true;
+    try {
+      await saveGrade(difficulty);
+    } finally {
+      gradingRef.current = false;
+    }
+  };
+
+  const saveGrade = async (difficulty: Difficulty) => {
+    const item = queue[currentIndex];
+    const responseTimeMs = answerTimeRef.current ?? timer.elapsed();
+    const now = new Date();
+    const result = scheduleReview(item.progress, difficulty, schedulingOptions(item.set), now);
+    const changes = {
+      ...result,
+      next_review: result.next_review.toISOString(),
+      last_reviewed: now.toISOString()
+    };
+
+    await repository.progress.update(item.progress.id, changes);
+
+    const requeued = isDueWithinSession(changes, now);
+    const nextQueue = requeued
+      ? [...queue, { ...item, progress: { ...item.progress, ...changes } }]
+      : queue;
+    setQueue(nextQueue);
+    if (counts) {
+      const from = dueQueueOf(item.progress.state);
+      const next = { ...counts, [from]: counts[from] - 1 };
+      if (requeued) next.learning++;
+      setCounts(next);
+    }
+    setReviewedCount(reviewedCount + 1);
+    setShowAnswer(false);
+    setCurrentIndex(currentIndex + 1);
+
+    // Sessions are per set, so each answer counts towards the card's own set
+    const sessionId = await sessions.record(item.set.id, difficulty !== 'again');
+    recordReview({
+      cardId: item.card.id,
+      ordinal: item.progress.ordinal,
+      direction: item.progress.direction,
+      setId: item.set.id,
+      sessionId,
+      mode: 'spaced',
+      grade: difficulty,
+      responseTimeMs,
+      intervalBefore: item.progress.interval,
+      intervalAfter: result.interval,
+      state: item.progress.state
+    });
+
+    if (currentIndex === nextQueue.length - 1) {
+      await sessions.finish();
+    }
+  };
+
+  return {
+    loading,
+    queue,
+    counts,
+    current: queue[currentIndex] as DueItem | undefined,
+    currentIndex,
+    reviewedCount,
+    showAnswer,
+    load,
+    reveal,
+    grade
+  };
+}
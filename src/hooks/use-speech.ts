@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { autoplayEnabled, speak, speechSynthesisAvailable, stopSpeaking } from '@/lib/speech';
+
+/** Reads text aloud, reporting when it cannot; speech stops when the component goes away. */
+export function useSpeech() {
+  useEffect(() => stopSpeaking, []);
+
+  return useCallback((text: string, lang: string | null) => {
+    speak(text, lang).catch(error => {
+      console.error(error);
+      toast.error('Could not read this card aloud');
+    });
+  }, []);
+}
+
+/** Reads the text aloud whenever `active` turns true, if auto-play is switched on. */
+export function useAutoplay(say: (text: string, lang: string | null) => void, text: string, lang: string | null, active: boolean) {
+  useEffect(() => {
+    if (active && autoplayEnabled()) say(text, lang);
+  }, [say, text, lang, active]);
+}
+
+/** The voices installed on this device, which browsers load after start-up. */
+export function useVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    speechSynthesisAvailable() ? window.speechSynthesis.getVoices() : []
+  );
+
+  useEffect(() => {
+    if (!speechSynthesisAvailable()) return;
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return voices;
+}
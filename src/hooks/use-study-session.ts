@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  endSession,
+  heartbeat,
+  HEARTBEAT_INTERVAL_MS,
+  SessionTally,
+  startSession
+} from '@/lib/studySession';
+import { StudyModeName, StudySession } from '@/types/flashcard';
+
+interface StudySessionOptions {
+  /** Modes without right or wrong answers record no accuracy. */
+  graded?: boolean;
+  /** Treat leaving the mode as finishing it, for modes without an end screen. */
+  completeOnLeave?: boolean;
+}
+
+/**
+ * Opens a study session while the mode is mounted, keeps it alive with a
+ * heartbeat, and closes it as finished or abandoned.
+ */
+export function useStudySession(
+  setId: string,
+  mode: StudyModeName,
+  { graded = true, completeOnLeave = false }: StudySessionOptions = {}
+) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const sessionRef = useRef<StudySession | null>(null);
+  const tallyRef = useRef({ cardsStudied: 0, correctCount: 0 });
+
+  const currentTally = useCallback((): SessionTally => (
+    graded
+      ? { ...tallyRef.current }
+      : { cardsStudied: tallyRef.current.cardsStudied }
+  ), [graded]);
+
+  useEffect(() => {
+    let unmounted = false;
+    tallyRef.current = { cardsStudied: 0, correctCount: 0 };
+
+    startSession(setId, mode)
+      .then(session => {
+        if (unmounted) {
+          endSession(session, { cardsStudied: 0 }, { abandoned: true }).catch(console.error);
+          return;
+        }
+        sessionRef.current = session;
+        setSessionId(session.id);
+      })
+      .catch(console.error);
+
+    const beat = () => {
+      if (sessionRef.current) heartbeat(sessionRef.current, currentTally()).catch(console.error);
+    };
+    const handleVisibilityChange = () => {
+      // The tab may never come back, so leave an up-to-date trail for auto-close
+      if (document.visibilityState === 'hidden') beat();
+    };
+
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      unmounted = true;
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      if (session) {
+        const tally = currentTally();
+        const completed = completeOnLeave && tally.cardsStudied > 0;
+        endSession(session, tally, { abandoned: !completed }).catch(console.error);
+      }
+    };
+  }, [setId, mode, completeOnLeave, currentTally]);
+
+  const record = useCallback((correct?: boolean) => {
+    tallyRef.current.cardsStudied += 1;
+    if (correct) tallyRef.current.correctCount += 1;
+  }, []);
+
+  const finish = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    await endSession(session, currentTally());
+  }, [currentTally]);
+
+  return { sessionId, record, finish };
+}
+
+interface SetSession {
+  session: Promise<StudySession | null>;
+  tally: { cardsStudied: number; correctCount: number };
+}
+
+/**
+ * Study sessions for a queue that mixes cards from several sets: each set gets
+ * its own session, opened when the first of its cards is answered.
+ */
+export function useStudySessionsBySet(mode: StudyModeName) {
+  const sessionsRef = useRef(new Map<string, SetSession>());
+
+  useEffect(() => {
+    const sessions = sessionsRef.current;
+
+    const beat = () => {
+      sessions.forEach(({ session, tally }) => {
+        session
+          .then(s => s && heartbeat(s, { ...tally }))
+          .catch(console.error);
+      });
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') beat();
+    };
+
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sessions.forEach(({ session, tally }) => {
+        session
+          .then(s => s && endSession(s, { ...tally }, { abandoned: true }))
+          .catch(console.error);
+      });
+      sessions.clear();
+    };
+  }, [mode]);
+
+  /** Counts an answer towards the card's set and resolves with that set's session id. */
+  const record = useCallback(async (setId: string, correct?: boolean): Promise<string | null> => {
+    let entry = sessionsRef.current.get(setId);
+    if (!entry) {
+      entry = {
+        session: startSession(setId, mode).catch(error => {
+          console.error(error);
+          return null;
+        }),
+        tally: { cardsStudied: 0, correctCount: 0 }
+      };
+      sessionsRef.current.set(setId, entry);
+    }
+    entry.tally.cardsStudied += 1;
+    if (correct) entry.tally.correctCount += 1;
+    return (await entry.session)?.id ?? null;
+  }, [mode]);
+
+  const finish = useCallback(async () => {
+    const entries = [...sessionsRef.current.values()];
+    sessionsRef.current.clear();
+    await Promise.all(entries.map(async ({ session, tally }) => {
+      const s = await session;
+      if (s) await endSession(s, { ...tally });
+    }));
+  }, []);
+
+  return { record, finish };
+}
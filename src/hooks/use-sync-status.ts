@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { syncEngine } from '@/lib/repository';
+import type { SyncStatus } from '@/lib/sync/syncEngine';
+
+const noopSubscribe = () => () => undefined;
+const noStatus = () => null;
+
+/** Live outbox status, or null when the app runs without a server. */
+export function useSyncStatus(): SyncStatus | null {
+  return useSyncExternalStore(
+    syncEngine ? syncEngine.subscribe : noopSubscribe,
+    syncEngine ? syncEngine.getStatus : noStatus
+  );
+}
@@ -14,39 +14,93 @@ export type Database = {
   }
   public: {
     Tables: {
+      card_media: {
+        Row: {
+          byte_size: number
+          content_type: string
+          created_at: string
+          id: string
+          owner_id: string | null
+          path: string
+        }
+        Insert: {
+          byte_size: number
+          content_type: string
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          path: string
+        }
+        Update: {
+          byte_size?: number
+          content_type?: string
+          created_at?: string
+          id?: string
+          owner_id?: string | null
+          path?: string
+        }
+        Relationships: []
+      }
       card_progress: {
         Row: {
           card_id: string
+          difficulty: number | null
+          direction: string
           ease_factor: number
           id: string
           interval: number
+          lapses: number
           last_reviewed: string | null
           next_review: string
+          ordinal: number
+          owner_id: string | null
           repetitions: number
+          stability: number | null
+          state: string
+          step: number
+          updated_at: string
         }
         Insert: {
           card_id: string
+          difficulty?: number | null
+          direction?: string
           ease_factor?: number
           id?: string
           interval?: number
+          lapses?: number
           last_reviewed?: string | null
           next_review?: string
+          ordinal?: number
+          owner_id?: string | null
           repetitions?: number
+          stability?: number | null
+          state?: string
+          step?: number
+          updated_at?: string
         }
         Update: {
           card_id?: string
+          difficulty?: number | null
+          direction?: string
           ease_factor?: number
           id?: string
           interval?: number
+          lapses?: number
           last_reviewed?: string | null
           next_review?: string
+          ordinal?: number
+          owner_id?: string | null
           repetitions?: number
+          stability?: number | null
+          state?: string
+          step?: number
+          updated_at?: string
         }
         Relationships: [
           {
             foreignKeyName: "card_progress_card_id_fkey"
             columns: ["card_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "cards"
             referencedColumns: ["id"]
           },
@@ -57,28 +111,43 @@ export type Database = {
           back: string
           card_type: string
           created_at: string
+          fields: Json | null
           front: string
           id: string
+          note_type_id: string | null
+          occlusions: Json | null
           order_index: number
+          owner_id: string | null
           set_id: string
+          updated_at: string
         }
         Insert: {
           back: string
           card_type?: string
           created_at?: string
+          fields?: Json | null
           front: string
           id?: string
+          note_type_id?: string | null
+          occlusions?: Json | null
           order_index?: number
+          owner_id?: string | null
           set_id: string
+          updated_at?: string
         }
         Update: {
           back?: string
           card_type?: string
           created_at?: string
+          fields?: Json | null
           front?: string
           id?: string
+          note_type_id?: string | null
+          occlusions?: Json | null
           order_index?: number
+          owner_id?: string | null
           set_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -88,63 +157,236 @@ export type Database = {
             referencedRelation: "sets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cards_note_type_id_fkey"
+            columns: ["note_type_id"]
+            isOneToOne: false
+            referencedRelation: "note_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_types: {
+        Row: {
+          created_at: string
+          fields: string[]
+          id: string
+          name: string
+          owner_id: string | null
+          templates: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          fields: string[]
+          id?: string
+          name: string
+          owner_id?: string | null
+          templates: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          fields?: string[]
+          id?: string
+          name?: string
+          owner_id?: string | null
+          templates?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      review_logs: {
+        Row: {
+          answer: string | null
+          card_id: string
+          correct: boolean | null
+          direction: string
+          grade: string | null
+          id: string
+          interval_after: number | null
+          interval_before: number | null
+          mode: string
+          ordinal: number
+          owner_id: string | null
+          response_time_ms: number | null
+          reviewed_at: string
+          session_id: string | null
+          set_id: string
+          state: string | null
+        }
+        Insert: {
+          answer?: string | null
+          card_id: string
+          correct?: boolean | null
+          direction?: string
+          grade?: string | null
+          id?: string
+          interval_after?: number | null
+          interval_before?: number | null
+          mode: string
+          ordinal?: number
+          owner_id?: string | null
+          response_time_ms?: number | null
+          reviewed_at?: string
+          session_id?: string | null
+          set_id: string
+          state?: string | null
+        }
+        Update: {
+          answer?: string | null
+          card_id?: string
+          correct?: boolean | null
+          direction?: string
+          grade?: string | null
+          id?: string
+          interval_after?: number | null
+          interval_before?: number | null
+          mode?: string
+          ordinal?: number
+          owner_id?: string | null
+          response_time_ms?: number | null
+          reviewed_at?: string
+          session_id?: string | null
+          set_id?: string
+          state?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_logs_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_logs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "study_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_logs_set_id_fkey"
+            columns: ["set_id"]
+            isOneToOne: false
+            referencedRelation: "sets"
+            referencedColumns: ["id"]
+          },
         ]
       }
       sets: {
         Row: {
+          back_language: string | null
           card_count: number
           created_at: string
+          definition_language: string | null
+          definition_length: string
           description: string | null
+          front_language: string | null
           id: string
+          include_example: boolean
+          learning_steps: number[]
+          max_reviews_per_day: number
+          new_cards_per_day: number
+          owner_id: string | null
+          reading_level: string
+          relearning_steps: number[]
+          scheduler: string
+          study_direction: string
+          target_retention: number
           title: string
           updated_at: string
+          version: number
         }
         Insert: {
+          back_language?: string | null
           card_count?: number
           created_at?: string
+          definition_language?: string | null
+          definition_length?: string
           description?: string | null
+          front_language?: string | null
           id?: string
+          include_example?: boolean
+          learning_steps?: number[]
+          max_reviews_per_day?: number
+          new_cards_per_day?: number
+          owner_id?: string | null
+          reading_level?: string
+          relearning_steps?: number[]
+          scheduler?: string
+          study_direction?: string
+          target_retention?: number
           title: string
           updated_at?: string
+          version?: number
         }
         Update: {
+          back_language?: string | null
           card_count?: number
           created_at?: string
+          definition_language?: string | null
+          definition_length?: string
           description?: string | null
+          front_language?: string | null
           id?: string
+          include_example?: boolean
+          learning_steps?: number[]
+          max_reviews_per_day?: number
+          new_cards_per_day?: number
+          owner_id?: string | null
+          reading_level?: string
+          relearning_steps?: number[]
+          scheduler?: string
+          study_direction?: string
+          target_retention?: number
           title?: string
           updated_at?: string
+          version?: number
         }
         Relationships: []
       }
       study_sessions: {
         Row: {
+          abandoned: boolean
           accuracy: number | null
           cards_studied: number
           correct_count: number
+          duration_seconds: number | null
           ended_at: string | null
           id: string
+          last_active_at: string
           mode: string
+          owner_id: string | null
           set_id: string
           started_at: string
         }
         Insert: {
+          abandoned?: boolean
           accuracy?: number | null
           cards_studied?: number
           correct_count?: number
+          duration_seconds?: number | null
           ended_at?: string | null
           id?: string
+          last_active_at?: string
           mode: string
+          owner_id?: string | null
           set_id: string
           started_at?: string
         }
         Update: {
+          abandoned?: boolean
           accuracy?: number | null
           cards_studied?: number
           correct_count?: number
+          duration_seconds?: number | null
           ended_at?: string | null
           id?: string
+          last_active_at?: string
           mode?: string
+          owner_id?: string | null
           set_id?: string
           started_at?: string
         }
@@ -158,12 +400,80 @@ export type Database = {
           },
         ]
       }
+      user_preferences: {
+        Row: {
+          daily_goal_target: number
+          daily_goal_type: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          daily_goal_target?: number
+          daily_goal_type?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Update: {
+          daily_goal_target?: number
+          daily_goal_type?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_due_counts: {
+        Args: {
+          p_day_start: string
+          p_direction?: string
+          p_learn_ahead_minutes?: number
+          p_set_id?: string
+        }
+        Returns: Json
+      }
+      get_due_queue: {
+        Args: {
+          p_day_start: string
+          p_direction?: string
+          p_learn_ahead_minutes?: number
+          p_limit?: number
+          p_set_id?: string
+        }
+        Returns: Json
+      }
+      get_study_days: {
+        Args: {
+          p_time_zone: string
+        }
+        Returns: string[]
+      }
+      orphaned_media: {
+        Args: {
+          p_min_age?: unknown
+        }
+        Returns: {
+          byte_size: number
+          content_type: string
+          created_at: string
+          id: string
+          owner_id: string | null
+          path: string
+        }[]
+      }
+      save_set: {
+        Args: {
+          p_cards: Json
+          p_expected_version?: number
+          p_removed_ids?: string[]
+          p_set: Json
+          p_set_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
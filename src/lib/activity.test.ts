@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { StudySession } from '@/types/flashcard';
+import { streaks, studyDaysOf } from './activity';
+
+const today = new Date(2025, 11, 10, 15);
+
+const session = (startedAt: Date, cardsStudied: number): StudySession => ({
+  id: crypto.randomUUID(),
+  set_id: 'set-1',
+  mode: 'spaced',
+  started_at: startedAt.toISOString(),
+  ended_at: startedAt.toISOString(),
+  last_active_at: startedAt.toISOString(),
+  duration_seconds: 60,
+  abandoned: false,
+  cards_studied: cardsStudied,
+  correct_count: 0,
+  accuracy: null,
+  owner_id: null
+});
+
+describe('streaks', () => {
+  it('counts back from yesterday while today is still open', () => {
+    expect(streaks(['2025-12-07', '2025-12-08', '2025-12-09'], today))
+      .toEqual({ current: 3, longest: 3, studiedToday: false });
+  });
+
+  it('ends the current streak at the first day missed', () => {
+    expect(streaks(['2025-12-07', '2025-12-09', '2025-12-10'], today))
+      .toEqual({ current: 2, longest: 2, studiedToday: true });
+  });
+
+  it('finds the longest streak further back than a year', () => {
+    const days = ['2023-03-30', '2023-03-31', '2023-04-01', '2023-04-02', '2025-12-10'];
+
+    expect(streaks(days, today)).toEqual({ current: 1, longest: 4, studiedToday: true });
+  });
+});
+
+describe('studyDaysOf', () => {
+  it('leaves out days with no card studied', () => {
+    const sessions = [
+      session(new Date(2025, 11, 9, 8), 0),
+      session(new Date(2025, 11, 10, 9), 0),
+      session(new Date(2025, 11, 10, 12), 5)
+    ];
+
+    expect(studyDaysOf(sessions)).toEqual(['2025-12-10']);
+  });
+});
@@ -0,0 +1,67 @@
+import { differenceInCalendarDays, parseISO, startOfDay, startOfWeek, subDays, subWeeks } from 'date-fns';
+import { StudySession } from '@/types/flashcard';
+import { dayKey, sessionSeconds } from '@/lib/studyStats';
+
+/** Weeks of history on the dashboard's heatmap. */
+export const ACTIVITY_WEEKS = 53;
+
+/** The first day of the dashboard's history, at the start of its week. */
+export const activityStart = (today: Date = new Date()) =>
+  startOfWeek(subWeeks(startOfDay(today), ACTIVITY_WEEKS - 1));
+
+/** Study totals for one local calendar day. */
+export interface DayActivity {
+  date: string;
+  cards: number;
+  seconds: number;
+}
+
+export interface Streaks {
+  /** Consecutive study days ending today, or yesterday while today is still open. */
+  current: number;
+  longest: number;
+  studiedToday: boolean;
+}
+
+/** Buckets sessions by the local day they started on. */
+export function activityByDay(sessions: StudySession[]): Map<string, DayActivity> {
+  const days = new Map<string, DayActivity>();
+  for (const session of sessions) {
+    const date = dayKey(session.started_at);
+    const day = days.get(date) ?? { date, cards: 0, seconds: 0 };
+    day.cards += session.cards_studied;
+    day.seconds += sessionSeconds(session);
+    days.set(date, day);
+  }
+  return days;
+}
+
+// Opening a mode and leaving straight away does not count as studying
+export const isStudyDay = (day: DayActivity | undefined) => !!day && day.cards > 0;
+
+/** The local days, as yyyy-MM-dd, the sessions studied at least one card on, oldest first. */
+export const studyDaysOf = (sessions: StudySession[]) =>
+  [...activityByDay(sessions).values()].filter(isStudyDay).map(day => day.date).sort();
+
+/** Streaks over `studyDays`, local days as yyyy-MM-dd; the longest needs the whole history. */
+export function streaks(studyDays: string[], today: Date = new Date()): Streaks {
+  const studied = new Set(studyDays);
+  const studiedToday = studied.has(dayKey(today));
+
+  let current = 0;
+  for (let day = studiedToday ? today : subDays(today, 1); studied.has(dayKey(day)); day = subDays(day, 1)) {
+    current++;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  for (const date of [...studied].sort()) {
+    const day = parseISO(date);
+    run = previous && differenceInCalendarDays(day, previous) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  return { current, longest, studiedToday };
+}
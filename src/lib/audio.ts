@@ -0,0 +1,29 @@
+// One clip plays at a time, whether read aloud, attached to a card or recorded
+let current: HTMLAudioElement | null = null;
+
+export function stopAudio() {
+  current?.pause();
+  current = null;
+}
+
+/** Plays the audio and resolves once playback has started. */
+export async function playBlob(blob: Blob) {
+  stopAudio();
+  const objectUrl = URL.createObjectURL(blob);
+  const audio = new Audio(objectUrl);
+  const release = () => URL.revokeObjectURL(objectUrl);
+  audio.addEventListener('ended', release, { once: true });
+  audio.addEventListener('pause', release, { once: true });
+  current = audio;
+  await audio.play();
+}
+
+/**
+ * Plays audio from an address. The file is fetched whole so the service worker
+ * can cache it for offline study; audio elements would ask for byte ranges instead.
+ */
+export async function playAudio(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Audio unavailable: ${response.status}`);
+  await playBlob(await response.blob());
+}
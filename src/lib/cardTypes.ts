@@ -0,0 +1,75 @@
+import { Card, CardType } from '@/types/flashcard';
+import { clozeNumbers } from '@/lib/cloze';
+import { occlusionImage, occlusionOrdinals } from '@/lib/occlusion';
+
+/** Built-in card types; note cards are picked by their note type instead. */
+export const CARD_TYPES: CardType[] = ['term', 'question', 'cloze', 'occlusion'];
+
+interface CardTypeLabels {
+  name: string;
+  front: string;
+  back: string;
+  frontPlaceholder: string;
+  backPlaceholder: string;
+}
+
+export const CARD_TYPE_LABELS: Record<CardType, CardTypeLabels> = {
+  term: {
+    name: 'Term',
+    front: 'Term',
+    back: 'Definition',
+    frontPlaceholder: 'Enter term...',
+    backPlaceholder: 'Enter definition...'
+  },
+  question: {
+    name: 'Question',
+    front: 'Question',
+    back: 'Answer',
+    frontPlaceholder: 'Enter question...',
+    backPlaceholder: 'Enter answer...'
+  },
+  cloze: {
+    name: 'Cloze',
+    front: 'Fill in the blank',
+    back: 'Answer',
+    frontPlaceholder: 'Enter text and wrap what to hide in {{c1::...}}, {{c2::...}}...',
+    backPlaceholder: 'Extra notes shown with the answer (optional)'
+  },
+  note: {
+    name: 'Note',
+    front: 'Front',
+    back: 'Back',
+    frontPlaceholder: '',
+    backPlaceholder: ''
+  },
+  occlusion: {
+    name: 'Image occlusion',
+    front: 'What is hidden?',
+    back: 'Answer',
+    frontPlaceholder: '',
+    backPlaceholder: 'Extra notes shown with the answer (optional)'
+  }
+};
+
+/**
+ * Cloze cards keep their answers on the front, note cards in their fields and
+ * occlusion cards under their regions, so none of them needs a back.
+ */
+export const needsBack = (cardType: CardType) => cardType !== 'cloze' && cardType !== 'note' && cardType !== 'occlusion';
+
+/** Cloze and occlusion items answer on the very text or image they asked with, filled in. */
+export const revealsInPlace = (cardType: CardType) => cardType === 'cloze' || cardType === 'occlusion';
+
+/**
+ * Whether an editor row has everything needed to be saved as a card. Note
+ * cards are checked on their rendered preview.
+ */
+export function isComplete(card: Pick<Card, 'front' | 'back' | 'card_type' | 'occlusions'>) {
+  if (card.card_type === 'cloze') return clozeNumbers(card.front).length > 0;
+  if (card.card_type === 'occlusion') {
+    return !!occlusionImage(card.front) &&
+      occlusionOrdinals(card.occlusions).length > 0 &&
+      card.occlusions.every(region => !!region.label.trim());
+  }
+  return !!card.front.trim() && (!needsBack(card.card_type) || !!card.back.trim());
+}
@@ -0,0 +1,47 @@
+import type { CardValidationError, SavedCard } from '@/lib/repository/types';
+import { CARD_TYPES, needsBack } from '@/lib/cardTypes';
+import { clozeNumbers } from '@/lib/cloze';
+import { occlusionImage, occlusionOrdinals } from '@/lib/occlusion';
+
+/** Longest text accepted on either side of a card; the save_set function enforces the same. */
+export const MAX_CARD_SIDE_LENGTH = 10_000;
+
+/** Problems with a card about to be saved, mirroring the checks of save_set. */
+export function validateCard(
+  card: Pick<SavedCard, 'id' | 'front' | 'back' | 'card_type' | 'note_type_id' | 'occlusions'>
+): CardValidationError[] {
+  const errors: CardValidationError[] = [];
+  const error = (field: CardValidationError['field'], message: string) =>
+    errors.push({ cardId: card.id, field, message });
+
+  if (card.card_type === 'occlusion' && !occlusionImage(card.front)) error('front', 'Attach an image to mask');
+  else if (!card.front.trim()) {
+    error('front', card.card_type === 'note' ? 'Fill in the fields shown on the front' : 'Front is required');
+  }
+  else if (card.front.length > MAX_CARD_SIDE_LENGTH) error('front', `Front is longer than ${MAX_CARD_SIDE_LENGTH} characters`);
+  else if (card.card_type === 'cloze' && clozeNumbers(card.front).length === 0) {
+    error('front', 'Mark at least one deletion like {{c1::text}}');
+  }
+  else if (card.card_type === 'occlusion' && occlusionOrdinals(card.occlusions).length === 0) {
+    error('front', 'Mark at least one region on the image');
+  }
+  else if (card.card_type === 'occlusion' && card.occlusions?.some(region => !region.label.trim())) {
+    error('front', 'Label every region');
+  }
+
+  if (needsBack(card.card_type) && !card.back.trim()) error('back', 'Back is required');
+  else if (card.back.length > MAX_CARD_SIDE_LENGTH) error('back', `Back is longer than ${MAX_CARD_SIDE_LENGTH} characters`);
+
+  if (card.card_type === 'note') {
+    if (!card.note_type_id) error('card_type', 'Pick a note type');
+  } else if (!CARD_TYPES.includes(card.card_type)) {
+    error('card_type', 'Card type must be term, question, cloze, note or occlusion');
+  }
+
+  return errors;
+}
+
+export const validateCards = (
+  cards: Pick<SavedCard, 'id' | 'front' | 'back' | 'card_type' | 'note_type_id' | 'occlusions'>[]
+) =>
+  cards.flatMap(validateCard);
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { clozeNumbers } from './cloze';
+import { cardOrdinals } from './studyItems';
+
+const migrations = import.meta.glob<string>('../../supabase/migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+});
+
+/** The cloze pattern of the latest card_ordinals(TEXT, TEXT), run as a JavaScript regex. */
+function databaseClozeNumbers(text: string): number[] {
+  const latest = Object.keys(migrations)
+    .sort()
+    .map(path => migrations[path])
+    .filter(sql => sql.includes('card_ordinals(p_card_type TEXT, p_front TEXT)'))
+    .pop()!;
+  const pattern = latest.match(/regexp_matches\(p_front, '((?:[^']|'')*)', 'g'\)/)![1].replace(/''/g, "'");
+  const numbers = [...text.matchAll(new RegExp(pattern, 'g'))].map(match => Number(match[1]));
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+const cases: [string, number[]][] = [
+  ['{{c1::Paris}} is the capital of {{c2::France::country}}', [1, 2]],
+  ['{{c2::b}} then {{c1::a}} and {{c2::c}}', [1, 2]],
+  ['{{c1::closed}} and {{c2::never closed', [1]],
+  ['{{c1::never closed', []],
+  ['{{c1::outer {{c2::inner}} rest}}', [1]],
+  ['{{c1::a}}}', [1]],
+  ['{{c0::zero}} {{c01::padded}}', []],
+  ['{{c3::spans\ntwo lines}}', [3]]
+];
+
+describe('clozeNumbers', () => {
+  it.each(cases)('reads %j as %j', (text, numbers) => {
+    expect(clozeNumbers(text)).toEqual(numbers);
+    expect(cardOrdinals({ card_type: 'cloze', front: text, occlusions: null })).toEqual(numbers);
+  });
+
+  it.each(cases)('matches the database for %j', (text) => {
+    expect(databaseClozeNumbers(text)).toEqual(clozeNumbers(text));
+  });
+});
@@ -0,0 +1,82 @@
+// Cloze deletions are written as {{c1::hidden text}} or {{c1::hidden text::hint}}.
+// The database function card_ordinals counts the same deletions: closed, ending at the first }}.
+const CLOZE_PATTERN = /\{\{c([1-9]\d*)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export interface ClozeSegment {
+  /** `blank` is the hidden part still to recall, `answer` the same part revealed. */
+  kind: 'text' | 'blank' | 'answer';
+  text: string;
+}
+
+interface ClozeMatch {
+  start: number;
+  end: number;
+  ordinal: number;
+  hidden: string;
+  hint: string | undefined;
+}
+
+function matches(text: string): ClozeMatch[] {
+  return [...text.matchAll(CLOZE_PATTERN)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    ordinal: Number(match[1]),
+    hidden: match[2],
+    hint: match[3]
+  }));
+}
+
+/** Distinct cloze numbers in the text, ascending. */
+export function clozeNumbers(text: string): number[] {
+  return [...new Set(matches(text).map(match => match.ordinal))].sort((a, b) => a - b);
+}
+
+/**
+ * The text as shown when studying cloze `ordinal`: its deletions become blanks
+ * (or the revealed answer), every other deletion reads as plain text.
+ */
+export function clozeSegments(text: string, ordinal: number, revealed: boolean): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of matches(text)) {
+    if (match.start > last) segments.push({ kind: 'text', text: text.slice(last, match.start) });
+    if (match.ordinal !== ordinal) {
+      segments.push({ kind: 'text', text: match.hidden });
+    } else if (revealed) {
+      segments.push({ kind: 'answer', text: match.hidden });
+    } else {
+      segments.push({ kind: 'blank', text: match.hint ? `[${match.hint}]` : '[...]' });
+    }
+    last = match.end;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+}
+
+/** Link target marking a blank or revealed answer in the Markdown built by `clozeMarkdown`. */
+export const CLOZE_HREF = '#cloze';
+
+const escapeLinkText = (text: string) => text.replace(/[[\]\\]/g, match => `\\${match}`);
+
+/**
+ * The text of `clozeSegments` as Markdown, with each blank or answer written as
+ * a link to CLOZE_HREF so the renderer can highlight it without raw HTML.
+ */
+export function clozeMarkdown(text: string, ordinal: number, revealed: boolean): string {
+  return clozeSegments(text, ordinal, revealed)
+    .map(segment => (segment.kind === 'text' ? segment.text : `[${escapeLinkText(segment.text)}](${CLOZE_HREF})`))
+    .join('');
+}
+
+/** What cloze `ordinal` hides; several deletions with the same number are joined with commas. */
+export function clozeAnswer(text: string, ordinal: number): string {
+  return matches(text)
+    .filter(match => match.ordinal === ordinal)
+    .map(match => match.hidden)
+    .join(', ');
+}
+
+/** The text with every deletion shown, for lists and previews. */
+export function stripCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _ordinal, hidden: string) => hidden);
+}
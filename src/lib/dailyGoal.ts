@@ -0,0 +1,23 @@
+import { DailyGoalType, UserPreferences } from '@/types/flashcard';
+import type { DayActivity } from '@/lib/activity';
+
+export type DailyGoal = Pick<UserPreferences, 'daily_goal_type' | 'daily_goal_target'>;
+
+export const DEFAULT_PREFERENCES: DailyGoal = {
+  daily_goal_type: 'cards',
+  daily_goal_target: 20
+};
+
+export const GOAL_UNITS: Record<DailyGoalType, string> = {
+  cards: 'cards',
+  minutes: 'min'
+};
+
+/** How far a day got towards the goal, in the goal's own unit. */
+export function goalAmount(day: DayActivity | undefined, type: DailyGoalType): number {
+  if (!day) return 0;
+  return type === 'cards' ? day.cards : Math.floor(day.seconds / 60);
+}
+
+export const isGoalMet = (day: DayActivity | undefined, goal: DailyGoal) =>
+  goalAmount(day, goal.daily_goal_type) >= goal.daily_goal_target;
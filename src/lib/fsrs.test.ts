@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { memoryStateFromSm2, nextIntervalDays, nextMemoryState, retrievability } from './fsrs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2025, 11, 10);
+
+describe('retrievability', () => {
+  it('is 90% once as many days have passed as the stability', () => {
+    expect(retrievability(0, 5)).toBe(1);
+    expect(retrievability(5, 5)).toBeCloseTo(0.9, 10);
+  });
+});
+
+describe('nextIntervalDays', () => {
+  it('waits as many days as the stability at 90% retention', () => {
+    expect(nextIntervalDays(12, 0.9)).toBe(12);
+  });
+
+  it('waits less for a higher retention and stays within a day and a century', () => {
+    expect(nextIntervalDays(12, 0.95)).toBeLessThan(12);
+    expect(nextIntervalDays(0.1, 0.9)).toBe(1);
+    expect(nextIntervalDays(1_000_000, 0.9)).toBe(36500);
+  });
+});
+
+describe('nextMemoryState', () => {
+  it('starts from the default weights for each first answer', () => {
+    expect(nextMemoryState(null, 'again', null, now)).toEqual({ stability: 0.4872, difficulty: expect.closeTo(7.62, 2) });
+    expect(nextMemoryState(null, 'good', null, now)).toEqual({ stability: 3.7145, difficulty: 5.1618 });
+    expect(nextMemoryState(null, 'easy', null, now).stability).toBe(13.8206);
+  });
+
+  it('grows stability on recall and shrinks it on a lapse', () => {
+    const memory = { stability: 10, difficulty: 5 };
+    const lastReviewed = new Date(now.getTime() - 10 * DAY_MS);
+
+    const hard = nextMemoryState(memory, 'hard', lastReviewed, now);
+    const good = nextMemoryState(memory, 'good', lastReviewed, now);
+    const easy = nextMemoryState(memory, 'easy', lastReviewed, now);
+    const again = nextMemoryState(memory, 'again', lastReviewed, now);
+
+    expect(hard.stability).toBeGreaterThan(10);
+    expect(good.stability).toBeGreaterThan(hard.stability);
+    expect(easy.stability).toBeGreaterThan(good.stability);
+    expect(again.stability).toBeLessThan(10);
+    expect(again.difficulty).toBeGreaterThan(5);
+    expect(easy.difficulty).toBeLessThan(5);
+  });
+
+  it('keeps difficulty between 1 and 10', () => {
+    let memory = { stability: 1, difficulty: 9.9 };
+    for (let i = 0; i < 20; i++) memory = nextMemoryState(memory, 'again', now, now);
+    expect(memory.difficulty).toBeLessThanOrEqual(10);
+
+    memory = { stability: 1, difficulty: 1.1 };
+    for (let i = 0; i < 20; i++) memory = nextMemoryState(memory, 'easy', now, now);
+    expect(memory.difficulty).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('memoryStateFromSm2', () => {
+  it('maps the default ease to a middling difficulty and the interval to stability', () => {
+    expect(memoryStateFromSm2(2.5, 20)).toEqual({ stability: 20, difficulty: 5 });
+    expect(memoryStateFromSm2(1.3, 0)).toEqual({ stability: 0.1, difficulty: 10 });
+  });
+});
@@ -0,0 +1,98 @@
+import type { Difficulty } from './spacedRepetition';
+
+// FSRS-4.5 (Free Spaced Repetition Scheduler) with its published default weights.
+// https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MAX_INTERVAL_DAYS = 36500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GRADES: Record<Difficulty, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+
+function initialStability(grade: number): number {
+  return Math.max(0.1, W[grade - 1]);
+}
+
+function initialDifficulty(grade: number): number {
+  return clampDifficulty(W[4] - (grade - 3) * W[5]);
+}
+
+/** Probability of recalling a card `elapsedDays` after its last review. */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+}
+
+/** Days until retrievability drops to `targetRetention`. */
+export function nextIntervalDays(stability: number, targetRetention: number): number {
+  const days = stability / FACTOR * (Math.pow(targetRetention, 1 / DECAY) - 1);
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+function nextDifficulty(d: number, grade: number): number {
+  const updated = d - W[6] * (grade - 3);
+  // Mean reversion towards the difficulty of a fresh "good" answer
+  return clampDifficulty(W[7] * initialDifficulty(3) + (1 - W[7]) * updated);
+}
+
+function recallStability(d: number, s: number, r: number, grade: number): number {
+  const hardPenalty = grade === 2 ? W[15] : 1;
+  const easyBonus = grade === 4 ? W[16] : 1;
+  return s * (
+    Math.exp(W[8]) * (11 - d) * Math.pow(s, -W[9]) * (Math.exp(W[10] * (1 - r)) - 1) * hardPenalty * easyBonus + 1
+  );
+}
+
+function forgetStability(d: number, s: number, r: number): number {
+  return W[11] * Math.pow(d, -W[12]) * (Math.pow(s + 1, W[13]) - 1) * Math.exp(W[14] * (1 - r));
+}
+
+/**
+ * Updates a card's memory state after a review. Pass `null` for a card that has
+ * never been reviewed under FSRS.
+ */
+export function nextMemoryState(
+  memory: MemoryState | null,
+  difficulty: Difficulty,
+  lastReviewed: Date | null,
+  now: Date
+): MemoryState {
+  const grade = GRADES[difficulty];
+
+  if (!memory) {
+    return { stability: initialStability(grade), difficulty: initialDifficulty(grade) };
+  }
+
+  const elapsedDays = lastReviewed ? Math.max(0, (now.getTime() - lastReviewed.getTime()) / DAY_MS) : 0;
+  const r = retrievability(elapsedDays, memory.stability);
+
+  return {
+    stability: grade === 1
+      ? Math.max(0.1, forgetStability(memory.difficulty, memory.stability, r))
+      : recallStability(memory.difficulty, memory.stability, r, grade),
+    difficulty: nextDifficulty(memory.difficulty, grade)
+  };
+}
+
+/**
+ * Approximates an FSRS memory state from SM-2 scheduling data: at the default
+ * 90% retention the interval is close to the stability, and ease 2.5 → 1.3
+ * maps onto difficulty 5 → 10.
+ */
+export function memoryStateFromSm2(easeFactor: number, interval: number): MemoryState {
+  return {
+    stability: Math.max(0.1, interval),
+    difficulty: clampDifficulty(5 + (2.5 - easeFactor) / 1.2 * 5)
+  };
+}
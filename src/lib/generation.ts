@@ -0,0 +1,170 @@
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { isNetworkError } from '@/lib/sync/syncEngine';
+import { CardType, DefinitionLength, FlashcardSet, ReadingLevel } from '@/types/flashcard';
+
+/** How generated definitions are written; a set's settings, sent along with every request. */
+export type DefinitionStyle = Pick<
+  FlashcardSet,
+  'definition_length' | 'reading_level' | 'definition_language' | 'include_example'
+>;
+
+export const DEFINITION_LENGTHS: DefinitionLength[] = ['brief', 'short', 'detailed'];
+
+export const DEFINITION_LENGTH_LABELS: Record<DefinitionLength, string> = {
+  brief: 'Brief (a few words)',
+  short: 'Short (1-2 sentences)',
+  detailed: 'Detailed (3-4 sentences)'
+};
+
+export const READING_LEVELS: ReadingLevel[] = ['simple', 'general', 'advanced'];
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  simple: 'Simple',
+  general: 'General',
+  advanced: 'Advanced'
+};
+
+export const definitionStyle = (settings: DefinitionStyle): DefinitionStyle => ({
+  definition_length: settings.definition_length,
+  reading_level: settings.reading_level,
+  definition_language: settings.definition_language,
+  include_example: settings.include_example
+});
+
+/** Limits of the generate-set function. */
+export const MAX_SOURCE_LENGTH = 20000;
+export const MAX_GENERATED_CARDS = 50;
+
+/** The card types a whole set can be generated as. */
+export type GeneratedCardType = Extract<CardType, 'term' | 'question'>;
+
+export interface SetRequest {
+  /** Pasted notes or an article to draw the cards from; may be empty when a topic is given. */
+  source: string;
+  topic: string;
+  count: number;
+  type: GeneratedCardType;
+  style: DefinitionStyle;
+}
+
+export interface GeneratedSet {
+  /** A title suggested for the set, possibly empty. */
+  title: string;
+  cards: { front: string; back: string }[];
+}
+
+/**
+ * Why generating failed: the AI provider's limits, its time-out or its own
+ * failure, missing configuration, a request the function refused, or no connection.
+ */
+export type GenerationErrorCode =
+  | 'quota'
+  | 'timeout'
+  | 'upstream'
+  | 'config'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'internal'
+  | 'network';
+
+export type GenerationError = Error & { code: GenerationErrorCode };
+
+const generationError = (code: GenerationErrorCode, message: string): GenerationError =>
+  Object.assign(new Error(message), { code });
+
+// The functions report what went wrong, and its code, in the body of the response
+async function functionError(error: Error): Promise<GenerationError> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    return generationError(
+      typeof body?.code === 'string' ? body.code : 'internal',
+      typeof body?.error === 'string' ? body.error : error.message
+    );
+  }
+  if (error instanceof FunctionsFetchError || isNetworkError(error)) return generationError('network', error.message);
+  return generationError('internal', error.message);
+}
+
+const codeOf = (error: unknown): GenerationErrorCode | null =>
+  (error as Partial<GenerationError> | null)?.code ?? null;
+
+/** What to tell the user about a failed generation; `title` is used when there is nothing more specific. */
+export function generationErrorToast(error: unknown, title: string): { title: string; description?: string } {
+  switch (codeOf(error)) {
+    case 'quota':
+      return { title: 'AI limit reached', description: 'Too many requests or no credits left. Try again in a few minutes.' };
+    case 'timeout':
+      return { title: 'The AI took too long to answer', description: 'Try again, or ask for less at once.' };
+    case 'upstream':
+      return { title: 'The AI service is having trouble', description: 'Try again shortly.' };
+    case 'config':
+      return { title: 'AI generation is not set up', description: 'An AI provider has to be configured for this app.' };
+    case 'network':
+      return { title: 'You are offline', description: 'Generating needs a connection.' };
+    case 'unauthorized':
+      return { title: 'You are signed out', description: 'Sign in again to generate cards.' };
+    default:
+      return { title, description: error instanceof Error ? error.message : undefined };
+  }
+}
+
+/** Proposes cards for a new set from notes or a topic; nothing is saved. */
+export async function generateSet(request: SetRequest): Promise<GeneratedSet> {
+  const { data, error } = await supabase.functions.invoke('generate-set', { body: request });
+  if (error) throw await functionError(error);
+  return data as GeneratedSet;
+}
+
+/** Cards per request when filling many backs; the function takes up to 8. */
+export const DEFINITION_BATCH_SIZE = 8;
+/** Requests in flight at once when filling many backs. */
+export const DEFINITION_CONCURRENCY = 2;
+
+export interface DefinitionRequest {
+  id: string;
+  text: string;
+  type: CardType;
+}
+
+export type DefinitionResult =
+  | { id: string; definition: string }
+  | { id: string; error: string; code?: GenerationErrorCode };
+
+/** The error a failed result of a batch stands for. */
+export const resultError = (result: Extract<DefinitionResult, { error: string }>) =>
+  generationError(result.code ?? 'internal', result.error);
+
+/** A back for one card from its front. */
+export async function generateDefinition(text: string, type: CardType, style: DefinitionStyle): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('generate-definition', { body: { text, type, style } });
+  if (error) throw await functionError(error);
+  return data.definition;
+}
+
+/** Backs for a batch of cards; each card succeeds or fails on its own. */
+export async function generateDefinitions(
+  items: DefinitionRequest[],
+  style: DefinitionStyle,
+  signal?: AbortSignal
+): Promise<DefinitionResult[]> {
+  const { data, error } = await supabase.functions.invoke('generate-definition', { body: { items, style }, signal });
+  if (error) throw await functionError(error);
+  return data.results;
+}
+
+/** Runs the task for every item, at most `limit` at a time, and starts no more once the signal is aborted. */
+export async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
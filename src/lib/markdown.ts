@@ -0,0 +1,41 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { MEDIA_PROTOCOL } from '@/lib/media';
+
+// Card faces are written in Markdown with GFM tables and lists and $...$ / $$...$$ math
+export const remarkPlugins = [remarkGfm, remarkMath];
+
+const parser = unified().use(remarkParse).use(remarkPlugins);
+
+// Nodes whose children are separate blocks or cells rather than runs of one line
+const BLOCK_CONTAINERS = new Set(['root', 'blockquote', 'list', 'listItem', 'table', 'tableRow', 'footnoteDefinition']);
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  alt?: string | null;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+function textOf(node: MarkdownNode): string {
+  // Raw HTML is never rendered, so it does not count towards the text either
+  if (node.type === 'html') return '';
+  if (node.type === 'image') return node.alt ?? '';
+  // Audio clips are played, not read
+  if (node.type === 'link' && node.url?.startsWith(MEDIA_PROTOCOL)) return '';
+  if (node.type === 'break') return ' ';
+  if (node.value !== undefined) return node.value;
+  return (node.children ?? []).map(textOf).join(BLOCK_CONTAINERS.has(node.type) ? ' ' : '');
+}
+
+/**
+ * The text a reader sees once the Markdown is rendered, on one line. Typed
+ * answers are graded against this, so nobody has to type `**` or backticks.
+ * Math keeps its TeX source.
+ */
+export function markdownToPlainText(markdown: string): string {
+  return textOf(parser.parse(markdown) as MarkdownNode).replace(/\s+/g, ' ').trim();
+}
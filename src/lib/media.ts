@@ -0,0 +1,53 @@
+// Card text refers to attached files as media:<id>, e.g. ![diagram](media:<id>)
+// for an image or [pronunciation](media:<id>) for an audio clip, so cards stay
+// plain text and the address of a file is resolved when shown.
+export const MEDIA_PROTOCOL = 'media:';
+
+/** Storage bucket holding the files of card_media rows. */
+export const MEDIA_BUCKET = 'card-media';
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/** What browsers record and the common audio file formats; matches the card-media bucket. */
+export const AUDIO_TYPES = ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wav', 'audio/x-wav'];
+
+/** Matches the file size limit of the card-media bucket. */
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Media younger than this are never treated as orphaned, since an editor may
+ * have uploaded them for a card that is not saved yet. Matches orphaned_media.
+ */
+export const ORPHAN_MIN_AGE_MS = 60 * 60_000;
+
+export const imageMarkdown = (id: string, alt = '') =>
+  `![${alt.replace(/[[\]\\]/g, '')}](${MEDIA_PROTOCOL}${id})`;
+
+export const audioMarkdown = (id: string, label = '') =>
+  `[${label.replace(/[[\]\\]/g, '') || 'Audio'}](${MEDIA_PROTOCOL}${id})`;
+
+/** The media id a `media:` address points at, or null for any other address. */
+export const mediaId = (src: string | undefined) =>
+  src?.startsWith(MEDIA_PROTOCOL) ? src.slice(MEDIA_PROTOCOL.length) : null;
+
+/** Whether any of the texts refers to the media; mirrors the check of orphaned_media. */
+export const isReferenced = (id: string, texts: string[]) =>
+  texts.some(text => text.includes(`${MEDIA_PROTOCOL}${id}`));
+
+/** Media ids of the audio clips in card text, in order. */
+export const audioIds = (text: string) =>
+  [...text.matchAll(/(?<!!)\[[^\]]*\]\(media:([^)\s]+)\)/g)].map(match => match[1]);
+
+// Recorders report their codecs too, e.g. audio/webm;codecs=opus
+export const baseType = (type: string) => type.split(';')[0].trim().toLowerCase();
+
+export const isAudio = (file: Blob) => AUDIO_TYPES.includes(baseType(file.type));
+
+/** Why the file cannot be attached, or null when it can. */
+export function mediaProblem(file: File): string | null {
+  if (!IMAGE_TYPES.includes(file.type) && !isAudio(file)) {
+    return 'Only PNG, JPEG, GIF and WebP images and MP3, M4A, AAC, Ogg, WebM and WAV audio can be attached';
+  }
+  if (file.size > MAX_MEDIA_BYTES) return 'Files can be at most 5 MB';
+  return null;
+}
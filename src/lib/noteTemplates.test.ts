@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { NoteType } from '@/types/flashcard';
+import { nextTemplateOrdinal, renameFields, templateFor, withTemplateOrdinals } from './noteTemplates';
+import { cardOrdinals } from './studyItems';
+
+const noteType = (templates: NoteType['templates']): NoteType => ({
+  id: 'note-type-1',
+  name: 'Vocabulary',
+  fields: ['Word', 'Meaning'],
+  templates,
+  created_at: '',
+  updated_at: '',
+  owner_id: null
+});
+
+describe('template ordinals', () => {
+  it('keeps the ordinals of the other templates when one is removed', () => {
+    const [recognition, , spelling] = withTemplateOrdinals([
+      { name: 'Recognition', front: '{{Word}}', back: '{{Meaning}}' },
+      { name: 'Recall', front: '{{Meaning}}', back: '{{Word}}' },
+      { name: 'Spelling', front: '{{Meaning}}', back: '{{Word}}' }
+    ]);
+    const type = noteType([recognition, spelling]);
+
+    expect(cardOrdinals({ card_type: 'note', front: '', occlusions: null }, type)).toEqual([0, 2]);
+    expect(templateFor(type, 2)?.name).toBe('Spelling');
+    expect(templateFor(type, 1)).toBeUndefined();
+    expect(nextTemplateOrdinal(type.templates)).toBe(3);
+  });
+
+  it('uses the position of templates saved without one', () => {
+    const type = noteType([
+      { name: 'Recognition', front: '{{Word}}', back: '{{Meaning}}' },
+      { name: 'Recall', front: '{{Meaning}}', back: '{{Word}}' }
+    ]);
+
+    expect(cardOrdinals({ card_type: 'note', front: '', occlusions: null }, type)).toEqual([0, 1]);
+    expect(templateFor(type, 1)?.name).toBe('Recall');
+  });
+});
+
+describe('renameFields', () => {
+  it('moves values to the new names, swaps included', () => {
+    const renames = new Map([['Word', 'Meaning'], ['Meaning', 'Word']]);
+
+    expect(renameFields({ Word: 'chat', Meaning: 'cat', Notes: '' }, renames))
+      .toEqual({ Meaning: 'chat', Word: 'cat', Notes: '' });
+  });
+});
@@ -0,0 +1,117 @@
+import { Card, CardTemplate, NoteType } from '@/types/flashcard';
+
+// Placeholders are written as {{Field name}}; {{FrontSide}} on a back template
+// repeats the rendered front.
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const FRONT_SIDE = 'FrontSide';
+
+export type NoteFields = Record<string, string>;
+
+/** A starting point for vocabulary notes, offered when creating a note type. */
+export const VOCABULARY_NOTE_TYPE: Pick<NoteType, 'name' | 'fields' | 'templates'> = {
+  name: 'Vocabulary',
+  fields: ['Word', 'Reading', 'Meaning', 'Example', 'Part of speech'],
+  templates: [
+    {
+      ordinal: 0,
+      name: 'Recognition',
+      front: '{{Word}}',
+      back: '{{FrontSide}}\n\n{{Reading}}\n\n{{Meaning}} ({{Part of speech}})\n\n{{Example}}'
+    },
+    {
+      ordinal: 1,
+      name: 'Recall',
+      front: '{{Meaning}}',
+      back: '{{Word}}\n\n{{Reading}}'
+    }
+  ]
+};
+
+/** The ordinal `template`, found at `index`, is scheduled with. */
+export const templateOrdinal = (template: CardTemplate, index: number) => template.ordinal ?? index;
+
+/** The template of the note type that ordinal `ordinal` studies. */
+export const templateFor = (noteType: NoteType | undefined, ordinal: number) =>
+  noteType?.templates.find((template, index) => templateOrdinal(template, index) === ordinal);
+
+/** Templates with their ordinals written out, so removing or moving one leaves the others' alone. */
+export const withTemplateOrdinals = (templates: CardTemplate[]): CardTemplate[] =>
+  templates.map((template, index) => ({ ...template, ordinal: templateOrdinal(template, index) }));
+
+export const nextTemplateOrdinal = (templates: CardTemplate[]) =>
+  Math.max(-1, ...templates.map(templateOrdinal)) + 1;
+
+/** Field values under their new names; `renames` maps old names to new ones. */
+export function renameFields(fields: NoteFields | null, renames: Map<string, string>): NoteFields | null {
+  if (!fields) return fields;
+  return Object.fromEntries(Object.entries(fields).map(([name, value]) => [renames.get(name) ?? name, value]));
+}
+
+/** Fills the placeholders of `template`; unknown fields render empty. */
+export function renderTemplate(template: string, fields: NoteFields, frontSide = ''): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_match, name: string) => (name === FRONT_SIDE ? frontSide : fields[name] ?? ''))
+    // Lines left empty by blank fields are dropped, but paragraph breaks are kept
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Field names a template refers to, excluding {{FrontSide}}. */
+export function templateFields(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]).filter(name => name !== FRONT_SIDE);
+}
+
+/** The first problem with a note type about to be saved, or null when it can be saved. */
+export function validateNoteType({ name, fields, templates }: Pick<NoteType, 'name' | 'fields' | 'templates'>): string | null {
+  if (!name.trim()) return 'Give the note type a name';
+  if (fields.length === 0) return 'Add at least one field';
+  if (fields.some(field => !field.trim())) return 'Field names cannot be empty';
+  if (new Set(fields).size !== fields.length) return 'Field names must be different';
+  if (fields.includes(FRONT_SIDE)) return `${FRONT_SIDE} is reserved for repeating the front`;
+  if (templates.length === 0) return 'Add at least one card template';
+  for (const template of templates) {
+    const label = template.name.trim() || 'A template';
+    if (templateFields(template.front).length === 0) return `${label} needs a field on its front`;
+    const unknown = [...templateFields(template.front), ...templateFields(template.back)]
+      .find(field => !fields.includes(field));
+    if (unknown) return `${label} uses {{${unknown}}}, which is not a field`;
+  }
+  return null;
+}
+
+export interface RenderedNote {
+  front: string;
+  back: string;
+  /** The back without {{FrontSide}}, i.e. what has to be recalled. */
+  answer: string;
+}
+
+export function renderNote(template: CardTemplate, fields: NoteFields): RenderedNote {
+  const front = renderTemplate(template.front, fields);
+  return {
+    front,
+    back: renderTemplate(template.back, fields, front),
+    answer: renderTemplate(template.back, fields)
+  };
+}
+
+/** The front and back stored on a note card, rendered from its note type's first template. */
+export function notePreview(noteType: Pick<NoteType, 'templates'> | undefined, fields: NoteFields | null): { front: string; back: string } {
+  const template = noteType?.templates[0];
+  if (!template) return { front: '', back: '' };
+  const { front, answer } = renderNote(template, fields ?? {});
+  return { front, back: answer };
+}
+
+/**
+ * A note card with new field values and the preview they render to. The
+ * preview is kept on front and back so lists, exports and validation need no
+ * note type.
+ */
+export function withNoteFields<T extends Pick<Card, 'front' | 'back' | 'fields'>>(
+  card: T,
+  noteType: Pick<NoteType, 'templates'> | undefined,
+  fields: NoteFields | null
+): T {
+  return { ...card, fields, ...notePreview(noteType, fields) };
+}
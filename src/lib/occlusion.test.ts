@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { OcclusionRegion } from '@/types/flashcard';
+import { nextRegionOrdinal, occlusionAnswer, occlusionOrdinals, regionBetween } from './occlusion';
+import { cardOrdinals } from './studyItems';
+
+const region = (ordinal: number, label = `Region ${ordinal}`): OcclusionRegion =>
+  ({ ordinal, x: 0.1, y: 0.1, width: 0.2, height: 0.2, label });
+
+describe('occlusionOrdinals', () => {
+  it('lists each valid ordinal once, ascending', () => {
+    const regions = [region(3), region(1), region(3, 'Also 3'), region(0), region(1.5)];
+
+    expect(occlusionOrdinals(regions)).toEqual([1, 3]);
+    expect(occlusionOrdinals(null)).toEqual([]);
+    expect(cardOrdinals({ card_type: 'occlusion', front: '', occlusions: regions })).toEqual([1, 3]);
+  });
+
+  it('keeps the ordinals of the other regions when one is removed', () => {
+    const regions = [region(1), region(2), region(3)].filter(r => r.ordinal !== 2);
+
+    expect(occlusionOrdinals(regions)).toEqual([1, 3]);
+    expect(nextRegionOrdinal(regions)).toBe(4);
+    expect(nextRegionOrdinal(null)).toBe(1);
+  });
+});
+
+describe('occlusionAnswer', () => {
+  it('joins the labels of every region under the ordinal', () => {
+    expect(occlusionAnswer([region(1, 'Aorta'), region(2), region(1, 'Vena cava')], 1)).toBe('Aorta, Vena cava');
+  });
+});
+
+describe('regionBetween', () => {
+  it('spans the corners in either order, kept on the image', () => {
+    expect(regionBetween({ x: 0.5, y: 1.2 }, { x: 0.25, y: 0.75 }, 4))
+      .toEqual({ ordinal: 4, x: 0.25, y: 0.75, width: 0.25, height: 0.25, label: '' });
+  });
+
+  it('drops a region too small to be meant', () => {
+    expect(regionBetween({ x: 0.5, y: 0.5 }, { x: 0.505, y: 0.8 }, 1)).toBeNull();
+  });
+});
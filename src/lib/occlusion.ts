@@ -0,0 +1,60 @@
+import { OcclusionMode, OcclusionRegion } from '@/types/flashcard';
+
+// An occlusion card keeps its image on the front as ![alt](src); the first image is the one masked
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(([^)\s]+)\)/;
+
+/** Smallest width or height, as a fraction of the image, a drawn region is kept at. */
+export const MIN_REGION_SIZE = 0.01;
+
+export const OCCLUSION_MODES: OcclusionMode[] = ['hide_one', 'hide_all'];
+
+export const OCCLUSION_MODE_LABELS: Record<OcclusionMode, string> = {
+  hide_one: 'Hide one, show others',
+  hide_all: 'Hide all'
+};
+
+/** The image an occlusion card masks, or null while none is attached. */
+export function occlusionImage(front: string): { src: string; alt: string } | null {
+  const match = front.match(IMAGE_PATTERN);
+  return match ? { alt: match[1], src: match[2] } : null;
+}
+
+/** A front for an occlusion card made from other card text: only its first image is kept. */
+export function occlusionFront(text: string): string {
+  const image = occlusionImage(text);
+  return image ? `![${image.alt}](${image.src})` : '';
+}
+
+/** Distinct region ordinals, ascending; matches the database's card_ordinals. */
+export function occlusionOrdinals(regions: OcclusionRegion[] | null): number[] {
+  return [...new Set((regions ?? []).map(region => region.ordinal))]
+    .filter(ordinal => Number.isInteger(ordinal) && ordinal > 0)
+    .sort((a, b) => a - b);
+}
+
+/** Ordinal for a newly drawn region; never reuses one, so removed regions leave no progress behind on new ones. */
+export const nextRegionOrdinal = (regions: OcclusionRegion[] | null) =>
+  Math.max(0, ...(regions ?? []).map(region => region.ordinal)) + 1;
+
+/** What region `ordinal` hides. */
+export const occlusionAnswer = (regions: OcclusionRegion[] | null, ordinal: number) =>
+  (regions ?? []).filter(region => region.ordinal === ordinal).map(region => region.label).join(', ');
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * The region spanned by two corners dragged out on the image, both given as
+ * fractions of its size; null when it is too small to be meant.
+ */
+export function regionBetween(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  ordinal: number
+): OcclusionRegion | null {
+  const x = clamp(Math.min(start.x, end.x));
+  const y = clamp(Math.min(start.y, end.y));
+  const width = clamp(Math.max(start.x, end.x)) - x;
+  const height = clamp(Math.max(start.y, end.y)) - y;
+  if (width < MIN_REGION_SIZE || height < MIN_REGION_SIZE) return null;
+  return { ordinal, x, y, width, height, label: '' };
+}
@@ -0,0 +1,22 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createSyncEngine, SyncEngine } from '@/lib/sync/syncEngine';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createSyncRepository } from './syncRepository';
+import { Repository } from './types';
+
+export type DataBackend = 'supabase' | 'indexeddb';
+
+// Chosen once at startup; set VITE_DATA_BACKEND=indexeddb to run fully offline
+export const dataBackend: DataBackend =
+  import.meta.env.VITE_DATA_BACKEND === 'indexeddb' ? 'indexeddb' : 'supabase';
+
+const local = createIndexedDbRepository();
+const remote = createSupabaseRepository(supabase);
+
+/** Replays offline writes against Supabase; null when running purely locally. */
+export const syncEngine: SyncEngine | null = dataBackend === 'supabase' ? createSyncEngine(remote) : null;
+
+export const repository: Repository = syncEngine ? createSyncRepository(remote, local, syncEngine) : local;
+
+export type * from './types';
@@ -0,0 +1,149 @@
+import type { CardMedia } from '@/types/flashcard';
+
+// Minimal promise wrappers around the IndexedDB API.
+
+export const DB_NAME = 'hd-notebook';
+export const DB_VERSION = 9;
+
+export type StoreName =
+  | 'sets'
+  | 'cards'
+  | 'note_types'
+  | 'card_media'
+  | 'card_progress'
+  | 'study_sessions'
+  | 'review_logs'
+  | 'preferences'
+  | 'sync_state'
+  | 'outbox';
+
+/**
+ * A row of the `card_media` store: the media with the file itself when running
+ * offline, or just the address of a file mirrored from the server.
+ */
+export type StoredMedia = Partial<CardMedia> & { id: string; blob?: Blob; url?: string };
+
+/** Key of the single row in the `preferences` store. */
+export const PREFERENCES_KEY = 'current';
+
+function upgrade(db: IDBDatabase, tx: IDBTransaction, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore('sets', { keyPath: 'id' });
+
+    const cards = db.createObjectStore('cards', { keyPath: 'id' });
+    cards.createIndex('set_id', 'set_id');
+
+    const progress = db.createObjectStore('card_progress', { keyPath: 'id' });
+    progress.createIndex('card_id', 'card_id', { unique: true });
+
+    const sessions = db.createObjectStore('study_sessions', { keyPath: 'id' });
+    sessions.createIndex('set_id', 'set_id');
+    sessions.createIndex('started_at', 'started_at');
+  }
+  if (oldVersion < 2) {
+    // Mutations waiting to be replayed against Supabase, in insertion order
+    db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+  }
+  if (oldVersion < 3) {
+    const logs = db.createObjectStore('review_logs', { keyPath: 'id' });
+    logs.createIndex('card_id', 'card_id');
+    logs.createIndex('set_id', 'set_id');
+    logs.createIndex('reviewed_at', 'reviewed_at');
+  }
+  if (oldVersion < 4) {
+    // Holds one row under PREFERENCES_KEY
+    db.createObjectStore('preferences');
+  }
+  if (oldVersion < 5) {
+    // Cloze cards have a progress row per cloze number
+    const progress = tx.objectStore('card_progress');
+    progress.deleteIndex('card_id');
+    progress.createIndex('card_id', 'card_id');
+    progress.createIndex('card_ordinal', ['card_id', 'ordinal'], { unique: true });
+  }
+  if (oldVersion < 6) {
+    // Cards studied both ways have a progress row per direction
+    const progress = tx.objectStore('card_progress');
+    progress.deleteIndex('card_ordinal');
+    progress.createIndex('card_item', ['card_id', 'ordinal', 'direction'], { unique: true });
+    // One pass fills in both keys, so rows from before either change are indexed
+    progress.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { ordinal = 0, direction = 'forward' } = cursor.value;
+      if (cursor.value.ordinal !== ordinal || cursor.value.direction !== direction) {
+        cursor.update({ ...cursor.value, ordinal, direction });
+      }
+      cursor.continue();
+    };
+  }
+  if (oldVersion < 7) {
+    db.createObjectStore('note_types', { keyPath: 'id' });
+    // Finds the cards still using a note type before it is deleted
+    tx.objectStore('cards').createIndex('note_type_id', 'note_type_id');
+  }
+  if (oldVersion < 8) {
+    // Files themselves when running offline, otherwise the address of each mirrored file
+    db.createObjectStore('card_media', { keyPath: 'id' });
+  }
+  if (oldVersion < 9) {
+    // How far each mirrored table has been read from the server, keyed by table name
+    db.createObjectStore('sync_state');
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `work` inside a single transaction and resolves with its result once
+ * the transaction has committed.
+ */
+export async function withStores<T>(
+  names: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(names, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (error) {
+    done.catch(() => undefined);
+    try {
+      tx.abort();
+    } catch {
+      // The transaction already finished
+    }
+    throw error;
+  }
+  await done;
+  return result;
+}
@@ -0,0 +1,28 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { startOfDay } from 'date-fns';
+import { clearMirror } from '@/lib/sync/mirror';
+import { createIndexedDbRepository } from './indexedDbRepository';
+
+describe('createIndexedDbRepository', () => {
+  beforeEach(async () => {
+    await clearMirror();
+  });
+
+  it('counts never-studied cards as new without creating their progress', async () => {
+    const repository = createIndexedDbRepository();
+    await repository.sets.create({ id: 'set-1', title: 'French', description: null });
+    await repository.cards.createMany(['chat', 'chien'].map((front, order_index) => ({
+      set_id: 'set-1',
+      front,
+      back: front,
+      card_type: 'term',
+      order_index
+    })));
+
+    const { counts, countsBySet } = await repository.progress.dueCounts({ dayStart: startOfDay(new Date()) });
+
+    expect(counts).toEqual({ new: 2, learning: 0, due: 0, total: 2 });
+    expect(countsBySet['set-1']).toEqual(counts);
+    expect(await repository.progress.list()).toEqual([]);
+  });
+});
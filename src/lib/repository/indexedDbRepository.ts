@@ -0,0 +1,602 @@
+import { Card, CardDirection, CardMedia, CardProgress, FlashcardSet, NoteType, ReviewLog, StudySession, UserPreferences } from '@/types/flashcard';
+import { DEFAULT_PREFERENCES } from '@/lib/dailyGoal';
+import { DEFAULT_SET_SETTINGS } from '@/lib/setSettings';
+import { buildDueQueue, DueItem } from '@/lib/reviewQueue';
+import { cardDirections, cardOrdinals, noteTypeOf } from '@/lib/studyItems';
+import { pickSetSettings } from '@/lib/setSettings';
+import { validateCards } from '@/lib/cardValidation';
+import { isReferenced, ORPHAN_MIN_AGE_MS } from '@/lib/media';
+import { studyDaysOf } from '@/lib/activity';
+import { CardValidationError, DueQueueQuery, Repository } from './types';
+import { PREFERENCES_KEY, promisify, StoredMedia, withStores } from './indexedDb';
+
+async function refreshCardCount(tx: IDBTransaction, setId: string) {
+  const sets = tx.objectStore('sets');
+  const set: FlashcardSet | undefined = await promisify(sets.get(setId));
+  if (!set) return;
+  const count = await promisify(tx.objectStore('cards').index('set_id').count(setId));
+  await promisify(sets.put({ ...set, card_count: count }));
+}
+
+// Mirrors the ON DELETE CASCADE of card_progress and review_logs
+async function deleteCardsWithProgress(tx: IDBTransaction, cardIds: string[]) {
+  const cards = tx.objectStore('cards');
+  const progressByCard = tx.objectStore('card_progress').index('card_id');
+  const logs = tx.objectStore('review_logs');
+  for (const id of cardIds) {
+    for (const progressKey of await promisify(progressByCard.getAllKeys(id))) {
+      await promisify(tx.objectStore('card_progress').delete(progressKey));
+    }
+    for (const logKey of await promisify(logs.index('card_id').getAllKeys(id))) {
+      await promisify(logs.delete(logKey));
+    }
+    await promisify(cards.delete(id));
+  }
+}
+
+const newProgress = (cardId: string, id?: string, ordinal = 0, direction: CardDirection = 'forward'): CardProgress => ({
+  id: id ?? crypto.randomUUID(),
+  card_id: cardId,
+  ordinal,
+  direction,
+  ease_factor: 2.5,
+  interval: 1,
+  repetitions: 0,
+  next_review: new Date().toISOString(),
+  last_reviewed: null,
+  stability: null,
+  difficulty: null,
+  lapses: 0,
+  state: 'new',
+  step: 0,
+  owner_id: null
+});
+
+const timeRange = (since: Date, until?: Date) =>
+  until
+    ? IDBKeyRange.bound(since.toISOString(), until.toISOString(), false, true)
+    : IDBKeyRange.lowerBound(since.toISOString());
+
+/**
+ * Every study item in scope with its progress, and the reviews logged since
+ * `dayStart`. Items never studied get a new progress row, stored only when
+ * `create` is set.
+ */
+async function dueItems(
+  tx: IDBTransaction,
+  { dayStart, setId, direction }: Omit<DueQueueQuery, 'limit'>,
+  create: boolean
+): Promise<{ items: DueItem[]; logs: ReviewLog[] }> {
+  const setStore = tx.objectStore('sets');
+  const cardStore = tx.objectStore('cards');
+  const sets: FlashcardSet[] = setId
+    ? [await promisify(setStore.get(setId))].filter(Boolean)
+    : await promisify(setStore.getAll());
+  const cards: Card[] = setId
+    ? await promisify(cardStore.index('set_id').getAll(setId))
+    : await promisify(cardStore.getAll());
+  const logs: ReviewLog[] = await promisify(
+    tx.objectStore('review_logs').index('reviewed_at').getAll(timeRange(dayStart))
+  );
+  const noteTypes: NoteType[] = await promisify(tx.objectStore('note_types').getAll());
+
+  const setsById = new Map(sets.map(set => [set.id, set]));
+  const progressStore = tx.objectStore('card_progress');
+  const items: DueItem[] = [];
+  for (const card of cards) {
+    const set = setsById.get(card.set_id);
+    if (!set) continue;
+    // Only the cloze numbers still in the text, the templates of the note type
+    // and the directions being studied are queued; other rows stay for their history
+    const directions = cardDirections(card, direction ?? pickSetSettings(set).study_direction);
+    for (const ordinal of cardOrdinals(card, noteTypeOf(card, noteTypes))) {
+      for (const cardDirection of directions) {
+        let progress: CardProgress | undefined = await promisify(
+          progressStore.index('card_item').get([card.id, ordinal, cardDirection])
+        );
+        if (!progress) {
+          progress = newProgress(card.id, undefined, ordinal, cardDirection);
+          if (create) await promisify(progressStore.add(progress));
+        }
+        items.push({ card, progress, set });
+      }
+    }
+  }
+  return { items, logs };
+}
+
+export function createIndexedDbRepository(): Repository {
+  // One object URL per stored file, kept for the lifetime of the page
+  const objectUrls = new Map<string, string>();
+
+  return {
+    sets: {
+      async list() {
+        const sets: FlashcardSet[] = await withStores(['sets'], 'readonly', (tx) =>
+          promisify(tx.objectStore('sets').getAll())
+        );
+        return sets.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+      },
+
+      async get(id) {
+        const set: FlashcardSet | undefined = await withStores(['sets'], 'readonly', (tx) =>
+          promisify(tx.objectStore('sets').get(id))
+        );
+        return set ?? null;
+      },
+
+      async create(set) {
+        const now = new Date().toISOString();
+        const row: FlashcardSet = {
+          id: set.id ?? crypto.randomUUID(),
+          title: set.title,
+          description: set.description ?? null,
+          created_at: now,
+          updated_at: now,
+          card_count: 0,
+          scheduler: set.scheduler ?? DEFAULT_SET_SETTINGS.scheduler,
+          target_retention: set.target_retention ?? DEFAULT_SET_SETTINGS.target_retention,
+          new_cards_per_day: set.new_cards_per_day ?? DEFAULT_SET_SETTINGS.new_cards_per_day,
+          max_reviews_per_day: set.max_reviews_per_day ?? DEFAULT_SET_SETTINGS.max_reviews_per_day,
+          learning_steps: set.learning_steps ?? DEFAULT_SET_SETTINGS.learning_steps,
+          relearning_steps: set.relearning_steps ?? DEFAULT_SET_SETTINGS.relearning_steps,
+          study_direction: set.study_direction ?? DEFAULT_SET_SETTINGS.study_direction,
+          front_language: set.front_language ?? DEFAULT_SET_SETTINGS.front_language,
+          back_language: set.back_language ?? DEFAULT_SET_SETTINGS.back_language,
+          definition_length: set.definition_length ?? DEFAULT_SET_SETTINGS.definition_length,
+          reading_level: set.reading_level ?? DEFAULT_SET_SETTINGS.reading_level,
+          definition_language: set.definition_language ?? DEFAULT_SET_SETTINGS.definition_language,
+          include_example: set.include_example ?? DEFAULT_SET_SETTINGS.include_example,
+          version: 1,
+          owner_id: null
+        };
+        await withStores(['sets'], 'readwrite', (tx) => promisify(tx.objectStore('sets').add(row)));
+        return row;
+      },
+
+      async update(id, changes) {
+        await withStores(['sets'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('sets');
+          const set: FlashcardSet | undefined = await promisify(store.get(id));
+          if (!set) throw new Error(`Set ${id} not found`);
+          await promisify(store.put({
+            ...set,
+            ...changes,
+            updated_at: changes.updated_at ?? new Date().toISOString()
+          }));
+        });
+      },
+
+      async save(id, { set: changes, cards, removedIds, expectedVersion }) {
+        return withStores(['sets', 'cards', 'card_progress', 'review_logs', 'note_types'], 'readwrite', async (tx) => {
+          const sets = tx.objectStore('sets');
+          const store = tx.objectStore('cards');
+          const set: FlashcardSet | undefined = await promisify(sets.get(id));
+          if (!set) throw new Error(`Set ${id} not found`);
+          // Rows mirrored before versions existed count as the first version
+          const version = set.version ?? 1;
+
+          if (expectedVersion !== undefined && version !== expectedVersion) {
+            return { ok: false, conflict: true, version, errors: [] };
+          }
+          const errors = validateCards(cards);
+          if (errors.length > 0) return { ok: false, conflict: false, version, errors };
+
+          const existing = new Map<string, Card>();
+          const foreign: CardValidationError[] = [];
+          for (const card of cards) {
+            const row: Card | undefined = await promisify(store.get(card.id));
+            if (!row) continue;
+            if (row.set_id === id) existing.set(row.id, row);
+            else foreign.push({ cardId: card.id, field: null, message: 'Card belongs to another set' });
+          }
+          if (foreign.length > 0) return { ok: false, conflict: false, version, errors: foreign };
+
+          const now = new Date().toISOString();
+          await promisify(sets.put({ ...set, ...changes, updated_at: changes.updated_at ?? now, version: version + 1 }));
+
+          const removed = new Set(removedIds);
+          const ownCards = (await promisify(store.index('set_id').getAllKeys(id))) as string[];
+          await deleteCardsWithProgress(tx, ownCards.filter(cardId => removed.has(cardId)));
+
+          for (const card of cards) {
+            const current = existing.get(card.id);
+            await promisify(store.put({
+              ...current,
+              ...card,
+              set_id: id,
+              created_at: current?.created_at ?? now,
+              updated_at: card.updated_at ?? now,
+              owner_id: current?.owner_id ?? null
+            }));
+          }
+          await refreshCardCount(tx, id);
+          return { ok: true, conflict: false, version: version + 1, errors: [] };
+        });
+      },
+
+      async remove(id) {
+        await withStores(['sets', 'cards', 'card_progress', 'study_sessions', 'review_logs'], 'readwrite', async (tx) => {
+          const cardIds = (await promisify(tx.objectStore('cards').index('set_id').getAllKeys(id))) as string[];
+          await deleteCardsWithProgress(tx, cardIds);
+
+          const sessions = tx.objectStore('study_sessions');
+          const sessionIds = await promisify(sessions.index('set_id').getAllKeys(id));
+          for (const sessionId of sessionIds) {
+            await promisify(sessions.delete(sessionId));
+          }
+
+          await promisify(tx.objectStore('sets').delete(id));
+        });
+      }
+    },
+
+    noteTypes: {
+      async list() {
+        const noteTypes: NoteType[] = await withStores(['note_types'], 'readonly', (tx) =>
+          promisify(tx.objectStore('note_types').getAll())
+        );
+        return noteTypes.sort((a, b) => a.name.localeCompare(b.name));
+      },
+
+      async get(id) {
+        const noteType: NoteType | undefined = await withStores(['note_types'], 'readonly', (tx) =>
+          promisify(tx.objectStore('note_types').get(id))
+        );
+        return noteType ?? null;
+      },
+
+      async create(noteType) {
+        const now = new Date().toISOString();
+        const row: NoteType = {
+          id: noteType.id ?? crypto.randomUUID(),
+          name: noteType.name,
+          fields: noteType.fields,
+          templates: noteType.templates,
+          created_at: now,
+          updated_at: now,
+          owner_id: null
+        };
+        await withStores(['note_types'], 'readwrite', (tx) => promisify(tx.objectStore('note_types').add(row)));
+        return row;
+      },
+
+      async update(id, changes) {
+        await withStores(['note_types'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('note_types');
+          const noteType: NoteType | undefined = await promisify(store.get(id));
+          if (!noteType) throw new Error(`Note type ${id} not found`);
+          await promisify(store.put({
+            ...noteType,
+            ...changes,
+            updated_at: changes.updated_at ?? new Date().toISOString()
+          }));
+        });
+      },
+
+      async remove(id) {
+        await withStores(['cards', 'note_types'], 'readwrite', async (tx) => {
+          // Mirrors ON DELETE RESTRICT of cards.note_type_id
+          const used = await promisify(tx.objectStore('cards').index('note_type_id').count(id));
+          if (used > 0) throw new Error('This note type is still used by cards');
+          await promisify(tx.objectStore('note_types').delete(id));
+        });
+      }
+    },
+
+    media: {
+      async upload(file) {
+        const id = crypto.randomUUID();
+        const row: CardMedia = {
+          id,
+          path: id,
+          content_type: file.type,
+          byte_size: file.size,
+          created_at: new Date().toISOString(),
+          owner_id: null
+        };
+        await withStores(['card_media'], 'readwrite', (tx) =>
+          promisify(tx.objectStore('card_media').add({ ...row, blob: file }))
+        );
+        return row;
+      },
+
+      async url(id) {
+        const cached = objectUrls.get(id);
+        if (cached) return cached;
+        const row: StoredMedia | undefined = await withStores(['card_media'], 'readonly', (tx) =>
+          promisify(tx.objectStore('card_media').get(id))
+        );
+        if (!row?.blob) return row?.url ?? null;
+        const url = URL.createObjectURL(row.blob);
+        objectUrls.set(id, url);
+        return url;
+      },
+
+      async removeOrphans() {
+        return withStores(['card_media', 'cards', 'note_types'], 'readwrite', async (tx) => {
+          const cards: Card[] = await promisify(tx.objectStore('cards').getAll());
+          const noteTypes: NoteType[] = await promisify(tx.objectStore('note_types').getAll());
+          const texts = [
+            ...cards.flatMap(card => [card.front, card.back, JSON.stringify(card.fields ?? {})]),
+            ...noteTypes.map(noteType => JSON.stringify(noteType.templates))
+          ];
+          const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+          const store = tx.objectStore('card_media');
+          const rows: StoredMedia[] = await promisify(store.getAll());
+          // Only files stored here are swept; mirrored addresses follow the server
+          const orphans = rows.filter(row =>
+            row.blob && row.created_at && Date.parse(row.created_at) < cutoff && !isReferenced(row.id, texts)
+          );
+          for (const row of orphans) {
+            await promisify(store.delete(row.id));
+            const url = objectUrls.get(row.id);
+            if (url) URL.revokeObjectURL(url);
+            objectUrls.delete(row.id);
+          }
+          return orphans.map(row => row.id);
+        });
+      }
+    },
+
+    cards: {
+      async list() {
+        const cards: Card[] = await withStores(['cards'], 'readonly', (tx) =>
+          promisify(tx.objectStore('cards').getAll())
+        );
+        return cards.sort((a, b) => a.order_index - b.order_index);
+      },
+
+      async listBySet(setId) {
+        const cards: Card[] = await withStores(['cards'], 'readonly', (tx) =>
+          promisify(tx.objectStore('cards').index('set_id').getAll(setId))
+        );
+        return cards.sort((a, b) => a.order_index - b.order_index);
+      },
+
+      async listByNoteType(noteTypeId) {
+        const cards: Card[] = await withStores(['cards'], 'readonly', (tx) =>
+          promisify(tx.objectStore('cards').index('note_type_id').getAll(noteTypeId))
+        );
+        return cards.sort((a, b) => a.order_index - b.order_index);
+      },
+
+      async get(id) {
+        const card: Card | undefined = await withStores(['cards'], 'readonly', (tx) =>
+          promisify(tx.objectStore('cards').get(id))
+        );
+        return card ?? null;
+      },
+
+      async createMany(cards) {
+        const now = new Date().toISOString();
+        const rows: Card[] = cards.map(card => ({
+          ...card,
+          id: card.id ?? crypto.randomUUID(),
+          note_type_id: card.note_type_id ?? null,
+          fields: card.fields ?? null,
+          occlusions: card.occlusions ?? null,
+          created_at: now,
+          updated_at: now,
+          owner_id: null
+        }));
+        await withStores(['sets', 'cards'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('cards');
+          for (const row of rows) {
+            await promisify(store.add(row));
+          }
+          for (const setId of new Set(rows.map(r => r.set_id))) {
+            await refreshCardCount(tx, setId);
+          }
+        });
+        return rows;
+      },
+
+      async update(id, changes) {
+        await withStores(['cards'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('cards');
+          const card: Card | undefined = await promisify(store.get(id));
+          if (!card) throw new Error(`Card ${id} not found`);
+          await promisify(store.put({
+            ...card,
+            ...changes,
+            updated_at: changes.updated_at ?? new Date().toISOString()
+          }));
+        });
+      },
+
+      async remove(ids) {
+        await withStores(['sets', 'cards', 'card_progress', 'review_logs'], 'readwrite', async (tx) => {
+          const setIds = new Set<string>();
+          for (const id of ids) {
+            const card: Card | undefined = await promisify(tx.objectStore('cards').get(id));
+            if (card) setIds.add(card.set_id);
+          }
+          await deleteCardsWithProgress(tx, ids);
+          for (const setId of setIds) {
+            await refreshCardCount(tx, setId);
+          }
+        });
+      },
+
+      async removeExcept(setId, keepIds) {
+        const keep = new Set(keepIds);
+        await withStores(['sets', 'cards', 'card_progress', 'review_logs'], 'readwrite', async (tx) => {
+          const cardIds = (await promisify(tx.objectStore('cards').index('set_id').getAllKeys(setId))) as string[];
+          await deleteCardsWithProgress(tx, cardIds.filter(id => !keep.has(id)));
+          await refreshCardCount(tx, setId);
+        });
+      }
+    },
+
+    progress: {
+      list() {
+        return withStores(['card_progress'], 'readonly', (tx) =>
+          promisify(tx.objectStore('card_progress').getAll())
+        );
+      },
+
+      async listChangedSince(since) {
+        const progress: CardProgress[] = await withStores(['card_progress'], 'readonly', (tx) =>
+          promisify(tx.objectStore('card_progress').getAll())
+        );
+        return progress
+          .filter(p => since === null || (p.updated_at !== undefined && p.updated_at >= since))
+          .sort((a, b) => (a.updated_at ?? '').localeCompare(b.updated_at ?? ''));
+      },
+
+      async listBySet(setId) {
+        return withStores(['cards', 'card_progress'], 'readonly', async (tx) => {
+          const cardIds = await promisify(tx.objectStore('cards').index('set_id').getAllKeys(setId));
+          const byCard = tx.objectStore('card_progress').index('card_id');
+          const progress: CardProgress[] = [];
+          for (const cardId of cardIds) {
+            progress.push(...(await promisify(byCard.getAll(cardId))));
+          }
+          return progress;
+        });
+      },
+
+      async get(id) {
+        const progress: CardProgress | undefined = await withStores(['card_progress'], 'readonly', (tx) =>
+          promisify(tx.objectStore('card_progress').get(id))
+        );
+        return progress ?? null;
+      },
+
+      async create(cardId, id, ordinal, direction) {
+        const row = newProgress(cardId, id, ordinal, direction);
+        await withStores(['card_progress'], 'readwrite', (tx) =>
+          promisify(tx.objectStore('card_progress').add(row))
+        );
+        return row;
+      },
+
+      async update(id, changes) {
+        await withStores(['card_progress'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('card_progress');
+          const progress: CardProgress | undefined = await promisify(store.get(id));
+          if (!progress) throw new Error(`Progress ${id} not found`);
+          await promisify(store.put({ ...progress, ...changes }));
+        });
+      },
+
+      async dueQueue({ dayStart, setId, limit, direction }) {
+        const now = new Date();
+        return withStores(['sets', 'cards', 'card_progress', 'review_logs', 'note_types'], 'readwrite', async (tx) => {
+          const { items, logs } = await dueItems(tx, { dayStart, setId, direction }, true);
+          const queue = buildDueQueue(items, logs, { now, dayStart, limit });
+          return { ...queue, items: queue.items.map(({ card, progress }) => ({ card, progress })) };
+        });
+      },
+
+      async dueCounts({ dayStart, setId, direction }) {
+        const now = new Date();
+        return withStores(['sets', 'cards', 'card_progress', 'review_logs', 'note_types'], 'readonly', async (tx) => {
+          const { items, logs } = await dueItems(tx, { dayStart, setId, direction }, false);
+          const { counts, countsBySet } = buildDueQueue(items, logs, { now, dayStart, limit: 0 });
+          return { counts, countsBySet };
+        });
+      }
+    },
+
+    sessions: {
+      async create(session) {
+        const now = new Date().toISOString();
+        const row: StudySession = {
+          id: session.id ?? crypto.randomUUID(),
+          set_id: session.set_id,
+          mode: session.mode,
+          started_at: now,
+          ended_at: null,
+          last_active_at: now,
+          duration_seconds: null,
+          abandoned: false,
+          cards_studied: 0,
+          correct_count: 0,
+          accuracy: null,
+          owner_id: null
+        };
+        await withStores(['study_sessions'], 'readwrite', (tx) =>
+          promisify(tx.objectStore('study_sessions').add(row))
+        );
+        return row;
+      },
+
+      async update(id, changes) {
+        await withStores(['study_sessions'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('study_sessions');
+          const session: StudySession | undefined = await promisify(store.get(id));
+          if (!session) throw new Error(`Session ${id} not found`);
+          await promisify(store.put({ ...session, ...changes }));
+        });
+      },
+
+      async listSince(since, until) {
+        return withStores(['study_sessions'], 'readonly', (tx) =>
+          promisify(tx.objectStore('study_sessions').index('started_at').getAll(timeRange(since, until)))
+        );
+      },
+
+      async studyDays() {
+        const sessions: StudySession[] = await withStores(['study_sessions'], 'readonly', (tx) =>
+          promisify(tx.objectStore('study_sessions').getAll())
+        );
+        return studyDaysOf(sessions);
+      },
+
+      async listOpen() {
+        const sessions: StudySession[] = await withStores(['study_sessions'], 'readonly', (tx) =>
+          promisify(tx.objectStore('study_sessions').getAll())
+        );
+        return sessions.filter(s => s.ended_at === null);
+      }
+    },
+
+    reviewLogs: {
+      async create(log) {
+        const row: ReviewLog = {
+          ...log,
+          id: log.id ?? crypto.randomUUID(),
+          reviewed_at: log.reviewed_at ?? new Date().toISOString(),
+          owner_id: null
+        };
+        await withStores(['review_logs'], 'readwrite', (tx) =>
+          promisify(tx.objectStore('review_logs').add(row))
+        );
+        return row;
+      },
+
+      async listSince(since, until) {
+        return withStores(['review_logs'], 'readonly', (tx) =>
+          promisify(tx.objectStore('review_logs').index('reviewed_at').getAll(timeRange(since, until)))
+        );
+      }
+    },
+
+    preferences: {
+      async get() {
+        const row: UserPreferences | undefined = await withStores(['preferences'], 'readonly', (tx) =>
+          promisify(tx.objectStore('preferences').get(PREFERENCES_KEY))
+        );
+        return row ?? null;
+      },
+
+      async save(changes) {
+        return withStores(['preferences'], 'readwrite', async (tx) => {
+          const store = tx.objectStore('preferences');
+          const current: UserPreferences | undefined = await promisify(store.get(PREFERENCES_KEY));
+          const row: UserPreferences = {
+            ...DEFAULT_PREFERENCES,
+            owner_id: null,
+            ...current,
+            ...changes,
+            updated_at: changes.updated_at ?? new Date().toISOString()
+          };
+          await promisify(store.put(row, PREFERENCES_KEY));
+          return row;
+        });
+      }
+    }
+  };
+}
@@ -0,0 +1,439 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { Card, CardMedia, CardProgress, FlashcardSet, NoteType, ReviewLog, StudySession, UserPreferences } from '@/types/flashcard';
+import { LEARN_AHEAD_MS } from '@/lib/reviewQueue';
+import { baseType, MEDIA_BUCKET } from '@/lib/media';
+import { CardValidationError, DueCounts, DueQueue, Repository } from './types';
+
+// Shape of the JSON returned by the get_due_queue database function
+interface DueQueueResponse {
+  items: DueQueue['items'];
+  counts: DueCounts;
+  sets: Record<string, DueCounts>;
+}
+
+// Rows per request when paging through a table; the API returns at most 1000
+const PAGE_SIZE = 1000;
+
+// Shape of the JSON returned by the save_set database function
+interface SaveSetResponse {
+  ok: boolean;
+  conflict: boolean;
+  version: number;
+  errors: (Omit<CardValidationError, 'cardId'> & { card_id: string })[];
+}
+
+export function createSupabaseRepository(supabase: SupabaseClient<Database>): Repository {
+  return {
+    sets: {
+      async list() {
+        const { data, error } = await supabase
+          .from('sets')
+          .select('*')
+          .order('updated_at', { ascending: false });
+        if (error) throw error;
+        return data as FlashcardSet[];
+      },
+
+      async get(id) {
+        const { data, error } = await supabase
+          .from('sets')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+        if (error) throw error;
+        return data as FlashcardSet | null;
+      },
+
+      async create(set) {
+        const { data, error } = await supabase
+          .from('sets')
+          .insert(set)
+          .select()
+          .single();
+        if (error) throw error;
+        return data as FlashcardSet;
+      },
+
+      async update(id, changes) {
+        const { error } = await supabase.from('sets').update(changes).eq('id', id);
+        if (error) throw error;
+      },
+
+      async save(id, { set, cards, removedIds, expectedVersion }) {
+        const { data, error } = await supabase.rpc('save_set', {
+          p_set_id: id,
+          p_set: set,
+          p_cards: cards,
+          p_removed_ids: removedIds,
+          p_expected_version: expectedVersion
+        });
+        if (error) throw error;
+        const result = data as unknown as SaveSetResponse;
+        return {
+          ok: result.ok,
+          conflict: result.conflict,
+          version: result.version,
+          errors: result.errors.map(({ card_id, field, message }) => ({ cardId: card_id, field, message }))
+        };
+      },
+
+      async remove(id) {
+        // Delete associated cards first
+        const { error: cardsError } = await supabase.from('cards').delete().eq('set_id', id);
+        if (cardsError) throw cardsError;
+
+        const { error } = await supabase.from('sets').delete().eq('id', id);
+        if (error) throw error;
+      }
+    },
+
+    noteTypes: {
+      async list() {
+        const { data, error } = await supabase
+          .from('note_types')
+          .select('*')
+          .order('name');
+        if (error) throw error;
+        return data as unknown as NoteType[];
+      },
+
+      async get(id) {
+        const { data, error } = await supabase
+          .from('note_types')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+        if (error) throw error;
+        return data as unknown as NoteType | null;
+      },
+
+      async create({ templates, ...noteType }) {
+        const { data, error } = await supabase
+          .from('note_types')
+          .insert({ ...noteType, templates: templates as unknown as Json })
+          .select()
+          .single();
+        if (error) throw error;
+        return data as unknown as NoteType;
+      },
+
+      async update(id, { templates, ...changes }) {
+        const { error } = await supabase
+          .from('note_types')
+          .update(templates ? { ...changes, templates: templates as unknown as Json } : changes)
+          .eq('id', id);
+        if (error) throw error;
+      },
+
+      async remove(id) {
+        const { error } = await supabase.from('note_types').delete().eq('id', id);
+        // cards.note_type_id is ON DELETE RESTRICT
+        if (error?.code === '23503') throw new Error('This note type is still used by cards');
+        if (error) throw error;
+      }
+    },
+
+    media: {
+      async upload(file) {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) throw new Error('Sign in to attach files');
+
+        // Files are kept in a folder per user, which the bucket's policies check
+        const id = crypto.randomUUID();
+        const path = `${session.user.id}/${id}`;
+        const bucket = supabase.storage.from(MEDIA_BUCKET);
+        const contentType = baseType(file.type);
+        const { error: uploadError } = await bucket.upload(path, file, {
+          contentType,
+          cacheControl: '31536000'
+        });
+        if (uploadError) throw uploadError;
+
+        const { data, error } = await supabase
+          .from('card_media')
+          .insert({ id, path, content_type: contentType, byte_size: file.size })
+          .select()
+          .single();
+        if (error) {
+          await bucket.remove([path]);
+          throw error;
+        }
+        return data as CardMedia;
+      },
+
+      async url(id) {
+        const { data, error } = await supabase
+          .from('card_media')
+          .select('path')
+          .eq('id', id)
+          .maybeSingle();
+        if (error) throw error;
+        return data ? supabase.storage.from(MEDIA_BUCKET).getPublicUrl(data.path).data.publicUrl : null;
+      },
+
+      async removeOrphans() {
+        const { data, error } = await supabase.rpc('orphaned_media');
+        if (error) throw error;
+        if (data.length === 0) return [];
+
+        // Rows go last and only for files storage reports removed, so the rest are found again next time
+        const { data: removed, error: storageError } = await supabase.storage
+          .from(MEDIA_BUCKET)
+          .remove(data.map(media => media.path));
+        if (storageError) throw storageError;
+
+        const removedPaths = new Set(removed.map(file => file.name));
+        const ids = data.filter(media => removedPaths.has(media.path)).map(media => media.id);
+        if (ids.length === 0) return [];
+        const { error: deleteError } = await supabase.from('card_media').delete().in('id', ids);
+        if (deleteError) throw deleteError;
+        return ids;
+      }
+    },
+
+    cards: {
+      async list() {
+        const { data, error } = await supabase
+          .from('cards')
+          .select('*')
+          .order('order_index');
+        if (error) throw error;
+        return data as Card[];
+      },
+
+      async listBySet(setId) {
+        const { data, error } = await supabase
+          .from('cards')
+          .select('*')
+          .eq('set_id', setId)
+          .order('order_index');
+        if (error) throw error;
+        return data as Card[];
+      },
+
+      async listByNoteType(noteTypeId) {
+        const { data, error } = await supabase
+          .from('cards')
+          .select('*')
+          .eq('note_type_id', noteTypeId)
+          .order('order_index');
+        if (error) throw error;
+        return data as Card[];
+      },
+
+      async get(id) {
+        const { data, error } = await supabase
+          .from('cards')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+        if (error) throw error;
+        return data as Card | null;
+      },
+
+      async createMany(cards) {
+        if (cards.length === 0) return [];
+        const { data, error } = await supabase
+          .from('cards')
+          .insert(cards)
+          .select();
+        if (error) throw error;
+        return data as Card[];
+      },
+
+      async update(id, changes) {
+        const { error } = await supabase.from('cards').update(changes).eq('id', id);
+        if (error) throw error;
+      },
+
+      async remove(ids) {
+        if (ids.length === 0) return;
+        const { error } = await supabase.from('cards').delete().in('id', ids);
+        if (error) throw error;
+      },
+
+      async removeExcept(setId, keepIds) {
+        let query = supabase.from('cards').delete().eq('set_id', setId);
+        if (keepIds.length > 0) {
+          query = query.not('id', 'in', `(${keepIds.join(',')})`);
+        }
+        const { error } = await query;
+        if (error) throw error;
+      }
+    },
+
+    progress: {
+      async list() {
+        const { data, error } = await supabase.from('card_progress').select('*');
+        if (error) throw error;
+        return data as CardProgress[];
+      },
+
+      async listBySet(setId) {
+        const { data, error } = await supabase
+          .from('card_progress')
+          .select('*, cards!inner(set_id)')
+          .eq('cards.set_id', setId);
+        if (error) throw error;
+        return data.map(({ cards: _card, ...progress }) => progress) as CardProgress[];
+      },
+
+      async listChangedSince(since) {
+        const rows: CardProgress[] = [];
+        // Pages follow (updated_at, id), so rows changed in the same instant are neither skipped nor repeated
+        let last: CardProgress | undefined;
+        for (;;) {
+          let query = supabase.from('card_progress').select('*');
+          if (last) {
+            query = query.or(`updated_at.gt."${last.updated_at}",and(updated_at.eq."${last.updated_at}",id.gt.${last.id})`);
+          } else if (since) {
+            query = query.gte('updated_at', since);
+          }
+          const { data, error } = await query.order('updated_at').order('id').limit(PAGE_SIZE);
+          if (error) throw error;
+          rows.push(...(data as CardProgress[]));
+          if (data.length < PAGE_SIZE) return rows;
+          last = data[data.length - 1] as CardProgress;
+        }
+      },
+
+      async get(id) {
+        const { data, error } = await supabase
+          .from('card_progress')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+        if (error) throw error;
+        return data as CardProgress | null;
+      },
+
+      async create(cardId, id, ordinal, direction) {
+        const { data, error } = await supabase
+          .from('card_progress')
+          .insert({ id, card_id: cardId, ordinal, direction })
+          .select()
+          .single();
+        if (error) throw error;
+        return data as CardProgress;
+      },
+
+      async update(id, changes) {
+        const { error } = await supabase.from('card_progress').update(changes).eq('id', id);
+        if (error) throw error;
+      },
+
+      async dueQueue({ dayStart, setId, limit, direction }) {
+        const { data, error } = await supabase.rpc('get_due_queue', {
+          p_day_start: dayStart.toISOString(),
+          p_set_id: setId,
+          p_limit: limit,
+          p_learn_ahead_minutes: LEARN_AHEAD_MS / 60_000,
+          p_direction: direction
+        });
+        if (error) throw error;
+        const { items, counts, sets } = data as unknown as DueQueueResponse;
+        return { items, counts, countsBySet: sets };
+      },
+
+      async dueCounts({ dayStart, setId, direction }) {
+        const { data, error } = await supabase.rpc('get_due_counts', {
+          p_day_start: dayStart.toISOString(),
+          p_set_id: setId,
+          p_learn_ahead_minutes: LEARN_AHEAD_MS / 60_000,
+          p_direction: direction
+        });
+        if (error) throw error;
+        const { counts, sets } = data as unknown as Omit<DueQueueResponse, 'items'>;
+        return { counts, countsBySet: sets };
+      }
+    },
+
+    sessions: {
+      async create(session) {
+        const { data, error } = await supabase
+          .from('study_sessions')
+          .insert(session)
+          .select()
+          .single();
+        if (error) throw error;
+        return data as StudySession;
+      },
+
+      async update(id, changes) {
+        const { error } = await supabase.from('study_sessions').update(changes).eq('id', id);
+        if (error) throw error;
+      },
+
+      async listSince(since, until) {
+        let query = supabase
+          .from('study_sessions')
+          .select('*')
+          .gte('started_at', since.toISOString());
+        if (until) query = query.lt('started_at', until.toISOString());
+        const { data, error } = await query.order('started_at');
+        if (error) throw error;
+        return data as StudySession[];
+      },
+
+      async studyDays() {
+        const { data, error } = await supabase.rpc('get_study_days', {
+          p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        });
+        if (error) throw error;
+        return data;
+      },
+
+      async listOpen() {
+        const { data, error } = await supabase
+          .from('study_sessions')
+          .select('*')
+          .is('ended_at', null);
+        if (error) throw error;
+        return data as StudySession[];
+      }
+    },
+
+    reviewLogs: {
+      async create(log) {
+        const { data, error } = await supabase
+          .from('review_logs')
+          .insert(log)
+          .select()
+          .single();
+        if (error) throw error;
+        return data as ReviewLog;
+      },
+
+      async listSince(since, until) {
+        let query = supabase
+          .from('review_logs')
+          .select('*')
+          .gte('reviewed_at', since.toISOString());
+        if (until) query = query.lt('reviewed_at', until.toISOString());
+        const { data, error } = await query.order('reviewed_at');
+        if (error) throw error;
+        return data as ReviewLog[];
+      }
+    },
+
+    preferences: {
+      async get() {
+        const { data, error } = await supabase.from('user_preferences').select('*').maybeSingle();
+        if (error) throw error;
+        return data as UserPreferences | null;
+      },
+
+      async save(changes) {
+        // owner_id defaults to auth.uid(), so the first save creates the row
+        const { data, error } = await supabase
+          .from('user_preferences')
+          .upsert(changes, { onConflict: 'owner_id' })
+          .select()
+          .single();
+        if (error) throw error;
+        return data as UserPreferences;
+      }
+    }
+  };
+}
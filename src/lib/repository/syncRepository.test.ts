@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearMirror } from '@/lib/sync/mirror';
+import * as outbox from '@/lib/sync/outbox';
+import type { CardProgress } from '@/types/flashcard';
+import { createSyncEngine } from '@/lib/sync/syncEngine';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createSyncRepository } from './syncRepository';
+import type { Repository } from './types';
+
+const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+const progressFor = (cardId: string, changes: Partial<CardProgress> = {}): CardProgress => ({
+  id: `progress-${cardId}`,
+  card_id: cardId,
+  ordinal: 0,
+  direction: 'forward',
+  ease_factor: 2.5,
+  interval: 1,
+  repetitions: 0,
+  next_review: new Date().toISOString(),
+  last_reviewed: null,
+  stability: null,
+  difficulty: null,
+  lapses: 0,
+  state: 'new',
+  step: 0,
+  owner_id: null,
+  ...changes
+});
+
+describe('createSyncRepository', () => {
+  let remote: Repository;
+  let createMany: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    await clearMirror();
+    createMany = vi.fn().mockResolvedValue([]);
+    remote = { cards: { createMany, listBySet: vi.fn().mockResolvedValue([]) } } as unknown as Repository;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('replays note cards with their note type and fields', async () => {
+    const engine = createSyncEngine(remote);
+    const repository = createSyncRepository(remote, createIndexedDbRepository(), engine);
+
+    const online = goOffline();
+    const [row] = await repository.cards.createMany([{
+      set_id: 'set-1',
+      front: '',
+      back: '',
+      card_type: 'note',
+      note_type_id: 'note-type-1',
+      fields: { Word: 'chat', Meaning: 'cat' },
+      order_index: 0
+    }]);
+    online.mockReturnValue(true);
+    await engine.flush();
+
+    expect(createMany).toHaveBeenCalledWith([{
+      id: row.id,
+      set_id: 'set-1',
+      front: '',
+      back: '',
+      card_type: 'note',
+      note_type_id: 'note-type-1',
+      fields: { Word: 'chat', Meaning: 'cat' },
+      order_index: 0
+    }]);
+    expect(await engine.hasPending()).toBe(false);
+  });
+
+  it('replays occlusion cards with their regions', async () => {
+    const engine = createSyncEngine(remote);
+    const repository = createSyncRepository(remote, createIndexedDbRepository(), engine);
+    const occlusions = [{ ordinal: 1, x: 0.1, y: 0.2, width: 0.3, height: 0.1, label: 'Aorta' }];
+
+    const online = goOffline();
+    const [row] = await repository.cards.createMany([{
+      set_id: 'set-1',
+      front: '![Heart](media:image-1)',
+      back: '',
+      card_type: 'occlusion',
+      occlusions,
+      order_index: 0
+    }]);
+    online.mockReturnValue(true);
+    await engine.flush();
+
+    expect(createMany).toHaveBeenCalledWith([expect.objectContaining({ id: row.id, card_type: 'occlusion', occlusions })]);
+    expect(await engine.hasPending()).toBe(false);
+  });
+
+  it('mirrors progress for cards that are not due yet', async () => {
+    const local = createIndexedDbRepository();
+    await local.sets.create({ id: 'set-1', title: 'French', description: null });
+    const [due, later] = await local.cards.createMany(['due', 'later'].map((id, order_index) => ({
+      id,
+      set_id: 'set-1',
+      front: id,
+      back: id,
+      card_type: 'term',
+      order_index
+    })));
+    const nextWeek = new Date(Date.now() + 7 * 86_400_000).toISOString();
+    const scheduled = progressFor(later.id, {
+      state: 'review',
+      repetitions: 3,
+      interval: 7,
+      next_review: nextWeek,
+      updated_at: '2025-12-09T10:00:00.000Z'
+    });
+    const counts = { new: 1, learning: 0, due: 0 };
+    const listChangedSince = vi.fn().mockResolvedValueOnce([progressFor(due.id), scheduled]).mockResolvedValue([]);
+    remote.progress = {
+      dueQueue: vi.fn().mockResolvedValue({
+        items: [{ card: due, progress: progressFor(due.id) }],
+        counts,
+        countsBySet: { 'set-1': counts }
+      }),
+      listChangedSince
+    } as unknown as Repository['progress'];
+    const engine = createSyncEngine(remote);
+    const repository = createSyncRepository(remote, local, engine);
+
+    await repository.progress.dueQueue({ dayStart: new Date(), setId: 'set-1' });
+    await repository.progress.dueQueue({ dayStart: new Date(), setId: 'set-1' });
+    expect(listChangedSince.mock.calls).toEqual([[null], ['2025-12-09T10:00:00.000Z']]);
+    goOffline();
+    const queue = await repository.progress.dueQueue({ dayStart: new Date(), setId: 'set-1' });
+
+    expect(queue.items.map(item => item.card.id)).toEqual([due.id]);
+    expect((await outbox.list()).filter(entry => entry.mutation.kind === 'progress.create')).toEqual([]);
+    expect(await local.progress.listBySet('set-1')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,349 @@
+import { isNetworkError, SyncEngine } from '@/lib/sync/syncEngine';
+import type { Mutation } from '@/lib/sync/outbox';
+import * as mirror from '@/lib/sync/mirror';
+import { itemKey, studyItems } from '@/lib/studyItems';
+import { pickSetSettings } from '@/lib/setSettings';
+import { Repository } from './types';
+
+/**
+ * Offline-first repository: writes land in the local IndexedDB mirror and are
+ * queued for the server; reads come from the server when it is reachable and
+ * nothing is waiting to sync, otherwise from the mirror.
+ */
+export function createSyncRepository(remote: Repository, local: Repository, engine: SyncEngine): Repository {
+  const read = async <T>(
+    fromRemote: () => Promise<T>,
+    fromLocal: () => Promise<T>,
+    store: (rows: T) => Promise<void>
+  ): Promise<T> => {
+    if (navigator.onLine) {
+      await engine.flush();
+      if (!(await engine.hasPending())) {
+        try {
+          const rows = await fromRemote();
+          await store(rows);
+          return rows;
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+    }
+    return fromLocal();
+  };
+
+  const write = async (mutation: Mutation) => {
+    await engine.enqueue(mutation);
+    engine.flush().catch(console.error);
+  };
+
+  // Updates are still queued when the row was never mirrored locally
+  const applyLocally = async (change: () => Promise<void>) => {
+    try {
+      await change();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  return {
+    sets: {
+      list: () => read(() => remote.sets.list(), () => local.sets.list(), mirror.replaceSets),
+
+      get: (id) => read(
+        () => remote.sets.get(id),
+        () => local.sets.get(id),
+        async (set) => { if (set) await mirror.putSet(set); }
+      ),
+
+      async create(set) {
+        const row = await local.sets.create({ ...set, id: set.id ?? crypto.randomUUID() });
+        await write({ kind: 'sets.create', set: { ...set, id: row.id } });
+        return row;
+      },
+
+      async update(id, changes) {
+        const stamped = { ...changes, updated_at: new Date().toISOString() };
+        await applyLocally(() => local.sets.update(id, stamped));
+        await write({ kind: 'sets.update', id, changes: stamped });
+      },
+
+      async save(id, changes) {
+        // Only the server knows whether another device saved in the meantime, so save there first
+        if (navigator.onLine) {
+          await engine.flush();
+          if (!(await engine.hasPending())) {
+            try {
+              const result = await remote.sets.save(id, changes);
+              if (result.ok) {
+                const [row, rows] = await Promise.all([remote.sets.get(id), remote.cards.listBySet(id)]);
+                if (row) await mirror.putSet(row);
+                await mirror.replaceCards(id, rows);
+              }
+              return result;
+            } catch (error) {
+              if (!isNetworkError(error)) throw error;
+            }
+          }
+        }
+
+        // Offline saves keep the version the edit started from, so a save made on another device
+        // in the meantime is reported when they are replayed instead of being overwritten.
+        // The local save runs the same validation as the server, so a queued save is expected to land
+        const result = await local.sets.save(id, changes);
+        if (result.ok) await write({ kind: 'sets.save', id, changes });
+        return result;
+      },
+
+      async remove(id) {
+        await local.sets.remove(id);
+        await write({ kind: 'sets.remove', id });
+      }
+    },
+
+    cards: {
+      list: () => read(() => remote.cards.list(), () => local.cards.list(), mirror.putCards),
+
+      listBySet: (setId) => read(
+        () => remote.cards.listBySet(setId),
+        () => local.cards.listBySet(setId),
+        (cards) => mirror.replaceCards(setId, cards)
+      ),
+
+      listByNoteType: (noteTypeId) => read(
+        () => remote.cards.listByNoteType(noteTypeId),
+        () => local.cards.listByNoteType(noteTypeId),
+        mirror.putCards
+      ),
+
+      get: (id) => read(() => remote.cards.get(id), () => local.cards.get(id), async () => undefined),
+
+      async createMany(cards) {
+        // The whole new row is queued; the server checks note and occlusion cards against their columns
+        const queued = cards.map(c => ({ ...c, id: c.id ?? crypto.randomUUID() }));
+        const rows = await local.cards.createMany(queued);
+        await write({ kind: 'cards.createMany', cards: queued });
+        return rows;
+      },
+
+      async update(id, changes) {
+        const stamped = { ...changes, updated_at: new Date().toISOString() };
+        await applyLocally(() => local.cards.update(id, stamped));
+        await write({ kind: 'cards.update', id, changes: stamped });
+      },
+
+      async remove(ids) {
+        await local.cards.remove(ids);
+        await write({ kind: 'cards.remove', ids });
+      },
+
+      async removeExcept(setId, keepIds) {
+        // Queue explicit ids so cards added on another device in the meantime survive
+        const keep = new Set(keepIds);
+        const ids = (await local.cards.listBySet(setId)).map(c => c.id).filter(id => !keep.has(id));
+        if (ids.length === 0) return;
+        await local.cards.remove(ids);
+        await write({ kind: 'cards.remove', ids });
+      }
+    },
+
+    noteTypes: {
+      list: () => read(() => remote.noteTypes.list(), () => local.noteTypes.list(), mirror.replaceNoteTypes),
+
+      get: (id) => read(
+        () => remote.noteTypes.get(id),
+        () => local.noteTypes.get(id),
+        async (noteType) => { if (noteType) await mirror.putNoteType(noteType); }
+      ),
+
+      async create(noteType) {
+        const row = await local.noteTypes.create({ ...noteType, id: noteType.id ?? crypto.randomUUID() });
+        await write({ kind: 'noteTypes.create', noteType: { ...noteType, id: row.id } });
+        return row;
+      },
+
+      async update(id, changes) {
+        const stamped = { ...changes, updated_at: new Date().toISOString() };
+        await applyLocally(() => local.noteTypes.update(id, stamped));
+        await write({ kind: 'noteTypes.update', id, changes: stamped });
+      },
+
+      async remove(id) {
+        await local.noteTypes.remove(id);
+        await write({ kind: 'noteTypes.remove', id });
+      }
+    },
+
+    media: {
+      // Files go straight to the server; there is nothing to replay them from later
+      async upload(file) {
+        const row = await remote.media.upload(file);
+        const url = await remote.media.url(row.id);
+        if (url) await mirror.putMediaUrl(row.id, url);
+        return row;
+      },
+
+      // A file never changes, so an address mirrored once stays good
+      async url(id) {
+        const mirrored = await local.media.url(id);
+        if (mirrored || !navigator.onLine) return mirrored;
+        try {
+          const url = await remote.media.url(id);
+          if (url) await mirror.putMediaUrl(id, url);
+          return url;
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          return null;
+        }
+      },
+
+      // The server can only tell what is orphaned once every queued edit has reached it
+      async removeOrphans() {
+        if (!navigator.onLine) return [];
+        await engine.flush();
+        if (await engine.hasPending()) return [];
+        try {
+          const ids = await remote.media.removeOrphans();
+          await mirror.removeMedia(ids);
+          return ids;
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          return [];
+        }
+      }
+    },
+
+    progress: {
+      list: () => read(() => remote.progress.list(), () => local.progress.list(), mirror.putProgress),
+
+      listBySet: (setId) => read(
+        () => remote.progress.listBySet(setId),
+        () => local.progress.listBySet(setId),
+        mirror.putProgress
+      ),
+
+      listChangedSince: (since) => read(
+        () => remote.progress.listChangedSince(since),
+        () => local.progress.listChangedSince(since),
+        mirror.putProgress
+      ),
+
+      get: (id) => read(() => remote.progress.get(id), () => local.progress.get(id), async () => undefined),
+
+      async create(cardId, id, ordinal, direction) {
+        const row = await local.progress.create(cardId, id, ordinal, direction);
+        await write({ kind: 'progress.create', id: row.id, cardId, ordinal: row.ordinal, direction: row.direction });
+        return row;
+      },
+
+      async update(id, changes) {
+        await applyLocally(() => local.progress.update(id, changes));
+        await write({ kind: 'progress.update', id, changes });
+      },
+
+      dueQueue: (query) => read(
+        () => remote.progress.dueQueue(query),
+        async () => {
+          // Progress for never-studied cards is queued like any other new row before reading
+          const [[sets, cards, progress], noteTypes] = await Promise.all([
+            query.setId
+              ? Promise.all([
+                local.sets.get(query.setId).then(set => (set ? [set] : [])),
+                local.cards.listBySet(query.setId),
+                local.progress.listBySet(query.setId)
+              ])
+              : Promise.all([local.sets.list(), local.cards.list(), local.progress.list()]),
+            local.noteTypes.list()
+          ]);
+          const studied = new Set(progress.map(p => itemKey(p.card_id, p.ordinal ?? 0, p.direction ?? 'forward')));
+          for (const set of sets) {
+            const direction = query.direction ?? pickSetSettings(set).study_direction;
+            const setCards = cards.filter(card => card.set_id === set.id);
+            for (const item of studyItems(setCards, direction, noteTypes).filter(item => !studied.has(item.key))) {
+              const row = await local.progress.create(item.card.id, undefined, item.ordinal, item.direction);
+              await write({
+                kind: 'progress.create',
+                id: row.id,
+                cardId: item.card.id,
+                ordinal: item.ordinal,
+                direction: item.direction
+              });
+            }
+          }
+          return local.progress.dueQueue(query);
+        },
+        async (queue) => {
+          // Rows scheduled for later are mirrored too, or the offline queue would take those
+          // cards as new and start them over; only rows changed since the last read are fetched
+          const changed = await remote.progress.listChangedSince(await mirror.readCursor('card_progress'));
+          await mirror.putCards(queue.items.map(item => item.card));
+          await mirror.putProgress(changed);
+          const cursor = changed[changed.length - 1]?.updated_at;
+          if (cursor) await mirror.writeCursor('card_progress', cursor);
+        }
+      ),
+
+      dueCounts: (query) => read(
+        () => remote.progress.dueCounts(query),
+        () => local.progress.dueCounts(query),
+        async () => undefined
+      )
+    },
+
+    sessions: {
+      async create(session) {
+        const row = await local.sessions.create({ ...session, id: session.id ?? crypto.randomUUID() });
+        await write({ kind: 'sessions.create', session: { id: row.id, set_id: row.set_id, mode: row.mode } });
+        return row;
+      },
+
+      async update(id, changes) {
+        await applyLocally(() => local.sessions.update(id, changes));
+        await write({ kind: 'sessions.update', id, changes });
+      },
+
+      listSince: (since, until) => read(
+        () => remote.sessions.listSince(since, until),
+        () => local.sessions.listSince(since, until),
+        mirror.putSessions
+      ),
+
+      studyDays: () => read(() => remote.sessions.studyDays(), () => local.sessions.studyDays(), async () => undefined),
+
+      listOpen: () => read(() => remote.sessions.listOpen(), () => local.sessions.listOpen(), mirror.putSessions)
+    },
+
+    reviewLogs: {
+      async create(log) {
+        const row = await local.reviewLogs.create({
+          ...log,
+          id: log.id ?? crypto.randomUUID(),
+          reviewed_at: log.reviewed_at ?? new Date().toISOString()
+        });
+        const { owner_id: _owner, ...queued } = row;
+        await write({ kind: 'reviewLogs.create', log: queued });
+        return row;
+      },
+
+      listSince: (since, until) => read(
+        () => remote.reviewLogs.listSince(since, until),
+        () => local.reviewLogs.listSince(since, until),
+        mirror.putReviewLogs
+      )
+    },
+
+    preferences: {
+      get: () => read(
+        () => remote.preferences.get(),
+        () => local.preferences.get(),
+        async (row) => { if (row) await mirror.putPreferences(row); }
+      ),
+
+      async save(changes) {
+        const stamped = { ...changes, updated_at: new Date().toISOString() };
+        const row = await local.preferences.save(stamped);
+        await write({ kind: 'preferences.save', changes: stamped });
+        return row;
+      }
+    }
+  };
+}
@@ -0,0 +1,221 @@
+import {
+  Card,
+  CardDirection,
+  CardMedia,
+  CardProgress,
+  FlashcardSet,
+  NoteType,
+  ReviewLog,
+  StudyDirection,
+  StudyModeName,
+  StudySession,
+  UserPreferences
+} from '@/types/flashcard';
+
+// Inputs accept an optional client-generated id so rows can be created before
+// the backend has confirmed them.
+type SetSettings = Pick<
+  FlashcardSet,
+  | 'scheduler'
+  | 'target_retention'
+  | 'new_cards_per_day'
+  | 'max_reviews_per_day'
+  | 'learning_steps'
+  | 'relearning_steps'
+  | 'study_direction'
+  | 'front_language'
+  | 'back_language'
+  | 'definition_length'
+  | 'reading_level'
+  | 'definition_language'
+  | 'include_example'
+>;
+
+export type NewSet = Pick<FlashcardSet, 'title' | 'description'> & Partial<SetSettings> & { id?: string };
+export type SetUpdate = Partial<Pick<FlashcardSet, 'title' | 'description' | 'updated_at'> & SetSettings>;
+
+export type NewCard = Pick<Card, 'set_id' | 'front' | 'back' | 'card_type' | 'order_index'> &
+  Partial<Pick<Card, 'note_type_id' | 'fields' | 'occlusions'>> & { id?: string };
+export type CardUpdate = Partial<
+  Pick<Card, 'front' | 'back' | 'card_type' | 'note_type_id' | 'fields' | 'occlusions' | 'order_index' | 'updated_at'>
+>;
+
+/** A card as sent by the editor; ids the set does not have yet are created. */
+export type SavedCard = Pick<
+  Card,
+  'id' | 'front' | 'back' | 'card_type' | 'note_type_id' | 'fields' | 'occlusions' | 'order_index'
+> & {
+  updated_at?: string;
+};
+
+export type NewNoteType = Pick<NoteType, 'name' | 'fields' | 'templates'> & { id?: string };
+export type NoteTypeUpdate = Partial<Pick<NoteType, 'name' | 'fields' | 'templates' | 'updated_at'>>;
+
+export interface SetSave {
+  set: SetUpdate;
+  /** Cards that were added or changed, with their new positions. */
+  cards: SavedCard[];
+  removedIds: string[];
+  /** Version the edit started from; the save is refused when the set has moved on since. */
+  expectedVersion?: number;
+}
+
+export interface CardValidationError {
+  cardId: string;
+  /** The offending side of the card, or null when the card as a whole is rejected. */
+  field: 'front' | 'back' | 'card_type' | null;
+  message: string;
+}
+
+/**
+ * Nothing is written when any card is invalid or the set was saved elsewhere
+ * since `expectedVersion`; `errors` is empty unless validation failed.
+ */
+export interface SetSaveResult {
+  ok: boolean;
+  conflict: boolean;
+  /** The set's version after the save, or its current version when refused. */
+  version: number;
+  errors: CardValidationError[];
+}
+
+export type ProgressUpdate = Partial<Omit<CardProgress, 'id' | 'card_id' | 'owner_id'>>;
+
+export interface NewSession {
+  id?: string;
+  set_id: string;
+  mode: StudyModeName;
+}
+export type SessionUpdate = Partial<Pick<
+  StudySession,
+  'ended_at' | 'last_active_at' | 'duration_seconds' | 'abandoned' | 'cards_studied' | 'correct_count' | 'accuracy'
+>>;
+
+export type NewReviewLog = Omit<ReviewLog, 'id' | 'reviewed_at' | 'owner_id'> & { id?: string; reviewed_at?: string };
+
+export type PreferencesUpdate = Partial<Omit<UserPreferences, 'owner_id'>>;
+
+/** Cards waiting in each queue of the spaced review, after the daily limits. */
+export interface DueCounts {
+  new: number;
+  learning: number;
+  due: number;
+  /** Every card in scope, studied or not. */
+  total: number;
+}
+
+export interface DueQueueQuery {
+  /** Start of the learner's local day, from which the daily limits are counted. */
+  dayStart: Date;
+  /** Restricts the queue to one set; all sets otherwise. */
+  setId?: string;
+  /** Caps the cards returned without affecting the counts. */
+  limit?: number;
+  /** Studies the cards in this direction instead of each set's own. */
+  direction?: StudyDirection;
+}
+
+export interface DueQueue {
+  /** Cards to review now, in review order. */
+  items: { card: Card; progress: CardProgress }[];
+  counts: DueCounts;
+  countsBySet: Record<string, DueCounts>;
+}
+
+export interface SetsRepository {
+  /** All sets visible to the current user, most recently updated first. */
+  list(): Promise<FlashcardSet[]>;
+  get(id: string): Promise<FlashcardSet | null>;
+  create(set: NewSet): Promise<FlashcardSet>;
+  update(id: string, changes: SetUpdate): Promise<void>;
+  /** Applies an edit of the set and its cards all at once, or not at all. */
+  save(id: string, changes: SetSave): Promise<SetSaveResult>;
+  /** Deletes the set together with its cards, progress and sessions. */
+  remove(id: string): Promise<void>;
+}
+
+export interface NoteTypesRepository {
+  /** The current user's note types by name. */
+  list(): Promise<NoteType[]>;
+  get(id: string): Promise<NoteType | null>;
+  create(noteType: NewNoteType): Promise<NoteType>;
+  update(id: string, changes: NoteTypeUpdate): Promise<void>;
+  /** Fails while cards still use the note type. */
+  remove(id: string): Promise<void>;
+}
+
+export interface MediaRepository {
+  /** Stores a file; card text then refers to the returned row as media:<id>. */
+  upload(file: Blob): Promise<CardMedia>;
+  /** An address the file can be shown from, or null when it is unknown. */
+  url(id: string): Promise<string | null>;
+  /** Deletes media no card or note template refers to any more and returns their ids. */
+  removeOrphans(): Promise<string[]>;
+}
+
+export interface CardsRepository {
+  /** Every card the current user can see, across all sets. */
+  list(): Promise<Card[]>;
+  /** Cards of a set ordered by `order_index`. */
+  listBySet(setId: string): Promise<Card[]>;
+  /** Note cards of the note type, across all sets. */
+  listByNoteType(noteTypeId: string): Promise<Card[]>;
+  get(id: string): Promise<Card | null>;
+  createMany(cards: NewCard[]): Promise<Card[]>;
+  update(id: string, changes: CardUpdate): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  /** Deletes every card of the set whose id is not in `keepIds`. */
+  removeExcept(setId: string, keepIds: string[]): Promise<void>;
+}
+
+export interface ProgressRepository {
+  list(): Promise<CardProgress[]>;
+  listBySet(setId: string): Promise<CardProgress[]>;
+  /** Rows changed at or after `since`, or every row when it is null, oldest change first. */
+  listChangedSince(since: string | null): Promise<CardProgress[]>;
+  get(id: string): Promise<CardProgress | null>;
+  /**
+   * `ordinal` is the cloze number for cloze cards and 0 (the default) otherwise;
+   * `direction` defaults to forward.
+   */
+  create(cardId: string, id?: string, ordinal?: number, direction?: CardDirection): Promise<CardProgress>;
+  update(id: string, changes: ProgressUpdate): Promise<void>;
+  /** Creates progress for cards never studied, then returns what is due now. */
+  dueQueue(query: DueQueueQuery): Promise<DueQueue>;
+  /** The counts of the due queue without its cards; writes nothing. */
+  dueCounts(query: Omit<DueQueueQuery, 'limit'>): Promise<Pick<DueQueue, 'counts' | 'countsBySet'>>;
+}
+
+export interface SessionsRepository {
+  create(session: NewSession): Promise<StudySession>;
+  update(id: string, changes: SessionUpdate): Promise<void>;
+  /** Sessions started at or after `since` (and before `until`, if given), oldest first. */
+  listSince(since: Date, until?: Date): Promise<StudySession[]>;
+  /** Local days, as yyyy-MM-dd, with at least one card studied, over the whole history and oldest first. */
+  studyDays(): Promise<string[]>;
+  /** Sessions that were started but never ended. */
+  listOpen(): Promise<StudySession[]>;
+}
+
+export interface ReviewLogsRepository {
+  create(log: NewReviewLog): Promise<ReviewLog>;
+  /** Answers given at or after `since` (and before `until`, if given), oldest first. */
+  listSince(since: Date, until?: Date): Promise<ReviewLog[]>;
+}
+
+export interface PreferencesRepository {
+  /** The current user's preferences, or null if they never changed a default. */
+  get(): Promise<UserPreferences | null>;
+  save(changes: PreferencesUpdate): Promise<UserPreferences>;
+}
+
+export interface Repository {
+  sets: SetsRepository;
+  cards: CardsRepository;
+  noteTypes: NoteTypesRepository;
+  media: MediaRepository;
+  progress: ProgressRepository;
+  sessions: SessionsRepository;
+  reviewLogs: ReviewLogsRepository;
+  preferences: PreferencesRepository;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { CardProgress, FlashcardSet, ReviewLog } from '@/types/flashcard';
+import { buildDueQueue, DueItem, isDueWithinSession, orderDueQueue } from './reviewQueue';
+
+const now = new Date(2025, 11, 10, 12);
+const dayStart = new Date(2025, 11, 10);
+const minutes = (n: number) => new Date(now.getTime() + n * 60_000).toISOString();
+
+const setWith = (id: string, changes: Partial<FlashcardSet> = {}) =>
+  ({ id, title: id, new_cards_per_day: 2, max_reviews_per_day: 2, ...changes }) as FlashcardSet;
+
+const item = (id: string, set: FlashcardSet, progress: Partial<CardProgress>, order_index = 0) => ({
+  card: { id, set_id: set.id, order_index },
+  progress: { id: `progress-${id}`, card_id: id, ordinal: 0, direction: 'forward', next_review: now.toISOString(), ...progress },
+  set
+}) as DueItem;
+
+const ids = (items: DueItem[]) => items.map(i => i.card.id);
+
+describe('buildDueQueue', () => {
+  it('holds back new cards and reviews over the daily limits but never learning cards', () => {
+    const set = setWith('set-1');
+    const items = [
+      item('new-1', set, { state: 'new' }, 1),
+      item('new-2', set, { state: 'new' }, 2),
+      item('new-3', set, { state: 'new' }, 3),
+      item('review-1', set, { state: 'review', next_review: minutes(-60) }),
+      item('review-2', set, { state: 'review', next_review: minutes(-30) }),
+      item('review-3', set, { state: 'review', next_review: minutes(-10) }),
+      item('review-later', set, { state: 'review', next_review: minutes(60) }),
+      item('learning-1', set, { state: 'learning', next_review: minutes(-5) }),
+      item('learning-2', set, { state: 'relearning', next_review: minutes(15) }),
+      item('learning-later', set, { state: 'learning', next_review: minutes(30) })
+    ];
+    const logs = [{ mode: 'spaced', set_id: set.id, card_id: 'old', ordinal: 0, direction: 'forward', state: 'review' }] as ReviewLog[];
+
+    const queue = buildDueQueue(items, logs, { now, dayStart });
+
+    expect(queue.counts).toEqual({ new: 2, learning: 2, due: 1, total: 10 });
+    expect(ids(queue.items)).toEqual(['review-1', 'learning-1', 'learning-2', 'new-1', 'new-2']);
+  });
+
+  it('counts each set against its own limits and stops at the limit asked for', () => {
+    const a = setWith('set-a', { new_cards_per_day: 1 });
+    const b = setWith('set-b', { new_cards_per_day: 1 });
+    const items = [item('a-1', a, { state: 'new' }), item('a-2', a, { state: 'new' }), item('b-1', b, { state: 'new' })];
+
+    const queue = buildDueQueue(items, [], { now, dayStart, limit: 1 });
+
+    expect(queue.countsBySet).toMatchObject({ 'set-a': { new: 1 }, 'set-b': { new: 1 } });
+    expect(queue.counts.new).toBe(2);
+    expect(queue.items).toHaveLength(1);
+  });
+});
+
+describe('orderDueQueue', () => {
+  it('puts overdue cards first and takes a card from each set in turn', () => {
+    const a = setWith('set-a');
+    const b = setWith('set-b');
+    const yesterday = new Date(dayStart.getTime() - 3_600_000).toISOString();
+    const items = [
+      item('a-today-1', a, { state: 'review', next_review: minutes(-120) }),
+      item('a-today-2', a, { state: 'review', next_review: minutes(-60) }),
+      item('b-today', b, { state: 'review', next_review: minutes(-90) }),
+      item('b-overdue', b, { state: 'review', next_review: yesterday }),
+      item('a-new', a, { state: 'new' })
+    ];
+
+    expect(ids(orderDueQueue(items, dayStart))).toEqual(['b-overdue', 'a-today-1', 'b-today', 'a-today-2', 'a-new']);
+  });
+});
+
+describe('isDueWithinSession', () => {
+  it('brings back learning cards due within the learn-ahead window', () => {
+    expect(isDueWithinSession({ state: 'learning', next_review: minutes(10) }, now)).toBe(true);
+    expect(isDueWithinSession({ state: 'learning', next_review: minutes(30) }, now)).toBe(false);
+    expect(isDueWithinSession({ state: 'review', next_review: minutes(0) }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import type { DueCounts } from '@/lib/repository/types';
+import { pickSetSettings } from '@/lib/setSettings';
+import { itemKey } from '@/lib/studyItems';
+import { Card, CardProgress, CardState, FlashcardSet, NoteType, ReviewLog } from '@/types/flashcard';
+
+/** Learning cards due within this window are shown now instead of leaving the learner waiting. */
+export const LEARN_AHEAD_MS = 20 * 60_000;
+
+export interface DueItem {
+  card: Card;
+  progress: CardProgress;
+  set: FlashcardSet;
+  /** The note type a note card is rendered with. */
+  noteType?: NoteType;
+}
+
+export interface StudiedToday {
+  newCards: number;
+  reviews: number;
+}
+
+const isLearning = (progress: CardProgress) => progress.state === 'learning' || progress.state === 'relearning';
+
+/** Whether a card just answered should come back before the session ends. */
+export const isDueWithinSession = (progress: Pick<CardProgress, 'state' | 'next_review'>, now: Date) =>
+  (progress.state === 'learning' || progress.state === 'relearning') &&
+  Date.parse(progress.next_review) <= now.getTime() + LEARN_AHEAD_MS;
+
+/** New cards introduced and reviews answered today in spaced mode, per set. */
+export function studiedTodayBySet(todaysLogs: ReviewLog[]): Map<string, StudiedToday> {
+  const newCards = new Map<string, Set<string>>();
+  const studied = new Map<string, StudiedToday>();
+  for (const log of todaysLogs) {
+    if (log.mode !== 'spaced') continue;
+    const counts = studied.get(log.set_id) ?? { newCards: 0, reviews: 0 };
+    if (log.state === 'new') {
+      const cards = newCards.get(log.set_id) ?? new Set();
+      cards.add(itemKey(log.card_id, log.ordinal ?? 0, log.direction ?? 'forward'));
+      newCards.set(log.set_id, cards);
+      counts.newCards = cards.size;
+    } else if (log.state === 'review') {
+      counts.reviews++;
+    }
+    studied.set(log.set_id, counts);
+  }
+  return studied;
+}
+
+/** Which of the review queues a card waits in. */
+export const dueQueueOf = (state: CardState): Exclude<keyof DueCounts, 'total'> =>
+  state === 'new' ? 'new' : state === 'review' ? 'due' : 'learning';
+
+const byDueDate = (a: DueItem, b: DueItem) =>
+  Date.parse(a.progress.next_review) - Date.parse(b.progress.next_review);
+
+/** The set's cards to study now after its daily limits; learning cards are never held back. */
+function selectForSet(items: DueItem[], studied: StudiedToday | undefined, now: Date) {
+  const settings = pickSetSettings(items[0].set);
+  const nowMs = now.getTime();
+
+  const learning = items.filter(({ progress }) =>
+    isLearning(progress) && Date.parse(progress.next_review) <= nowMs + LEARN_AHEAD_MS
+  );
+  const reviews = items
+    .filter(({ progress }) => progress.state === 'review' && Date.parse(progress.next_review) <= nowMs)
+    .sort(byDueDate)
+    .slice(0, Math.max(0, settings.max_reviews_per_day - (studied?.reviews ?? 0)));
+  const fresh = items
+    .filter(({ progress }) => progress.state === 'new')
+    .sort((a, b) => a.card.order_index - b.card.order_index)
+    .slice(0, Math.max(0, settings.new_cards_per_day - (studied?.newCards ?? 0)));
+
+  const counts: DueCounts = {
+    new: fresh.length,
+    learning: learning.length,
+    due: reviews.length,
+    total: items.length
+  };
+  return { due: [...learning, ...reviews, ...fresh], counts };
+}
+
+// Takes one card from each set in turn so a large set cannot crowd out the rest;
+// sets whose cards have waited longest go first
+function interleaveBySet(items: DueItem[]): DueItem[] {
+  const bySet = new Map<string, DueItem[]>();
+  for (const item of items) {
+    const queue = bySet.get(item.set.id) ?? [];
+    queue.push(item);
+    bySet.set(item.set.id, queue);
+  }
+
+  const firstDue = (queue: DueItem[]) => Math.min(...queue.map(item => Date.parse(item.progress.next_review)));
+  const queues = [...bySet.values()].sort((a, b) =>
+    firstDue(a) - firstDue(b) || a[0].set.id.localeCompare(b[0].set.id)
+  );
+  const longest = Math.max(0, ...queues.map(q => q.length));
+  const result: DueItem[] = [];
+  for (let i = 0; i < longest; i++) {
+    for (const queue of queues) {
+      if (i < queue.length) result.push(queue[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Overdue cards (due before today) first, then the rest of today's reviews and
+ * learning cards, then new cards in set order; each group interleaved by set.
+ */
+export function orderDueQueue(items: DueItem[], dayStart: Date): DueItem[] {
+  const today = dayStart.getTime();
+
+  const fresh = items
+    .filter(item => item.progress.state === 'new')
+    .sort((a, b) => a.card.order_index - b.card.order_index || byDueDate(a, b));
+  const seen = items.filter(item => item.progress.state !== 'new').sort(byDueDate);
+  const overdue = seen.filter(item => Date.parse(item.progress.next_review) < today);
+  const dueToday = seen.filter(item => Date.parse(item.progress.next_review) >= today);
+
+  return [...interleaveBySet(overdue), ...interleaveBySet(dueToday), ...interleaveBySet(fresh)];
+}
+
+const sumCounts = (all: DueCounts[]): DueCounts =>
+  all.reduce(
+    (sum, counts) => ({
+      new: sum.new + counts.new,
+      learning: sum.learning + counts.learning,
+      due: sum.due + counts.due,
+      total: sum.total + counts.total
+    }),
+    { new: 0, learning: 0, due: 0, total: 0 }
+  );
+
+/**
+ * The due queue worked out on the client, matching the `get_due_queue`
+ * database function. Every card is expected to have its progress row.
+ */
+export function buildDueQueue(
+  items: DueItem[],
+  todaysLogs: ReviewLog[],
+  { now, dayStart, limit }: { now: Date; dayStart: Date; limit?: number }
+): { items: DueItem[]; counts: DueCounts; countsBySet: Record<string, DueCounts> } {
+  const studied = studiedTodayBySet(todaysLogs);
+
+  const bySet = new Map<string, DueItem[]>();
+  for (const item of items) {
+    const setItems = bySet.get(item.set.id) ?? [];
+    setItems.push(item);
+    bySet.set(item.set.id, setItems);
+  }
+
+  const due: DueItem[] = [];
+  const countsBySet: Record<string, DueCounts> = {};
+  for (const [setId, setItems] of bySet) {
+    const selected = selectForSet(setItems, studied.get(setId), now);
+    due.push(...selected.due);
+    countsBySet[setId] = selected.counts;
+  }
+
+  const ordered = orderDueQueue(due, dayStart);
+  return {
+    items: limit === undefined ? ordered : ordered.slice(0, limit),
+    counts: sumCounts(Object.values(countsBySet)),
+    countsBySet
+  };
+}
@@ -0,0 +1,49 @@
+import { repository } from '@/lib/repository';
+import type { Difficulty } from '@/lib/spacedRepetition';
+import { CardDirection, CardState, StudyModeName } from '@/types/flashcard';
+
+export interface ReviewEvent {
+  cardId: string;
+  /** Cloze number answered, for cloze cards. */
+  ordinal?: number;
+  direction?: CardDirection;
+  setId: string;
+  sessionId: string | null;
+  mode: StudyModeName;
+  /** Spaced mode's self-assessed grade. */
+  grade?: Difficulty;
+  /** Whether a typed or multiple-choice answer was right. */
+  correct?: boolean;
+  answer?: string;
+  responseTimeMs?: number;
+  intervalBefore?: number;
+  intervalAfter?: number;
+  /** State of the card before this answer, for spaced reviews. */
+  state?: CardState;
+}
+
+/**
+ * Records a single answer. Logging must never interrupt studying, so failures
+ * are reported to the console instead of thrown.
+ */
+export async function recordReview(event: ReviewEvent): Promise<void> {
+  try {
+    await repository.reviewLogs.create({
+      card_id: event.cardId,
+      ordinal: event.ordinal ?? 0,
+      direction: event.direction ?? 'forward',
+      set_id: event.setId,
+      session_id: event.sessionId,
+      mode: event.mode,
+      grade: event.grade ?? null,
+      correct: event.correct ?? null,
+      answer: event.answer ?? null,
+      response_time_ms: event.responseTimeMs ?? null,
+      interval_before: event.intervalBefore ?? null,
+      interval_after: event.intervalAfter ?? null,
+      state: event.state ?? null
+    });
+  } catch (error) {
+    console.error('Failed to record review', error);
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CardSnapshot, defaultChoices, findConflicts, mergeCards, sameFields } from './setMerge';
+
+const card = (id: string, front: string, changes: Partial<CardSnapshot> = {}): CardSnapshot => ({
+  id,
+  front,
+  back: `${front} back`,
+  card_type: 'term',
+  note_type_id: null,
+  fields: null,
+  occlusions: null,
+  ...changes
+});
+
+const details = { title: 'French', description: null };
+
+describe('findConflicts', () => {
+  it('reports cards the other device changed only where the local edit disagrees', () => {
+    const base = [card('a', 'one'), card('b', 'two'), card('c', 'three')];
+    const mine = [card('a', 'one, edited'), card('b', 'two, same edit'), card('c', 'three')];
+    const theirs = [card('a', 'one, theirs'), card('b', 'two, same edit'), card('c', 'three, theirs'), card('d', 'four')];
+
+    const conflict = findConflicts({ details, cards: base }, { details, cards: mine }, { details, cards: theirs });
+
+    expect(conflict.cards.map(({ id, localChange, remoteChange }) => [id, localChange, remoteChange])).toEqual([
+      ['a', 'changed', 'changed'],
+      ['c', 'unchanged', 'changed'],
+      ['d', 'unchanged', 'added']
+    ]);
+    expect(conflict.details).toBeNull();
+  });
+
+  it('reports a card the other device removed and details both sides changed', () => {
+    const base = [card('a', 'one')];
+    const conflict = findConflicts(
+      { details, cards: base },
+      { details: { ...details, title: 'French A1' }, cards: [card('a', 'one, edited')] },
+      { details: { ...details, title: 'French verbs' }, cards: [] }
+    );
+
+    expect(conflict.cards).toMatchObject([{ id: 'a', theirs: null, localChange: 'changed', remoteChange: 'removed' }]);
+    expect(conflict.details).toEqual({ mine: { ...details, title: 'French A1' }, theirs: { ...details, title: 'French verbs' } });
+  });
+});
+
+describe('defaultChoices', () => {
+  it('keeps local edits and takes the other device where nothing changed here', () => {
+    const conflict = findConflicts(
+      { details, cards: [card('a', 'one'), card('b', 'two')] },
+      { details, cards: [card('a', 'one, edited'), card('b', 'two')] },
+      { details: { ...details, title: 'French verbs' }, cards: [card('a', 'one, theirs'), card('b', 'two, theirs')] }
+    );
+
+    expect(defaultChoices(conflict, details)).toEqual({ cards: { a: 'mine', b: 'theirs' }, details: 'theirs' });
+  });
+});
+
+describe('mergeCards', () => {
+  it('takes each conflicting card from the chosen side and appends cards only they have', () => {
+    const mine = [card('a', 'mine'), card('b', 'mine'), card('c', 'mine')];
+    const theirs = [card('a', 'theirs'), card('c', 'theirs'), card('d', 'theirs'), card('e', 'theirs')];
+    const conflicts = findConflicts(
+      { details, cards: [card('a', 'base'), card('b', 'base'), card('c', 'base')] },
+      { details, cards: mine },
+      { details, cards: theirs }
+    ).cards;
+
+    const merged = mergeCards(mine, theirs, conflicts, { a: 'theirs', b: 'theirs', c: 'mine', d: 'theirs', e: 'mine' });
+
+    expect(merged.map(({ id, front }) => `${id}:${front}`)).toEqual(['a:theirs', 'c:mine', 'd:theirs']);
+  });
+});
+
+describe('sameFields', () => {
+  it('counts missing and empty fields as equal', () => {
+    expect(sameFields({ Word: 'chat', Notes: '' }, { Word: 'chat' })).toBe(true);
+    expect(sameFields({ Word: 'chat' }, { Word: 'chien' })).toBe(false);
+  });
+});
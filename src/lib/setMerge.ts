@@ -0,0 +1,141 @@
+import { Card, FlashcardSet } from '@/types/flashcard';
+
+/** The parts of a card the editor changes. */
+export type CardSnapshot = Pick<Card, 'id' | 'front' | 'back' | 'card_type' | 'note_type_id' | 'fields' | 'occlusions'>;
+export type SetDetails = Pick<FlashcardSet, 'title' | 'description'>;
+
+export type CardChange = 'added' | 'removed' | 'changed' | 'unchanged';
+export type MergeChoice = 'mine' | 'theirs';
+
+/** A card the other device touched, next to the local copy of it. */
+export interface CardConflict {
+  id: string;
+  /** Null when the card is not (or no longer) in the local edit. */
+  mine: CardSnapshot | null;
+  /** Null when the other device removed the card. */
+  theirs: CardSnapshot | null;
+  localChange: CardChange;
+  remoteChange: CardChange;
+}
+
+export interface DetailsConflict {
+  mine: SetDetails;
+  theirs: SetDetails;
+}
+
+export interface SetConflict {
+  cards: CardConflict[];
+  /** Null unless the other device changed the title or description differently. */
+  details: DetailsConflict | null;
+}
+
+export interface MergeChoices {
+  cards: Record<string, MergeChoice>;
+  details: MergeChoice;
+}
+
+/** Whether two notes have the same field values; missing and empty fields count as equal. */
+export const sameFields = (a: CardSnapshot['fields'], b: CardSnapshot['fields']) => {
+  const names = new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]);
+  return [...names].every(name => (a?.[name] ?? '') === (b?.[name] ?? ''));
+};
+
+/** Whether two occlusion cards mask the same regions with the same labels, in the same order. */
+export const sameRegions = (a: CardSnapshot['occlusions'], b: CardSnapshot['occlusions']) => {
+  const mine = a ?? [];
+  const theirs = b ?? [];
+  return mine.length === theirs.length && mine.every((region, i) =>
+    region.ordinal === theirs[i].ordinal &&
+    region.x === theirs[i].x &&
+    region.y === theirs[i].y &&
+    region.width === theirs[i].width &&
+    region.height === theirs[i].height &&
+    region.label === theirs[i].label
+  );
+};
+
+const sameCard = (a: CardSnapshot | null, b: CardSnapshot | null) =>
+  a === b || (
+    !!a && !!b &&
+    a.front === b.front &&
+    a.back === b.back &&
+    a.card_type === b.card_type &&
+    (a.note_type_id ?? null) === (b.note_type_id ?? null) &&
+    sameFields(a.fields, b.fields) &&
+    sameRegions(a.occlusions, b.occlusions)
+  );
+
+const sameDetails = (a: SetDetails, b: SetDetails) =>
+  a.title === b.title && (a.description ?? '') === (b.description ?? '');
+
+function changeOf(base: CardSnapshot | null, current: CardSnapshot | null): CardChange {
+  if (!base) return current ? 'added' : 'unchanged';
+  if (!current) return 'removed';
+  return sameCard(base, current) ? 'unchanged' : 'changed';
+}
+
+/**
+ * What the other device changed since the edit started from `base`, where the
+ * local edit disagrees with it. Changes both sides made alike are left out.
+ */
+export function findConflicts(
+  base: { details: SetDetails; cards: CardSnapshot[] },
+  mine: { details: SetDetails; cards: CardSnapshot[] },
+  theirs: { details: SetDetails; cards: CardSnapshot[] }
+): SetConflict {
+  const byId = (cards: CardSnapshot[]) => new Map(cards.map(card => [card.id, card]));
+  const baseCards = byId(base.cards);
+  const myCards = byId(mine.cards);
+  const theirCards = byId(theirs.cards);
+
+  const ids = new Set([...mine.cards, ...theirs.cards, ...base.cards].map(card => card.id));
+  const cards: CardConflict[] = [];
+  for (const id of ids) {
+    const original = baseCards.get(id) ?? null;
+    const myCard = myCards.get(id) ?? null;
+    const theirCard = theirCards.get(id) ?? null;
+    const remoteChange = changeOf(original, theirCard);
+    if (remoteChange === 'unchanged' || sameCard(myCard, theirCard)) continue;
+    cards.push({ id, mine: myCard, theirs: theirCard, localChange: changeOf(original, myCard), remoteChange });
+  }
+
+  const detailsChanged = !sameDetails(base.details, theirs.details) && !sameDetails(mine.details, theirs.details);
+  return {
+    cards,
+    details: detailsChanged ? { mine: mine.details, theirs: theirs.details } : null
+  };
+}
+
+/** Untouched local cards take the other device's version; local edits are kept by default. */
+export function defaultChoices(conflict: SetConflict, base: SetDetails): MergeChoices {
+  return {
+    cards: Object.fromEntries(
+      conflict.cards.map(card => [card.id, card.localChange === 'unchanged' ? 'theirs' : 'mine'])
+    ),
+    details: conflict.details && sameDetails(base, conflict.details.mine) ? 'theirs' : 'mine'
+  };
+}
+
+/**
+ * The local cards with each conflicting card taken from the chosen side. Cards
+ * only the other device has are appended in its order.
+ */
+export function mergeCards(
+  mine: CardSnapshot[],
+  theirs: CardSnapshot[],
+  conflicts: CardConflict[],
+  choices: Record<string, MergeChoice>
+): CardSnapshot[] {
+  const conflictsById = new Map(conflicts.map(conflict => [conflict.id, conflict]));
+  const merged: CardSnapshot[] = [];
+  for (const card of mine) {
+    const conflict = conflictsById.get(card.id);
+    if (!conflict || choices[card.id] === 'mine') merged.push(card);
+    else if (conflict.theirs) merged.push(conflict.theirs);
+  }
+  for (const card of theirs) {
+    const conflict = conflictsById.get(card.id);
+    if (conflict && !conflict.mine && choices[card.id] === 'theirs') merged.push(card);
+  }
+  return merged;
+}
@@ -0,0 +1,90 @@
+import { FlashcardSet } from '@/types/flashcard';
+import type { SchedulingOptions } from '@/lib/spacedRepetition';
+
+/** Per-set study options edited alongside the title and description. */
+export type SetSettingsValue = Pick<
+  FlashcardSet,
+  | 'scheduler'
+  | 'target_retention'
+  | 'new_cards_per_day'
+  | 'max_reviews_per_day'
+  | 'learning_steps'
+  | 'relearning_steps'
+  | 'study_direction'
+  | 'front_language'
+  | 'back_language'
+  | 'definition_length'
+  | 'reading_level'
+  | 'definition_language'
+  | 'include_example'
+>;
+
+export const DEFAULT_SET_SETTINGS: SetSettingsValue = {
+  scheduler: 'sm2',
+  target_retention: 0.9,
+  new_cards_per_day: 20,
+  max_reviews_per_day: 200,
+  learning_steps: [1, 10],
+  relearning_steps: [10],
+  study_direction: 'forward',
+  front_language: null,
+  back_language: null,
+  definition_length: 'short',
+  reading_level: 'general',
+  definition_language: null,
+  include_example: false
+};
+
+// Rows mirrored locally before a setting existed lack the field, so fall back per key
+export function pickSetSettings(set: FlashcardSet): SetSettingsValue {
+  return {
+    scheduler: set.scheduler ?? DEFAULT_SET_SETTINGS.scheduler,
+    target_retention: set.target_retention ?? DEFAULT_SET_SETTINGS.target_retention,
+    new_cards_per_day: set.new_cards_per_day ?? DEFAULT_SET_SETTINGS.new_cards_per_day,
+    max_reviews_per_day: set.max_reviews_per_day ?? DEFAULT_SET_SETTINGS.max_reviews_per_day,
+    learning_steps: set.learning_steps ?? DEFAULT_SET_SETTINGS.learning_steps,
+    relearning_steps: set.relearning_steps ?? DEFAULT_SET_SETTINGS.relearning_steps,
+    study_direction: set.study_direction ?? DEFAULT_SET_SETTINGS.study_direction,
+    front_language: set.front_language ?? DEFAULT_SET_SETTINGS.front_language,
+    back_language: set.back_language ?? DEFAULT_SET_SETTINGS.back_language,
+    definition_length: set.definition_length ?? DEFAULT_SET_SETTINGS.definition_length,
+    reading_level: set.reading_level ?? DEFAULT_SET_SETTINGS.reading_level,
+    definition_language: set.definition_language ?? DEFAULT_SET_SETTINGS.definition_language,
+    include_example: set.include_example ?? DEFAULT_SET_SETTINGS.include_example
+  };
+}
+
+export function schedulingOptions(set: FlashcardSet | null): SchedulingOptions {
+  const settings = set ? pickSetSettings(set) : DEFAULT_SET_SETTINGS;
+  return {
+    algorithm: settings.scheduler,
+    targetRetention: settings.target_retention,
+    learningSteps: settings.learning_steps,
+    relearningSteps: settings.relearning_steps
+  };
+}
+
+const STEP_UNITS: Record<string, number> = { m: 1, h: 60, d: 1440 };
+
+/** Formats step delays in minutes as e.g. `1m 10m 1h`. */
+export function formatSteps(steps: number[]): string {
+  return steps
+    .map(minutes => {
+      if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+      if (minutes % 60 === 0) return `${minutes / 60}h`;
+      return `${minutes}m`;
+    })
+    .join(' ');
+}
+
+/** Parses steps like `1m 10m 1h 1d` into minutes; null when any part is invalid. */
+export function parseSteps(text: string): number[] | null {
+  const parts = text.trim().split(/[\s,]+/).filter(Boolean);
+  const steps: number[] = [];
+  for (const part of parts) {
+    const match = /^(\d+)([mhd]?)$/i.exec(part);
+    if (!match || Number(match[1]) === 0) return null;
+    steps.push(Number(match[1]) * STEP_UNITS[(match[2] || 'm').toLowerCase()]);
+  }
+  return steps;
+}
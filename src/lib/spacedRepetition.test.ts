@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMinutes } from 'date-fns';
+import type { CardProgress } from '@/types/flashcard';
+import { calculateNextReview, scheduleReview, SchedulingOptions } from './spacedRepetition';
+
+const now = new Date(2025, 11, 10, 9);
+const steps = { learningSteps: [1, 10], relearningSteps: [10] };
+const fresh = { ease_factor: 2.5, interval: 0, repetitions: 0, state: 'new' as const, step: 0 };
+
+const progress = (changes: Partial<CardProgress> = {}): CardProgress => ({
+  id: 'progress-1',
+  card_id: 'card-1',
+  ordinal: 0,
+  direction: 'forward',
+  ...fresh,
+  next_review: now.toISOString(),
+  last_reviewed: null,
+  stability: null,
+  difficulty: null,
+  lapses: 0,
+  owner_id: null,
+  ...changes
+});
+
+describe('calculateNextReview learning steps', () => {
+  it('walks a new card through its steps before the first whole-day interval', () => {
+    const first = calculateNextReview(fresh, 'good', steps, now);
+    expect(first).toMatchObject({ state: 'learning', step: 1, next_review: addMinutes(now, 10) });
+
+    const graduated = calculateNextReview(first, 'good', steps, now);
+    expect(graduated).toMatchObject({ state: 'review', step: 0, interval: 1, repetitions: 1, next_review: addDays(now, 1) });
+  });
+
+  it('waits halfway to the second step when the first is answered hard', () => {
+    expect(calculateNextReview(fresh, 'hard', steps, now).next_review).toEqual(addMinutes(now, 5.5));
+  });
+
+  it('starts the steps over on again and skips them on easy', () => {
+    const learning = { ...fresh, state: 'learning' as const, step: 1 };
+
+    expect(calculateNextReview(learning, 'again', steps, now)).toMatchObject({ step: 0, next_review: addMinutes(now, 1) });
+    expect(calculateNextReview(learning, 'easy', steps, now)).toMatchObject({ state: 'review', interval: 4 });
+  });
+
+  it('sends a lapsed card through relearning and back to its new interval', () => {
+    const review = { ease_factor: 2.5, interval: 20, repetitions: 5, state: 'review' as const, step: 0 };
+
+    const lapsed = calculateNextReview(review, 'again', steps, now);
+    expect(lapsed).toMatchObject({ state: 'relearning', step: 0, interval: 1, next_review: addMinutes(now, 10) });
+    expect(calculateNextReview(lapsed, 'good', steps, now)).toMatchObject({ state: 'review', interval: 1 });
+  });
+
+  it('schedules in whole days when there are no steps', () => {
+    expect(calculateNextReview(fresh, 'again', undefined, now)).toMatchObject({ state: 'learning', interval: 1 });
+  });
+});
+
+describe('scheduleReview', () => {
+  const fsrs: SchedulingOptions = { algorithm: 'fsrs', targetRetention: 0.9, ...steps };
+
+  it('keeps a new FSRS card in its steps and counts lapses only from review', () => {
+    const first = scheduleReview(progress(), 'good', fsrs, now);
+    expect(first).toMatchObject({ state: 'learning', step: 1, lapses: 0 });
+    expect(first.stability).toBeGreaterThan(0);
+
+    const lapse = scheduleReview(progress({ state: 'review', interval: 10, stability: 10, difficulty: 5 }), 'again', fsrs, now);
+    expect(lapse).toMatchObject({ state: 'relearning', lapses: 1 });
+  });
+
+  it('treats rows from before learning steps as step 0', () => {
+    const old = progress({ state: 'learning', step: undefined as unknown as number });
+
+    expect(scheduleReview(old, 'good', { ...fsrs, algorithm: 'sm2' }, now)).toMatchObject({ step: 1 });
+  });
+});
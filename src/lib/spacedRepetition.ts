@@ -1,21 +1,117 @@
+import { CardProgress, CardState, SchedulerAlgorithm } from '@/types/flashcard';
+import { addDays, addMinutes } from 'date-fns';
+import { memoryStateFromSm2, nextIntervalDays, nextMemoryState } from './fsrs';
+
 export type Difficulty = 'again' | 'hard' | 'good' | 'easy';
 
+/** Learning and relearning step delays, in minutes. */
+export interface LearningSteps {
+  learningSteps: number[];
+  relearningSteps: number[];
+}
+
+const NO_STEPS: LearningSteps = { learningSteps: [], relearningSteps: [] };
+
+/** Days until the first review of a card that finishes its learning steps. */
+const GRADUATING_INTERVAL = 1;
+const EASY_INTERVAL = 4;
+
+export type Sm2State = Pick<CardProgress, 'ease_factor' | 'interval' | 'repetitions' | 'state' | 'step'>;
+
 export interface SpacedRepetitionResult {
   ease_factor: number;
   interval: number;
   repetitions: number;
   next_review: Date;
+  state: CardState;
+  step: number;
+}
+
+interface StepPlacement {
+  state: 'learning' | 'relearning';
+  step: number;
+  minutes: number;
+}
+
+const stepsFor = (state: CardState, steps: LearningSteps) =>
+  state === 'relearning' ? steps.relearningSteps : steps.learningSteps;
+
+/** Whether the card is working through intraday steps rather than whole-day intervals. */
+const inSteps = (state: CardState, steps: LearningSteps) =>
+  state !== 'review' && stepsFor(state, steps).length > 0;
+
+/**
+ * Where an answer puts the card within its learning or relearning steps, or
+ * null when it is next scheduled in whole days.
+ */
+function nextStep(state: CardState, step: number, difficulty: Difficulty, steps: LearningSteps): StepPlacement | null {
+  if (state === 'review') {
+    return difficulty === 'again' && steps.relearningSteps.length > 0
+      ? { state: 'relearning', step: 0, minutes: steps.relearningSteps[0] }
+      : null;
+  }
+
+  const list = stepsFor(state, steps);
+  if (list.length === 0 || difficulty === 'easy') return null;
+
+  const stepState = state === 'relearning' ? 'relearning' : 'learning';
+  const current = Math.min(step, list.length - 1);
+  if (difficulty === 'again') {
+    return { state: stepState, step: 0, minutes: list[0] };
+  }
+  if (difficulty === 'hard') {
+    // Repeating the first step waits halfway to the second, as Anki does
+    const minutes = current === 0 && list.length > 1 ? (list[0] + list[1]) / 2 : list[current];
+    return { state: stepState, step: current, minutes };
+  }
+  return current + 1 < list.length
+    ? { state: stepState, step: current + 1, minutes: list[current + 1] }
+    : null;
+}
+
+// State after an answer scheduled in whole days
+function dayState(state: CardState, difficulty: Difficulty): CardState {
+  if (difficulty !== 'again') return 'review';
+  if (state === 'review') return 'relearning';
+  return state === 'new' ? 'learning' : state;
 }
 
 export function calculateNextReview(
-  currentEase: number,
-  currentInterval: number,
-  currentRepetitions: number,
-  difficulty: Difficulty
+  current: Sm2State,
+  difficulty: Difficulty,
+  steps: LearningSteps = NO_STEPS,
+  now: Date = new Date()
 ): SpacedRepetitionResult {
-  let ease = currentEase;
-  let interval = currentInterval;
-  let repetitions = currentRepetitions;
+  const placement = nextStep(current.state, current.step, difficulty, steps);
+
+  if (inSteps(current.state, steps)) {
+    if (placement) {
+      return {
+        ease_factor: current.ease_factor,
+        interval: current.interval,
+        repetitions: current.repetitions,
+        next_review: addMinutes(now, placement.minutes),
+        state: placement.state,
+        step: placement.step
+      };
+    }
+    // Graduating; relearning cards return to the interval set when they lapsed
+    const interval = current.state === 'relearning'
+      ? Math.max(1, current.interval)
+      : difficulty === 'easy' ? EASY_INTERVAL : GRADUATING_INTERVAL;
+    return {
+      ease_factor: current.ease_factor,
+      interval,
+      repetitions: current.repetitions + 1,
+      next_review: addDays(now, interval),
+      state: 'review',
+      step: 0
+    };
+  }
+
+  let ease = current.ease_factor;
+  let interval = current.interval;
+  let repetitions = current.repetitions;
 
   switch (difficulty) {
     case 'again':
@@ -39,13 +135,73 @@ export function calculateNextReview(
       break;
   }
 
-  const next_review = new Date();
-  next_review.setDate(next_review.getDate() + interval);
-
   return {
     ease_factor: ease,
     interval,
     repetitions,
-    next_review
+    next_review: placement ? addMinutes(now, placement.minutes) : addDays(now, interval),
+    state: placement ? placement.state : dayState(current.state, difficulty),
+    step: placement?.step ?? 0
   };
-}
\ No newline at end of file
+}
+
+export interface SchedulingOptions extends LearningSteps {
+  algorithm: SchedulerAlgorithm;
+  /** Desired probability of recall at review time (FSRS only). */
+  targetRetention: number;
+}
+
+export interface ReviewOutcome {
+  ease_factor: number;
+  interval: number;
+  repetitions: number;
+  next_review: Date;
+  stability: number | null;
+  difficulty: number | null;
+  lapses: number;
+  state: CardState;
+  step: number;
+}
+
+/** Grades a review with the set's chosen algorithm. */
+export function scheduleReview(
+  progress: CardProgress,
+  difficulty: Difficulty,
+  options: SchedulingOptions,
+  now: Date = new Date()
+): ReviewOutcome {
+  const lapses = progress.state === 'review' && difficulty === 'again' ? progress.lapses + 1 : progress.lapses;
+  // Rows created before learning steps existed have no step yet
+  const current = { ...progress, step: progress.step ?? 0 };
+
+  if (options.algorithm === 'sm2') {
+    const result = calculateNextReview(current, difficulty, options, now);
+    return { ...result, stability: progress.stability, difficulty: progress.difficulty, lapses };
+  }
+
+  // Cards last graded by SM-2 get a memory state derived from their ease and interval
+  const memory = progress.stability != null && progress.difficulty != null
+    ? { stability: progress.stability, difficulty: progress.difficulty }
+    : progress.state === 'new'
+    ? null
+    : memoryStateFromSm2(progress.ease_factor, progress.interval);
+
+  // FSRS ignores same-day answers, so steps only seed the memory state of a brand-new card
+  const stepping = inSteps(progress.state, options);
+  const lastReviewed = progress.last_reviewed ? new Date(progress.last_reviewed) : null;
+  const next = stepping && memory ? memory : nextMemoryState(memory, difficulty, lastReviewed, now);
+  const interval = nextIntervalDays(next.stability, options.targetRetention);
+  const placement = nextStep(progress.state, current.step, difficulty, options);
+
+  return {
+    ease_factor: progress.ease_factor,
+    interval,
+    repetitions: difficulty === 'again' ? 0 : progress.repetitions + 1,
+    next_review: placement ? addMinutes(now, placement.minutes) : addDays(now, interval),
+    stability: next.stability,
+    difficulty: next.difficulty,
+    lapses,
+    state: placement ? placement.state : stepping ? 'review' : dayState(progress.state, difficulty),
+    step: placement?.step ?? 0
+  };
+}
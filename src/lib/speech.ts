@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import { dataBackend } from '@/lib/repository';
+import { playBlob, stopAudio } from '@/lib/audio';
+import { FlashcardSet } from '@/types/flashcard';
+import { clozeMarkdown } from '@/lib/cloze';
+import { markdownToPlainText } from '@/lib/markdown';
+import { renderNote, templateFor } from '@/lib/noteTemplates';
+import { occlusionAnswer } from '@/lib/occlusion';
+import type { StudyItem } from '@/lib/studyItems';
+
+export type SetLanguages = Pick<FlashcardSet, 'front_language' | 'back_language'>;
+
+/** Languages offered for the sides of a set, as BCP 47 tags. */
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'es-ES', name: 'Spanish' },
+  { code: 'fr-FR', name: 'French' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'uk-UA', name: 'Ukrainian' },
+  { code: 'tr-TR', name: 'Turkish' },
+  { code: 'ar-SA', name: 'Arabic' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'id-ID', name: 'Indonesian' },
+  { code: 'th-TH', name: 'Thai' },
+  { code: 'vi-VN', name: 'Vietnamese' },
+  { code: 'zh-CN', name: 'Chinese (Mandarin)' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'ko-KR', name: 'Korean' }
+];
+
+/** Storage bucket the text-to-speech function writes its audio to. */
+export const TTS_BUCKET = 'tts-audio';
+
+/** Voice choice meaning "use the audio generated on the server". */
+export const SERVER_VOICE = 'server';
+
+// Voices differ from device to device, so the choices are kept on the device
+const VOICES_KEY = 'tts-voices';
+const AUTOPLAY_KEY = 'tts-autoplay';
+
+const readVoices = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(VOICES_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+/** The voice picked for a language on this device: a voiceURI, SERVER_VOICE, or null for the default. */
+export const voicePreference = (lang: string | null) => readVoices()[lang ?? ''] ?? null;
+
+export function setVoicePreference(lang: string | null, voice: string | null) {
+  const { [lang ?? '']: _previous, ...voices } = readVoices();
+  localStorage.setItem(VOICES_KEY, JSON.stringify(voice ? { ...voices, [lang ?? '']: voice } : voices));
+}
+
+export const autoplayEnabled = () => localStorage.getItem(AUTOPLAY_KEY) === 'true';
+
+export const setAutoplayEnabled = (enabled: boolean) => localStorage.setItem(AUTOPLAY_KEY, String(enabled));
+
+export const speechSynthesisAvailable = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Whether audio can be generated on the server; not when running purely locally. */
+export const serverSpeechAvailable = () => dataBackend === 'supabase';
+
+/** Installed voices for the language, exact matches first, then voices of the same base language. */
+export function voicesFor(
+  lang: string | null,
+  voices = speechSynthesisAvailable() ? window.speechSynthesis.getVoices() : []
+): SpeechSynthesisVoice[] {
+  if (!lang) return voices;
+  const wanted = lang.toLowerCase();
+  const base = wanted.split('-')[0];
+  const normalized = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().replace('_', '-');
+  return [
+    ...voices.filter(voice => normalized(voice) === wanted),
+    ...voices.filter(voice => normalized(voice) !== wanted && normalized(voice).split('-')[0] === base)
+  ];
+}
+
+export function stopSpeaking() {
+  if (speechSynthesisAvailable()) window.speechSynthesis.cancel();
+  stopAudio();
+}
+
+// Same as the function's naming, so the address of audio is known before asking for it
+async function audioPath(text: string, lang: string | null) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${lang ?? ''}\n${text}`));
+  const hash = [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${lang ?? 'default'}/${hash}.mp3`;
+}
+
+/** Plays audio generated on the server, asking the function for it the first time. */
+async function playServerAudio(text: string, lang: string | null) {
+  const url = supabase.storage.from(TTS_BUCKET).getPublicUrl(await audioPath(text, lang)).data.publicUrl;
+  let response = await fetch(url);
+  if (!response.ok) {
+    const { error } = await supabase.functions.invoke('text-to-speech', { body: { text, lang } });
+    if (error) throw error;
+    response = await fetch(url);
+    if (!response.ok) throw new Error(`Speech audio unavailable: ${response.status}`);
+  }
+  await playBlob(await response.blob());
+}
+
+/**
+ * Reads the text aloud in the language: with the voice picked for it on this
+ * device, else the first installed voice for it, else with audio from the server.
+ */
+export async function speak(text: string, lang: string | null) {
+  stopSpeaking();
+  if (!text.trim()) return;
+
+  const preference = voicePreference(lang);
+  if (preference !== SERVER_VOICE && speechSynthesisAvailable()) {
+    const candidates = voicesFor(lang);
+    const voice = candidates.find(candidate => candidate.voiceURI === preference) ?? candidates[0];
+    // Without a language any voice will do; with one, only a voice that speaks it
+    if (voice || !lang) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      if (voice) utterance.voice = voice;
+      if (lang) utterance.lang = lang;
+      window.speechSynthesis.speak(utterance);
+      return;
+    }
+  }
+
+  if (!serverSpeechAvailable()) throw new Error('No voice available for this language');
+  await playServerAudio(text, lang);
+}
+
+/**
+ * What one side of an item says when read aloud, and its language. Cloze and
+ * occlusion items ask and answer in the front's language; an occlusion image
+ * has nothing to read until its region is revealed.
+ */
+export function itemSpeech(
+  item: Pick<StudyItem, 'card' | 'ordinal' | 'noteType'>,
+  side: 'front' | 'back',
+  languages: SetLanguages
+): { text: string; lang: string | null } {
+  const { card, ordinal, noteType } = item;
+  const lang = side === 'front' ? languages.front_language : languages.back_language;
+  if (card.card_type === 'cloze') {
+    const text = markdownToPlainText(clozeMarkdown(card.front, ordinal, side === 'back'));
+    return { text, lang: languages.front_language };
+  }
+  if (card.card_type === 'occlusion') {
+    return { text: side === 'back' ? occlusionAnswer(card.occlusions, ordinal) : '', lang: languages.front_language };
+  }
+  const template = templateFor(noteType, ordinal);
+  // The back of a note is read without the front it repeats
+  if (card.card_type === 'note' && template) {
+    const rendered = renderNote(template, card.fields ?? {});
+    return { text: markdownToPlainText(side === 'front' ? rendered.front : rendered.answer), lang };
+  }
+  return { text: markdownToPlainText(card[side]), lang };
+}
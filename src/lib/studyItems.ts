@@ -0,0 +1,103 @@
+import { Card, CardDirection, NoteType, StudyDirection } from '@/types/flashcard';
+import { clozeAnswer, clozeNumbers } from '@/lib/cloze';
+import { renderNote, templateFor, templateOrdinal } from '@/lib/noteTemplates';
+import { occlusionAnswer, occlusionOrdinals } from '@/lib/occlusion';
+
+export const STUDY_DIRECTIONS: StudyDirection[] = ['forward', 'reverse', 'both'];
+
+export const STUDY_DIRECTION_LABELS: Record<StudyDirection, string> = {
+  forward: 'Front → Back',
+  reverse: 'Back → Front',
+  both: 'Both ways'
+};
+
+/**
+ * One thing to study: a card in one direction, a single cloze number of a cloze
+ * card, one template of a note, or one region of an occlusion card.
+ */
+export interface StudyItem {
+  /** Unique across items, including the cloze items, templates and directions of one card. */
+  key: string;
+  card: Card;
+  /**
+   * Cloze number for cloze cards, template ordinal for note cards, region ordinal
+   * for occlusion cards, 0 for every other card.
+   */
+  ordinal: number;
+  direction: CardDirection;
+  /** The note type a note card is rendered with. */
+  noteType?: NoteType;
+}
+
+/** The progress rows a card is scheduled with, by ordinal; matches the database's card_ordinals. */
+export function cardOrdinals(card: Pick<Card, 'card_type' | 'front' | 'occlusions'>, noteType?: NoteType): number[] {
+  if (card.card_type === 'cloze') return clozeNumbers(card.front);
+  if (card.card_type === 'occlusion') return occlusionOrdinals(card.occlusions);
+  if (card.card_type === 'note' && noteType) return noteType.templates.map(templateOrdinal);
+  return [0];
+}
+
+/**
+ * Directions a card is studied in; matches the database's card_directions.
+ * Cloze, note and occlusion cards only go one way, notes get their other way from templates.
+ */
+export function cardDirections(card: Pick<Card, 'card_type'>, direction: StudyDirection): CardDirection[] {
+  if (card.card_type === 'cloze' || card.card_type === 'note' || card.card_type === 'occlusion') return ['forward'];
+  return direction === 'both' ? ['forward', 'reverse'] : [direction];
+}
+
+export const noteTypeOf = (card: Pick<Card, 'note_type_id'>, noteTypes: NoteType[]) =>
+  card.note_type_id ? noteTypes.find(noteType => noteType.id === card.note_type_id) : undefined;
+
+export const itemKey = (cardId: string, ordinal: number, direction: CardDirection = 'forward') =>
+  `${ordinal ? `${cardId}:c${ordinal}` : cardId}${direction === 'reverse' ? ':r' : ''}`;
+
+export function studyItems(
+  cards: Card[],
+  direction: StudyDirection = 'forward',
+  noteTypes: NoteType[] = []
+): StudyItem[] {
+  return cards.flatMap(card => {
+    const noteType = noteTypeOf(card, noteTypes);
+    return cardOrdinals(card, noteType).flatMap(ordinal =>
+      cardDirections(card, direction).map(cardDirection => ({
+        key: itemKey(card.id, ordinal, cardDirection),
+        card,
+        ordinal,
+        direction: cardDirection,
+        noteType
+      }))
+    );
+  });
+}
+
+export interface Question {
+  /** Side of the card shown as the question. */
+  promptSide: 'front' | 'back';
+  /** Side shown once answered; cloze items reveal on their own text. */
+  answerSide: 'front' | 'back';
+  /** What has to be typed or picked. */
+  answer: string;
+}
+
+/**
+ * How an item is asked: which side is shown and what has to be answered.
+ * Cloze items show the blanked text and expect the hidden part; note items
+ * expect their template's back without the repeated front; occlusion items
+ * expect the label of their region.
+ */
+export function questionOf(item: Pick<StudyItem, 'card' | 'ordinal' | 'direction' | 'noteType'>): Question {
+  if (item.card.card_type === 'cloze') {
+    return { promptSide: 'front', answerSide: 'back', answer: clozeAnswer(item.card.front, item.ordinal) };
+  }
+  if (item.card.card_type === 'occlusion') {
+    return { promptSide: 'front', answerSide: 'back', answer: occlusionAnswer(item.card.occlusions, item.ordinal) };
+  }
+  const template = templateFor(item.noteType, item.ordinal);
+  if (item.card.card_type === 'note' && template) {
+    return { promptSide: 'front', answerSide: 'back', answer: renderNote(template, item.card.fields ?? {}).answer };
+  }
+  return item.direction === 'reverse'
+    ? { promptSide: 'back', answerSide: 'front', answer: item.card.front }
+    : { promptSide: 'front', answerSide: 'back', answer: item.card.back };
+}
@@ -0,0 +1,71 @@
+import { repository } from '@/lib/repository';
+import { StudyModeName, StudySession } from '@/types/flashcard';
+
+/** How often an open session reports that the learner is still there. */
+export const HEARTBEAT_INTERVAL_MS = 60_000;
+/** Open sessions silent for longer than this are closed as abandoned. */
+export const ABANDON_AFTER_MS = 10 * 60_000;
+
+export interface SessionTally {
+  cardsStudied: number;
+  /** Left undefined for modes without right or wrong answers. */
+  correctCount?: number;
+}
+
+const secondsBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000));
+
+function tallyFields(tally: SessionTally) {
+  const correct = tally.correctCount ?? 0;
+  return {
+    cards_studied: tally.cardsStudied,
+    correct_count: correct,
+    accuracy: tally.correctCount === undefined || tally.cardsStudied === 0
+      ? null
+      : (correct / tally.cardsStudied) * 100
+  };
+}
+
+/** Closes sessions whose heartbeat stopped, ending them at their last sign of activity. */
+export async function closeAbandonedSessions(now: Date = new Date()): Promise<void> {
+  const open = await repository.sessions.listOpen();
+  const stale = open.filter(s => now.getTime() - Date.parse(s.last_active_at) > ABANDON_AFTER_MS);
+  for (const session of stale) {
+    await repository.sessions.update(session.id, {
+      ended_at: session.last_active_at,
+      duration_seconds: secondsBetween(session.started_at, session.last_active_at),
+      abandoned: true
+    });
+  }
+}
+
+export async function startSession(setId: string, mode: StudyModeName): Promise<StudySession> {
+  try {
+    await closeAbandonedSessions();
+  } catch (error) {
+    console.error('Failed to close abandoned sessions', error);
+  }
+  return repository.sessions.create({ set_id: setId, mode });
+}
+
+export async function heartbeat(session: StudySession, tally: SessionTally): Promise<void> {
+  await repository.sessions.update(session.id, {
+    last_active_at: new Date().toISOString(),
+    ...tallyFields(tally)
+  });
+}
+
+export async function endSession(
+  session: StudySession,
+  tally: SessionTally,
+  { abandoned = false }: { abandoned?: boolean } = {}
+): Promise<void> {
+  const now = new Date().toISOString();
+  await repository.sessions.update(session.id, {
+    ended_at: now,
+    last_active_at: now,
+    duration_seconds: secondsBetween(session.started_at, now),
+    abandoned,
+    ...tallyFields(tally)
+  });
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Card, CardProgress, FlashcardSet, ReviewLog, StudySession } from '@/types/flashcard';
+import { dailyStats, hardestCards, masteryLevel, setMastery } from './studyStats';
+
+const set = { id: 'set-1', title: 'French', study_direction: 'forward' } as FlashcardSet;
+
+const card = (id: string, changes: Partial<Card> = {}) => ({
+  id,
+  set_id: set.id,
+  front: id,
+  back: id,
+  card_type: 'term',
+  note_type_id: null,
+  fields: null,
+  occlusions: null,
+  order_index: 0,
+  ...changes
+}) as Card;
+
+const progress = (cardId: string, changes: Partial<CardProgress> = {}) => ({
+  id: `progress-${cardId}`,
+  card_id: cardId,
+  ordinal: 0,
+  direction: 'forward',
+  interval: 0,
+  lapses: 0,
+  state: 'new',
+  ...changes
+}) as CardProgress;
+
+const session = (startedAt: Date, changes: Partial<StudySession>) => ({
+  id: crypto.randomUUID(),
+  set_id: set.id,
+  mode: 'learn',
+  started_at: startedAt.toISOString(),
+  last_active_at: startedAt.toISOString(),
+  duration_seconds: 120,
+  cards_studied: 0,
+  correct_count: 0,
+  accuracy: null,
+  ...changes
+}) as StudySession;
+
+const log = (cardId: string, changes: Partial<ReviewLog>) => ({
+  id: crypto.randomUUID(),
+  card_id: cardId,
+  set_id: set.id,
+  grade: null,
+  correct: null,
+  ...changes
+}) as ReviewLog;
+
+describe('dailyStats', () => {
+  it('totals each day and leaves accuracy empty for modes not graded that day', () => {
+    const from = new Date(2025, 11, 8);
+    const to = new Date(2025, 11, 9);
+    const sessions = [
+      session(new Date(2025, 11, 9, 9), { mode: 'learn', cards_studied: 10, correct_count: 8, accuracy: 80 }),
+      session(new Date(2025, 11, 9, 18), { mode: 'learn', cards_studied: 10, correct_count: 4, accuracy: 40 }),
+      session(new Date(2025, 11, 9, 20), { mode: 'flashcards', cards_studied: 5 })
+    ];
+
+    expect(dailyStats(sessions, from, to)).toEqual([
+      { date: '2025-12-08', cardsStudied: 0, minutesStudied: 0, accuracy: { learn: null, test: null, spaced: null } },
+      { date: '2025-12-09', cardsStudied: 25, minutesStudied: 6, accuracy: { learn: 60, test: null, spaced: null } }
+    ]);
+  });
+});
+
+describe('masteryLevel', () => {
+  it('calls reviews mature from 21 days', () => {
+    expect(masteryLevel(undefined)).toBe('new');
+    expect(masteryLevel(progress('a', { state: 'relearning', interval: 30 }))).toBe('learning');
+    expect(masteryLevel(progress('a', { state: 'review', interval: 20 }))).toBe('young');
+    expect(masteryLevel(progress('a', { state: 'review', interval: 21 }))).toBe('mature');
+  });
+});
+
+describe('setMastery', () => {
+  it('counts each cloze number of a card on its own', () => {
+    const cloze = card('cloze', { card_type: 'cloze', front: '{{c1::Paris}} is in {{c2::France}}' });
+    const rows = [progress('cloze', { ordinal: 2, state: 'review', interval: 30 })];
+
+    expect(setMastery([set], [card('term'), cloze], rows)).toEqual([
+      { setId: set.id, title: 'French', counts: { new: 2, learning: 0, young: 0, mature: 1 } }
+    ]);
+  });
+});
+
+describe('hardestCards', () => {
+  it('ranks cards by the share of misses and leaves out ungraded reveals and one-off answers', () => {
+    const logs = [
+      log('a', { grade: 'again' }), log('a', { grade: 'good' }),
+      log('b', { correct: false }), log('b', { correct: false }), log('b', { correct: true }),
+      log('c', { correct: false }),
+      log('d', {}), log('d', {})
+    ];
+    const cards = ['a', 'b', 'c', 'd'].map(id => card(id));
+
+    const ranked = hardestCards(logs, [set], cards, [progress('b', { lapses: 2 })]);
+
+    expect(ranked.map(({ card, accuracy, misses, lapses }) => [card.id, accuracy, misses, lapses])).toEqual([
+      ['b', 33, 2, 2],
+      ['a', 50, 1, 0]
+    ]);
+  });
+});
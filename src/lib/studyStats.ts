@@ -0,0 +1,157 @@
+import { eachDayOfInterval, format, startOfDay } from 'date-fns';
+import { Card, CardProgress, FlashcardSet, NoteType, ReviewLog, StudyModeName, StudySession } from '@/types/flashcard';
+import { itemKey, studyItems } from '@/lib/studyItems';
+import { pickSetSettings } from '@/lib/setSettings';
+
+/** Review intervals at or above this many days count as mature, as in Anki. */
+export const MATURE_INTERVAL_DAYS = 21;
+/** Cards answered fewer times than this are too noisy to rank as hard. */
+const MIN_ATTEMPTS_FOR_HARDEST = 2;
+
+export type GradedMode = Exclude<StudyModeName, 'flashcards'>;
+export const GRADED_MODES: GradedMode[] = ['learn', 'test', 'spaced'];
+
+export interface DailyStats {
+  /** Local calendar day, `yyyy-MM-dd`. */
+  date: string;
+  cardsStudied: number;
+  minutesStudied: number;
+  /** Percentage correct per graded mode, `null` on days the mode was not used. */
+  accuracy: Record<GradedMode, number | null>;
+}
+
+export type MasteryLevel = 'new' | 'learning' | 'young' | 'mature';
+
+export interface SetMastery {
+  setId: string;
+  title: string;
+  counts: Record<MasteryLevel, number>;
+}
+
+export interface HardCard {
+  card: Card;
+  setTitle: string;
+  attempts: number;
+  misses: number;
+  accuracy: number;
+  lapses: number;
+}
+
+export const dayKey = (date: Date | string) => format(new Date(date), 'yyyy-MM-dd');
+
+/** Seconds a session lasted, falling back to its last heartbeat while it is still open. */
+export function sessionSeconds(session: StudySession): number {
+  if (session.duration_seconds !== null) return session.duration_seconds;
+  return Math.max(0, (Date.parse(session.last_active_at) - Date.parse(session.started_at)) / 1000);
+}
+
+/** One entry per local day in `[from, to]`, including days without any study. */
+export function dailyStats(sessions: StudySession[], from: Date, to: Date): DailyStats[] {
+  const days = new Map<string, {
+    cards: number;
+    seconds: number;
+    graded: Record<GradedMode, { studied: number; correct: number }>;
+  }>();
+  for (const day of eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) })) {
+    days.set(dayKey(day), {
+      cards: 0,
+      seconds: 0,
+      graded: { learn: { studied: 0, correct: 0 }, test: { studied: 0, correct: 0 }, spaced: { studied: 0, correct: 0 } }
+    });
+  }
+
+  for (const session of sessions) {
+    const day = days.get(dayKey(session.started_at));
+    if (!day) continue;
+    day.cards += session.cards_studied;
+    day.seconds += sessionSeconds(session);
+    // Ungraded sessions leave accuracy null and would drag the average down
+    if (session.mode !== 'flashcards' && session.accuracy !== null) {
+      day.graded[session.mode].studied += session.cards_studied;
+      day.graded[session.mode].correct += session.correct_count;
+    }
+  }
+
+  return [...days].map(([date, day]) => ({
+    date,
+    cardsStudied: day.cards,
+    minutesStudied: Math.round(day.seconds / 60),
+    accuracy: Object.fromEntries(GRADED_MODES.map(mode => {
+      const { studied, correct } = day.graded[mode];
+      return [mode, studied > 0 ? Math.round((correct / studied) * 100) : null];
+    })) as Record<GradedMode, number | null>
+  }));
+}
+
+export function masteryLevel(progress: CardProgress | undefined): MasteryLevel {
+  if (!progress || progress.state === 'new') return 'new';
+  if (progress.state !== 'review') return 'learning';
+  return progress.interval >= MATURE_INTERVAL_DAYS ? 'mature' : 'young';
+}
+
+export function setMastery(
+  sets: FlashcardSet[],
+  cards: Card[],
+  progress: CardProgress[],
+  noteTypes: NoteType[] = []
+): SetMastery[] {
+  const progressByItem = new Map(progress.map(p => [itemKey(p.card_id, p.ordinal ?? 0, p.direction ?? 'forward'), p]));
+  const directions = new Map(sets.map(set => [set.id, pickSetSettings(set).study_direction]));
+  const bySet = new Map<string, SetMastery>(sets.map(set => [set.id, {
+    setId: set.id,
+    title: set.title,
+    counts: { new: 0, learning: 0, young: 0, mature: 0 }
+  }]));
+
+  // Each cloze number, template and direction of a card counts on its own, like it is studied
+  for (const card of cards) {
+    const set = bySet.get(card.set_id);
+    if (!set) continue;
+    for (const { key } of studyItems([card], directions.get(card.set_id), noteTypes)) {
+      set.counts[masteryLevel(progressByItem.get(key))]++;
+    }
+  }
+  return [...bySet.values()];
+}
+
+/** Cards with the lowest share of correct answers in the given history. */
+export function hardestCards(
+  logs: ReviewLog[],
+  sets: FlashcardSet[],
+  cards: Card[],
+  progress: CardProgress[],
+  limit = 10
+): HardCard[] {
+  const tallies = new Map<string, { attempts: number; misses: number }>();
+  for (const log of logs) {
+    // Flashcard reveals carry neither a grade nor a verdict
+    if (log.correct === null && log.grade === null) continue;
+    const tally = tallies.get(log.card_id) ?? { attempts: 0, misses: 0 };
+    tally.attempts++;
+    if (log.correct === false || log.grade === 'again') tally.misses++;
+    tallies.set(log.card_id, tally);
+  }
+
+  const cardsById = new Map(cards.map(c => [c.id, c]));
+  const titles = new Map(sets.map(s => [s.id, s.title]));
+  const lapses = new Map<string, number>();
+  for (const p of progress) lapses.set(p.card_id, (lapses.get(p.card_id) ?? 0) + p.lapses);
+
+  const ranked: HardCard[] = [];
+  for (const [cardId, { attempts, misses }] of tallies) {
+    const card = cardsById.get(cardId);
+    if (!card || misses === 0 || attempts < MIN_ATTEMPTS_FOR_HARDEST) continue;
+    ranked.push({
+      card,
+      setTitle: titles.get(card.set_id) ?? '',
+      attempts,
+      misses,
+      accuracy: Math.round(((attempts - misses) / attempts) * 100),
+      lapses: lapses.get(cardId) ?? 0
+    });
+  }
+
+  return ranked
+    .sort((a, b) => a.accuracy - b.accuracy || b.misses - a.misses || b.lapses - a.lapses)
+    .slice(0, limit);
+}
@@ -0,0 +1,141 @@
+import { PREFERENCES_KEY, promisify, withStores, StoreName } from '@/lib/repository/indexedDb';
+import { Card, CardProgress, FlashcardSet, NoteType, ReviewLog, StudySession, UserPreferences } from '@/types/flashcard';
+
+// Writes server rows into the local IndexedDB mirror verbatim.
+
+export async function replaceSets(sets: FlashcardSet[]): Promise<void> {
+  await withStores(['sets'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('sets');
+    await promisify(store.clear());
+    for (const set of sets) {
+      await promisify(store.put(set));
+    }
+  });
+}
+
+export async function putSet(set: FlashcardSet): Promise<void> {
+  await withStores(['sets'], 'readwrite', (tx) => promisify(tx.objectStore('sets').put(set)));
+}
+
+export async function replaceCards(setId: string, cards: Card[]): Promise<void> {
+  await withStores(['cards'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('cards');
+    const keep = new Set(cards.map(c => c.id));
+    const existing = (await promisify(store.index('set_id').getAllKeys(setId))) as string[];
+    for (const id of existing) {
+      if (!keep.has(id)) await promisify(store.delete(id));
+    }
+    for (const card of cards) {
+      await promisify(store.put(card));
+    }
+  });
+}
+
+export async function putCards(cards: Card[]): Promise<void> {
+  await withStores(['cards'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('cards');
+    for (const card of cards) {
+      await promisify(store.put(card));
+    }
+  });
+}
+
+export async function replaceNoteTypes(noteTypes: NoteType[]): Promise<void> {
+  await withStores(['note_types'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('note_types');
+    await promisify(store.clear());
+    for (const noteType of noteTypes) {
+      await promisify(store.put(noteType));
+    }
+  });
+}
+
+export async function putNoteType(noteType: NoteType): Promise<void> {
+  await withStores(['note_types'], 'readwrite', (tx) => promisify(tx.objectStore('note_types').put(noteType)));
+}
+
+export async function putMediaUrl(id: string, url: string): Promise<void> {
+  await withStores(['card_media'], 'readwrite', (tx) => promisify(tx.objectStore('card_media').put({ id, url })));
+}
+
+export async function removeMedia(ids: string[]): Promise<void> {
+  await withStores(['card_media'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('card_media');
+    for (const id of ids) {
+      await promisify(store.delete(id));
+    }
+  });
+}
+
+export async function putProgress(rows: CardProgress[]): Promise<void> {
+  await withStores(['card_progress'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('card_progress');
+    for (const row of rows) {
+      // The card item index is unique, so drop a stale local row created under another id
+      const existingKey = await promisify(
+        store.index('card_item').getKey([row.card_id, row.ordinal ?? 0, row.direction ?? 'forward'])
+      );
+      if (existingKey !== undefined && existingKey !== row.id) {
+        await promisify(store.delete(existingKey));
+      }
+      await promisify(store.put(row));
+    }
+  });
+}
+
+export async function putSessions(rows: StudySession[]): Promise<void> {
+  await withStores(['study_sessions'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('study_sessions');
+    for (const row of rows) {
+      await promisify(store.put(row));
+    }
+  });
+}
+
+export async function putReviewLogs(rows: ReviewLog[]): Promise<void> {
+  await withStores(['review_logs'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('review_logs');
+    for (const row of rows) {
+      await promisify(store.put(row));
+    }
+  });
+}
+
+export async function putPreferences(row: UserPreferences): Promise<void> {
+  await withStores(['preferences'], 'readwrite', (tx) =>
+    promisify(tx.objectStore('preferences').put(row, PREFERENCES_KEY))
+  );
+}
+
+/** The server's `updated_at` of the last row of `table` mirrored, or null before the first read. */
+export async function readCursor(table: StoreName): Promise<string | null> {
+  const cursor: string | undefined = await withStores(['sync_state'], 'readonly', (tx) =>
+    promisify(tx.objectStore('sync_state').get(table))
+  );
+  return cursor ?? null;
+}
+
+export async function writeCursor(table: StoreName, cursor: string): Promise<void> {
+  await withStores(['sync_state'], 'readwrite', (tx) => promisify(tx.objectStore('sync_state').put(cursor, table)));
+}
+
+/** Wipes the mirror and any unsent mutations, e.g. when the user signs out. */
+export async function clearMirror(): Promise<void> {
+  const stores: StoreName[] = [
+    'sets',
+    'cards',
+    'note_types',
+    'card_media',
+    'card_progress',
+    'study_sessions',
+    'review_logs',
+    'preferences',
+    'sync_state',
+    'outbox'
+  ];
+  await withStores(stores, 'readwrite', async (tx) => {
+    for (const name of stores) {
+      await promisify(tx.objectStore(name).clear());
+    }
+  });
+}
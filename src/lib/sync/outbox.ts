@@ -0,0 +1,103 @@
+import { promisify, withStores } from '@/lib/repository/indexedDb';
+import type { CardDirection } from '@/types/flashcard';
+import type {
+  CardUpdate,
+  NewCard,
+  NewNoteType,
+  NewReviewLog,
+  NewSession,
+  NewSet,
+  NoteTypeUpdate,
+  PreferencesUpdate,
+  ProgressUpdate,
+  SessionUpdate,
+  SetSave,
+  SetUpdate
+} from '@/lib/repository/types';
+
+/** A write made locally that still has to be replayed against the server. */
+export type Mutation =
+  | { kind: 'sets.create'; set: NewSet & { id: string } }
+  | { kind: 'sets.update'; id: string; changes: SetUpdate & { updated_at: string } }
+  | { kind: 'sets.save'; id: string; changes: SetSave }
+  | { kind: 'sets.remove'; id: string }
+  | { kind: 'cards.createMany'; cards: (NewCard & { id: string })[] }
+  | { kind: 'cards.update'; id: string; changes: CardUpdate & { updated_at: string } }
+  | { kind: 'cards.remove'; ids: string[] }
+  | { kind: 'noteTypes.create'; noteType: NewNoteType & { id: string } }
+  | { kind: 'noteTypes.update'; id: string; changes: NoteTypeUpdate & { updated_at: string } }
+  | { kind: 'noteTypes.remove'; id: string }
+  | { kind: 'progress.create'; id: string; cardId: string; ordinal?: number; direction?: CardDirection }
+  | { kind: 'progress.update'; id: string; changes: ProgressUpdate }
+  | { kind: 'sessions.create'; session: NewSession & { id: string } }
+  | { kind: 'sessions.update'; id: string; changes: SessionUpdate }
+  | { kind: 'reviewLogs.create'; log: NewReviewLog & { id: string; reviewed_at: string } }
+  | { kind: 'preferences.save'; changes: PreferencesUpdate & { updated_at: string } };
+
+export interface OutboxEntry {
+  seq: number;
+  mutation: Mutation;
+  queued_at: string;
+  /** Why the server refused the mutation; set entries wait for the user to retry or discard them. */
+  rejected?: string;
+}
+
+export async function enqueue(mutation: Mutation): Promise<void> {
+  await withStores(['outbox'], 'readwrite', (tx) =>
+    promisify(tx.objectStore('outbox').add({ mutation, queued_at: new Date().toISOString() }))
+  );
+}
+
+/** The oldest queued mutation the server has not rejected, or null when there is none. */
+export async function peek(): Promise<OutboxEntry | null> {
+  return withStores(['outbox'], 'readonly', async (tx) => {
+    const request = tx.objectStore('outbox').openCursor();
+    for (let cursor = await promisify(request); cursor; cursor = await promisify(request)) {
+      if (!(cursor.value as OutboxEntry).rejected) return cursor.value as OutboxEntry;
+      cursor.continue();
+    }
+    return null;
+  });
+}
+
+export async function list(): Promise<OutboxEntry[]> {
+  return withStores(['outbox'], 'readonly', (tx) => promisify(tx.objectStore('outbox').getAll()));
+}
+
+export async function reject(seq: number, reason: string): Promise<void> {
+  await withStores(['outbox'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('outbox');
+    const entry = (await promisify(store.get(seq))) as OutboxEntry | undefined;
+    if (entry) await promisify(store.put({ ...entry, rejected: reason }));
+  });
+}
+
+/** Clears every rejection so the entries are replayed again, in their original order. */
+export async function unrejectAll(): Promise<void> {
+  await withStores(['outbox'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('outbox');
+    for (const entry of (await promisify(store.getAll())) as OutboxEntry[]) {
+      if (entry.rejected) {
+        const { rejected: _reason, ...rest } = entry;
+        await promisify(store.put(rest));
+      }
+    }
+  });
+}
+
+export async function removeRejected(): Promise<void> {
+  await withStores(['outbox'], 'readwrite', async (tx) => {
+    const store = tx.objectStore('outbox');
+    for (const entry of (await promisify(store.getAll())) as OutboxEntry[]) {
+      if (entry.rejected) await promisify(store.delete(entry.seq));
+    }
+  });
+}
+
+export async function remove(seq: number): Promise<void> {
+  await withStores(['outbox'], 'readwrite', (tx) => promisify(tx.objectStore('outbox').delete(seq)));
+}
+
+export async function count(): Promise<number> {
+  return withStores(['outbox'], 'readonly', (tx) => promisify(tx.objectStore('outbox').count()));
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NewCard, Repository } from '@/lib/repository/types';
+import { clearMirror } from './mirror';
+import * as outbox from './outbox';
+import { createSyncEngine } from './syncEngine';
+
+const card = (id: string): NewCard & { id: string } => ({
+  id,
+  set_id: 'set-1',
+  front: 'Front',
+  back: 'Back',
+  card_type: 'term',
+  order_index: 0
+});
+
+const remoteWith = (createMany: Repository['cards']['createMany']) =>
+  ({ cards: { createMany, listBySet: vi.fn().mockResolvedValue([]) } }) as unknown as Repository;
+
+describe('createSyncEngine', () => {
+  beforeEach(async () => {
+    await clearMirror();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a change the server refuses and carries on with the rest', async () => {
+    const createMany = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('violates check constraint'), { code: '23514' }))
+      .mockResolvedValue([]);
+    const engine = createSyncEngine(remoteWith(createMany));
+
+    await engine.enqueue({ kind: 'cards.createMany', cards: [card('a')] });
+    await engine.enqueue({ kind: 'cards.createMany', cards: [card('b')] });
+    await engine.flush();
+
+    expect(createMany).toHaveBeenCalledTimes(2);
+    expect(await engine.hasPending()).toBe(true);
+    expect(engine.getStatus()).toMatchObject({ pending: 1, rejected: 1 });
+    const [entry] = await outbox.list();
+    expect(entry.mutation).toMatchObject({ cards: [{ id: 'a' }] });
+    expect(entry.rejected).toBe('violates check constraint');
+  });
+
+  it('replays rejected changes again on retry', async () => {
+    const createMany = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('violates check constraint'), { code: '23514' }))
+      .mockResolvedValue([]);
+    const engine = createSyncEngine(remoteWith(createMany));
+
+    await engine.enqueue({ kind: 'cards.createMany', cards: [card('a')] });
+    await engine.flush();
+    await engine.retryRejected();
+
+    expect(createMany).toHaveBeenCalledTimes(2);
+    expect(await engine.hasPending()).toBe(false);
+    expect(engine.getStatus()).toMatchObject({ pending: 0, rejected: 0 });
+  });
+
+  it('drops rejected changes only when discarded', async () => {
+    const createMany = vi.fn().mockRejectedValue(Object.assign(new Error('violates check constraint'), { code: '23514' }));
+    const engine = createSyncEngine(remoteWith(createMany));
+
+    await engine.enqueue({ kind: 'cards.createMany', cards: [card('a')] });
+    await engine.flush();
+    expect(await engine.hasPending()).toBe(true);
+
+    await engine.discardRejected();
+    expect(await engine.hasPending()).toBe(false);
+    expect(engine.getStatus()).toMatchObject({ pending: 0, rejected: 0 });
+  });
+
+  it('leaves the queue untouched while the network is down', async () => {
+    const createMany = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    const engine = createSyncEngine(remoteWith(createMany));
+
+    await engine.enqueue({ kind: 'cards.createMany', cards: [card('a')] });
+    await engine.flush();
+
+    expect(engine.getStatus()).toMatchObject({ pending: 1, rejected: 0 });
+  });
+
+  it('skips an edit older than the server copy and applies a newer one', async () => {
+    const update = vi.fn().mockResolvedValue(undefined);
+    const get = vi.fn().mockResolvedValue({ ...card('a'), updated_at: '2025-12-09T12:00:00.000Z' });
+    const engine = createSyncEngine({ cards: { get, update } } as unknown as Repository);
+
+    await engine.enqueue({ kind: 'cards.update', id: 'a', changes: { front: 'Older', updated_at: '2025-12-09T11:00:00.000Z' } });
+    await engine.enqueue({ kind: 'cards.update', id: 'a', changes: { front: 'Newer', updated_at: '2025-12-09T13:00:00.000Z' } });
+    await engine.flush();
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith('a', { front: 'Newer', updated_at: '2025-12-09T13:00:00.000Z' });
+    expect(await engine.hasPending()).toBe(false);
+  });
+
+  it('keeps the later review of a card graded on two devices', async () => {
+    const update = vi.fn().mockResolvedValue(undefined);
+    const get = vi.fn().mockResolvedValue({ id: 'progress-a', last_reviewed: '2025-12-09T12:00:00.000Z' });
+    const engine = createSyncEngine({ progress: { get, update } } as unknown as Repository);
+
+    await engine.enqueue({ kind: 'progress.update', id: 'progress-a', changes: { interval: 3, last_reviewed: '2025-12-09T08:00:00.000Z' } });
+    await engine.flush();
+
+    expect(update).not.toHaveBeenCalled();
+    expect(await engine.hasPending()).toBe(false);
+  });
+
+  it('sends only the cards the server lacks when part of a batch already landed', async () => {
+    const createMany = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }))
+      .mockResolvedValue([]);
+    const listBySet = vi.fn().mockResolvedValue([card('a')]);
+    const engine = createSyncEngine({ cards: { createMany, listBySet } } as unknown as Repository);
+
+    await engine.enqueue({ kind: 'cards.createMany', cards: [card('a'), card('b')] });
+    await engine.flush();
+
+    expect(createMany).toHaveBeenLastCalledWith([card('b')]);
+    expect(await engine.hasPending()).toBe(false);
+  });
+
+  it('keeps a set saved offline when the set was saved elsewhere since', async () => {
+    const save = vi.fn().mockResolvedValue({ ok: false, conflict: true, version: 4, errors: [] });
+    const engine = createSyncEngine({ sets: { save } } as unknown as Repository);
+
+    const changes = { set: { title: 'French' }, cards: [], removedIds: [], expectedVersion: 3 };
+    await engine.enqueue({ kind: 'sets.save', id: 'set-1', changes });
+    await engine.flush();
+
+    expect(save).toHaveBeenCalledWith('set-1', changes);
+    expect(engine.getStatus()).toMatchObject({ pending: 1, rejected: 1 });
+  });
+});
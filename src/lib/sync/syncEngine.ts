@@ -0,0 +1,227 @@
+import type { Repository } from '@/lib/repository/types';
+import * as outbox from './outbox';
+import type { Mutation } from './outbox';
+
+export interface SyncStatus {
+  online: boolean;
+  /** Queued mutations, including rejected ones. */
+  pending: number;
+  /** Mutations the server refused; they stay queued until retried or discarded. */
+  rejected: number;
+  syncing: boolean;
+}
+
+export interface SyncEngine {
+  enqueue(mutation: Mutation): Promise<void>;
+  /** Replays queued mutations until the outbox is empty or the network drops. */
+  flush(): Promise<void>;
+  hasPending(): Promise<boolean>;
+  /** Queues the rejected mutations for another attempt. */
+  retryRejected(): Promise<void>;
+  /** Drops the rejected mutations; the server copy wins on the next read. */
+  discardRejected(): Promise<void>;
+  getStatus(): SyncStatus;
+  subscribe(listener: () => void): () => void;
+}
+
+const RETRY_INTERVAL_MS = 30_000;
+
+export function isNetworkError(error: unknown): boolean {
+  if (!navigator.onLine || error instanceof TypeError) return true;
+  const message = (error as { message?: string } | null)?.message ?? '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+function isDuplicate(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
+
+async function ignoreDuplicate(write: Promise<unknown>) {
+  try {
+    await write;
+  } catch (error) {
+    // An earlier attempt reached the server before the connection dropped
+    if (!isDuplicate(error)) throw error;
+  }
+}
+
+function isNewer(a: string | null, b: string | null | undefined): boolean {
+  return !!a && !!b && Date.parse(a) > Date.parse(b);
+}
+
+async function replay(remote: Repository, mutation: Mutation): Promise<void> {
+  switch (mutation.kind) {
+    case 'sets.create':
+      return ignoreDuplicate(remote.sets.create(mutation.set));
+
+    case 'sets.update': {
+      const current = await remote.sets.get(mutation.id);
+      if (!current || isNewer(current.updated_at, mutation.changes.updated_at)) return;
+      return remote.sets.update(mutation.id, mutation.changes);
+    }
+
+    case 'sets.save': {
+      const result = await remote.sets.save(mutation.id, mutation.changes);
+      if (result.conflict) throw new Error('The set was saved on another device in the meantime');
+      if (!result.ok) throw new Error(result.errors.map(e => e.message).join('; '));
+      return;
+    }
+
+    case 'sets.remove':
+      return remote.sets.remove(mutation.id);
+
+    case 'cards.createMany': {
+      try {
+        await remote.cards.createMany(mutation.cards);
+      } catch (error) {
+        if (!isDuplicate(error)) throw error;
+        // Part of the batch already landed; only send the cards the server lacks
+        const existing = new Set<string>();
+        for (const setId of new Set(mutation.cards.map(c => c.set_id))) {
+          (await remote.cards.listBySet(setId)).forEach(c => existing.add(c.id));
+        }
+        await remote.cards.createMany(mutation.cards.filter(c => !existing.has(c.id)));
+      }
+      return;
+    }
+
+    case 'cards.update': {
+      const current = await remote.cards.get(mutation.id);
+      if (!current || isNewer(current.updated_at, mutation.changes.updated_at)) return;
+      return remote.cards.update(mutation.id, mutation.changes);
+    }
+
+    case 'cards.remove':
+      return remote.cards.remove(mutation.ids);
+
+    case 'noteTypes.create':
+      return ignoreDuplicate(remote.noteTypes.create(mutation.noteType));
+
+    case 'noteTypes.update': {
+      const current = await remote.noteTypes.get(mutation.id);
+      if (!current || isNewer(current.updated_at, mutation.changes.updated_at)) return;
+      return remote.noteTypes.update(mutation.id, mutation.changes);
+    }
+
+    case 'noteTypes.remove':
+      return remote.noteTypes.remove(mutation.id);
+
+    case 'progress.create':
+      return ignoreDuplicate(remote.progress.create(mutation.cardId, mutation.id, mutation.ordinal, mutation.direction));
+
+    case 'progress.update': {
+      const current = await remote.progress.get(mutation.id);
+      if (!current || isNewer(current.last_reviewed, mutation.changes.last_reviewed)) return;
+      return remote.progress.update(mutation.id, mutation.changes);
+    }
+
+    case 'sessions.create':
+      return ignoreDuplicate(remote.sessions.create(mutation.session));
+
+    case 'sessions.update':
+      return remote.sessions.update(mutation.id, mutation.changes);
+
+    case 'reviewLogs.create':
+      return ignoreDuplicate(remote.reviewLogs.create(mutation.log));
+
+    case 'preferences.save': {
+      const current = await remote.preferences.get();
+      if (isNewer(current?.updated_at ?? null, mutation.changes.updated_at)) return;
+      await remote.preferences.save(mutation.changes);
+      return;
+    }
+  }
+}
+
+export function createSyncEngine(remote: Repository): SyncEngine {
+  let status: SyncStatus = { online: navigator.onLine, pending: 0, rejected: 0, syncing: false };
+  const listeners = new Set<() => void>();
+  let inFlight: Promise<void> | null = null;
+
+  const setStatus = (changes: Partial<SyncStatus>) => {
+    status = { ...status, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const refreshPending = async () => setStatus({ pending: await outbox.count() });
+
+  const refreshRejected = async () =>
+    setStatus({ rejected: (await outbox.list()).filter(entry => entry.rejected).length });
+
+  const drain = async () => {
+    setStatus({ syncing: true });
+    try {
+      for (let entry = await outbox.peek(); entry; entry = await outbox.peek()) {
+        try {
+          await replay(remote, entry.mutation);
+        } catch (error) {
+          if (isNetworkError(error)) return;
+          // The server refused the change; keep it for the user to retry or discard and carry on with the rest
+          console.error('Change could not be synced', entry.mutation, error);
+          await outbox.reject(entry.seq, (error as { message?: string } | null)?.message ?? String(error));
+          await refreshRejected();
+          continue;
+        }
+        await outbox.remove(entry.seq);
+        await refreshPending();
+      }
+    } finally {
+      setStatus({ syncing: false });
+      await refreshPending();
+    }
+  };
+
+  const engine: SyncEngine = {
+    async enqueue(mutation) {
+      await outbox.enqueue(mutation);
+      await refreshPending();
+    },
+
+    flush() {
+      if (!navigator.onLine) return Promise.resolve();
+      if (!inFlight) {
+        inFlight = drain().finally(() => {
+          inFlight = null;
+        });
+      }
+      return inFlight;
+    },
+
+    async hasPending() {
+      return (await outbox.count()) > 0;
+    },
+
+    async retryRejected() {
+      await outbox.unrejectAll();
+      await refreshRejected();
+      await engine.flush();
+    },
+
+    async discardRejected() {
+      await outbox.removeRejected();
+      await refreshRejected();
+      await refreshPending();
+    },
+
+    getStatus: () => status,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    engine.flush().catch(console.error);
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+  setInterval(() => {
+    if (status.pending > status.rejected && !status.syncing) engine.flush().catch(console.error);
+  }, RETRY_INTERVAL_MS);
+
+  refreshPending().catch(console.error);
+  refreshRejected().catch(console.error);
+
+  return engine;
+}
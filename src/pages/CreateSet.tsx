@@ -1,38 +1,80 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Plus, Trash2, Sparkles, Upload, Download, Copy } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Sparkles, Upload, Download, Copy, Shapes, Eye, EyeOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { CardType } from '@/types/flashcard';
+import { repository } from '@/lib/repository';
+import { Card, CardType, OcclusionRegion } from '@/types/flashcard';
 import { exportToCSV, parseCSV } from '@/lib/csvUtils';
+import { CARD_TYPE_LABELS, isComplete, needsBack } from '@/lib/cardTypes';
+import { withNoteFields } from '@/lib/noteTemplates';
+import { occlusionFront } from '@/lib/occlusion';
+import { noteTypeOf } from '@/lib/studyItems';
+import { DEFAULT_SET_SETTINGS, SetSettingsValue } from '@/lib/setSettings';
+import SetSettings from '@/components/editor/SetSettings';
+import CardTypeSelect from '@/components/editor/CardTypeSelect';
+import NoteFieldInputs from '@/components/editor/NoteFieldInputs';
+import CardPreview from '@/components/editor/CardPreview';
+import NoteTypesDialog from '@/components/editor/NoteTypesDialog';
+import AttachImageButton from '@/components/editor/AttachImageButton';
+import AttachAudioButton from '@/components/editor/AttachAudioButton';
+import OcclusionEditor from '@/components/editor/OcclusionEditor';
+import FillDefinitionsBar from '@/components/editor/FillDefinitionsBar';
+import GenerateSetDialog from '@/components/editor/GenerateSetDialog';
+import { useNoteTypes } from '@/hooks/use-note-types';
+import { useMediaUpload } from '@/hooks/use-media-upload';
+import { emptyDefinitions, useDefinitionGeneration } from '@/hooks/use-definition-generation';
+import { definitionStyle } from '@/lib/generation';
 
-interface CardInput {
-  id: string;
-  front: string;
-  back: string;
-  card_type: CardType;
-}
+// Note cards keep their field values in `fields` and a preview of them on front and back;
+// occlusion cards their regions in `occlusions` and the image on the front
+type CardInput = Pick<Card, 'id' | 'front' | 'back' | 'card_type' | 'note_type_id' | 'fields' | 'occlusions'>;
+
+const emptyCard = (): CardInput => ({
+  id: crypto.randomUUID(),
+  front: '',
+  back: '',
+  card_type: 'term',
+  note_type_id: null,
+  fields: null,
+  occlusions: null
+});
 
 const CreateSet = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [cards, setCards] = useState<CardInput[]>([
-    { id: crypto.randomUUID(), front: '', back: '', card_type: 'term' }
-  ]);
-  const [generatingIndex, setGeneratingIndex] = useState<number | null>(null);
+  const [settings, setSettings] = useState<SetSettingsValue>(DEFAULT_SET_SETTINGS);
+  const [cards, setCards] = useState<CardInput[]>(() => [emptyCard()]);
   const [isSaving, setIsSaving] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [importText, setImportText] = useState('');
   const [exportText, setExportText] = useState('');
   const debounceTimers = useRef<Record<string, NodeJS.Timeout>>({});
+  const { noteTypes, reload: reloadNoteTypes } = useNoteTypes();
+  const [noteTypesDialogOpen, setNoteTypesDialogOpen] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [generateDialogOpen, setGenerateDialogOpen] = useState(false);
+  const { attach, dropProps, isUploading } = useMediaUpload();
+  const definitions = useDefinitionGeneration(definitionStyle(settings), (id, definition, overwrite) => {
+    setCards(prevCards => prevCards.map(c =>
+      c.id === id && (overwrite || !c.back.trim()) ? { ...c, back: definition } : c
+    ));
+  });
+
+  // Previews follow template edits, so the cards are saved with what they now render to
+  useEffect(() => {
+    setCards(current => current.map(card => {
+      const noteType = noteTypeOf(card, noteTypes);
+      return noteType ? withNoteFields(card, noteType, card.fields) : card;
+    }));
+  }, [noteTypes]);
 
   useEffect(() => {
     return () => {
@@ -41,7 +83,7 @@ const CreateSet = () => {
   }, []);
 
   const addCard = () => {
-    setCards([...cards, { id: crypto.randomUUID(), front: '', back: '', card_type: 'term' }]);
+    setCards([...cards, emptyCard()]);
   };
 
   const removeCard = (id: string) => {
@@ -61,13 +103,12 @@ const CreateSet = () => {
           clearTimeout(debounceTimers.current[id]);
         }
         
-        if (value.trim() && card && !card.back.trim()) {
+        // Cloze cards keep their answers in the text, so there is no definition to generate
+        if (value.trim() && card && needsBack(card.card_type) && !card.back.trim()) {
           debounceTimers.current[id] = setTimeout(() => {
             setCards(currentCards => {
-              const index = currentCards.findIndex(c => c.id === id);
-              if (index !== -1) {
-                generateDefinition(index);
-              }
+              const current = currentCards.find(c => c.id === id);
+              if (current) definitions.generate(current, false);
               return currentCards;
             });
           }, 1500);
@@ -78,32 +119,46 @@ const CreateSet = () => {
     });
   };
 
-  const generateDefinition = async (index: number) => {
-    setCards(prevCards => {
-      const card = prevCards[index];
-      if (!card?.front.trim()) {
-        toast({ title: 'Please enter a term or question first', variant: 'destructive' });
-        return prevCards;
+  const changeCardType = (id: string, cardType: CardType, noteTypeId: string | null) => {
+    setCards(prevCards => prevCards.map(c => {
+      if (c.id !== id) return c;
+      const changed = {
+        ...c,
+        card_type: cardType,
+        note_type_id: noteTypeId,
+        occlusions: cardType === 'occlusion' ? c.occlusions ?? [] : null
+      };
+      if (cardType === 'occlusion') {
+        // Occlusion cards show nothing on the front but the image they mask
+        return { ...changed, front: occlusionFront(c.front), back: c.card_type === 'note' ? '' : c.back, fields: null };
       }
+      if (cardType !== 'note') return c.card_type === 'note' ? { ...changed, front: '', back: '', fields: null } : changed;
+      return withNoteFields(changed, noteTypeOf(changed, noteTypes), c.card_type === 'note' ? c.fields : {});
+    }));
+  };
 
-      setGeneratingIndex(index);
-      
-      supabase.functions.invoke('generate-definition', {
-        body: { text: card.front, type: card.card_type }
-      }).then(({ data, error }) => {
-        if (error) {
-          console.error(error);
-          toast({ title: 'Failed to generate definition', variant: 'destructive' });
-        } else {
-          setCards(currentCards => 
-            currentCards.map(c => c.id === card.id ? { ...c, back: data.definition } : c)
-          );
-        }
-        setGeneratingIndex(null);
-      });
+  const updateNoteField = (id: string, field: string, value: string) => {
+    setCards(prevCards => prevCards.map(c =>
+      c.id === id ? withNoteFields(c, noteTypeOf(c, noteTypes), { ...c.fields, [field]: value }) : c
+    ));
+  };
 
-      return prevCards;
-    });
+  // The front is a single-line input for most card types, so images go on the same line there
+  const appendMedia = (id: string, side: 'front' | 'back') => (markdown: string) => {
+    setCards(prevCards => prevCards.map(c => {
+      if (c.id !== id) return c;
+      const text = c[side].trimEnd();
+      return { ...c, [side]: text ? `${text}${side === 'front' ? ' ' : '\n\n'}${markdown}` : markdown };
+    }));
+  };
+
+  // Regions are kept when the image is replaced, so a corrected scan keeps its masks
+  const setOcclusionImage = (id: string) => (markdown: string) => {
+    setCards(prevCards => prevCards.map(c => (c.id === id ? { ...c, front: markdown } : c)));
+  };
+
+  const updateOcclusions = (id: string, occlusions: OcclusionRegion[]) => {
+    setCards(prevCards => prevCards.map(c => (c.id === id ? { ...c, occlusions } : c)));
   };
 
   const handleImportText = () => {
@@ -112,12 +167,21 @@ const CreateSet = () => {
       return;
     }
     const imported = parseCSV(importText);
-    setCards(imported.map(c => ({ ...c, id: crypto.randomUUID() })));
+    setCards(imported.map(c => ({ ...c, id: crypto.randomUUID(), note_type_id: null, fields: null, occlusions: null })));
     toast({ title: `Imported ${imported.length} cards` });
     setImportDialogOpen(false);
     setImportText('');
   };
 
+  // Generated cards replace the blank ones the editor starts with
+  const handleAddGenerated = (generated: Pick<CardInput, 'front' | 'back' | 'card_type'>[], suggestedTitle: string) => {
+    setCards(current => [
+      ...current.filter(c => c.front.trim() || c.back.trim() || c.card_type !== 'term'),
+      ...generated.map(c => ({ ...emptyCard(), ...c }))
+    ]);
+    if (!title.trim() && suggestedTitle) setTitle(suggestedTitle);
+  };
+
   const handleExportText = () => {
     const text = cards
       .filter(c => c.front.trim() && c.back.trim())
@@ -138,7 +202,7 @@ const CreateSet = () => {
       return;
     }
 
-    const validCards = cards.filter(c => c.front.trim() && c.back.trim());
+    const validCards = cards.filter(isComplete);
     if (validCards.length === 0) {
       toast({ title: 'Please add at least one complete card', variant: 'destructive' });
       return;
@@ -146,25 +210,18 @@ const CreateSet = () => {
 
     setIsSaving(true);
     try {
-      const { data: set, error: setError } = await supabase
-        .from('sets')
-        .insert({ title, description })
-        .select()
-        .single();
-
-      if (setError) throw setError;
-
-      const { error: cardsError } = await supabase
-        .from('cards')
-        .insert(validCards.map((c, i) => ({
-          set_id: set.id,
-          front: c.front,
-          back: c.back,
-          card_type: c.card_type,
-          order_index: i
-        })));
-
-      if (cardsError) throw cardsError;
+      const set = await repository.sets.create({ title, description, ...settings });
+
+      await repository.cards.createMany(validCards.map((c, i) => ({
+        set_id: set.id,
+        front: c.front,
+        back: c.back,
+        card_type: c.card_type,
+        note_type_id: c.note_type_id,
+        fields: c.fields,
+        occlusions: c.occlusions,
+        order_index: i
+      })));
 
       toast({ title: 'Set created successfully!' });
       navigate('/');
@@ -184,6 +241,10 @@ const CreateSet = () => {
             <ArrowLeft className="h-5 w-5" />
           </Button>
           <h1 className="text-3xl font-bold">Create Flashcard Set</h1>
+          <Button onClick={() => setNoteTypesDialogOpen(true)} variant="outline" size="sm" className="ml-auto">
+            <Shapes className="mr-2 h-4 w-4" />
+            Note Types
+          </Button>
         </div>
 
         <div className="space-y-6 bg-card p-6 rounded-lg border">
@@ -207,7 +268,13 @@ const CreateSet = () => {
             />
           </div>
 
-          <div className="flex gap-2">
+          <SetSettings value={settings} onChange={setSettings} />
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => setGenerateDialogOpen(true)} variant="outline" size="sm">
+              <Sparkles className="mr-2 h-4 w-4" />
+              Generate Cards
+            </Button>
             <Button onClick={() => setImportDialogOpen(true)} variant="outline" size="sm">
               <Upload className="mr-2 h-4 w-4" />
               Import Text
@@ -216,23 +283,32 @@ const CreateSet = () => {
               <Download className="mr-2 h-4 w-4" />
               Export Text
             </Button>
+            <Button onClick={() => setShowPreview(!showPreview)} variant="outline" size="sm">
+              {showPreview ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+              {showPreview ? 'Hide Preview' : 'Show Preview'}
+            </Button>
           </div>
 
           <div className="space-y-4">
             <Label>Cards</Label>
+            <FillDefinitionsBar
+              progress={definitions.progress}
+              emptyCount={emptyDefinitions(cards).length}
+              failedCount={cards.filter(c => definitions.status[c.id] === 'failed' && !c.back.trim()).length}
+              onFill={() => definitions.fillAll(cards)}
+              onCancel={definitions.cancel}
+              onRetry={() => definitions.retryFailed(cards)}
+            />
             {cards.map((card, index) => (
               <div key={card.id} className="p-4 border rounded-lg space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Card {index + 1}</span>
                   <div className="flex gap-2">
-                    <select
-                      value={card.card_type}
-                      onChange={(e) => updateCard(card.id, 'card_type', e.target.value as CardType)}
-                      className="text-sm border rounded px-2 py-1 bg-background"
-                    >
-                      <option value="term">Term</option>
-                      <option value="question">Question</option>
-                    </select>
+                    <CardTypeSelect
+                      card={card}
+                      noteTypes={noteTypes}
+                      onChange={(cardType, noteTypeId) => changeCardType(card.id, cardType, noteTypeId)}
+                    />
                     {cards.length > 1 && (
                       <Button
                         variant="ghost"
@@ -245,35 +321,98 @@ const CreateSet = () => {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Input
-                    value={card.front}
-                    onChange={(e) => updateCard(card.id, 'front', e.target.value)}
-                    placeholder={card.card_type === 'term' ? 'Enter term...' : 'Enter question...'}
+                {card.card_type === 'note' ? (
+                  <NoteFieldInputs
+                    cardId={card.id}
+                    noteType={noteTypeOf(card, noteTypes)}
+                    fields={card.fields}
+                    onChange={(field, value) => updateNoteField(card.id, field, value)}
                   />
-                </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      {card.card_type === 'occlusion' ? (
+                        <OcclusionEditor
+                          front={card.front}
+                          regions={card.occlusions ?? []}
+                          onRegionsChange={(regions) => updateOcclusions(card.id, regions)}
+                          onFiles={(files) => attach(`${card.id}-front`, files, setOcclusionImage(card.id))}
+                          dropProps={dropProps(`${card.id}-front`, setOcclusionImage(card.id))}
+                          uploading={isUploading(`${card.id}-front`)}
+                        />
+                      ) : (
+                        <div className="flex gap-2">
+                          {card.card_type === 'cloze' ? (
+                            <Textarea
+                              value={card.front}
+                              onChange={(e) => updateCard(card.id, 'front', e.target.value)}
+                              {...dropProps(`${card.id}-front`, appendMedia(card.id, 'front'))}
+                              placeholder={CARD_TYPE_LABELS.cloze.frontPlaceholder}
+                              className="flex-1"
+                            />
+                          ) : (
+                            <Input
+                              value={card.front}
+                              onChange={(e) => updateCard(card.id, 'front', e.target.value)}
+                              {...dropProps(`${card.id}-front`, appendMedia(card.id, 'front'))}
+                              placeholder={CARD_TYPE_LABELS[card.card_type].frontPlaceholder}
+                              className="flex-1"
+                            />
+                          )}
+                          <AttachImageButton
+                            onFiles={(files) => attach(`${card.id}-front`, files, appendMedia(card.id, 'front'))}
+                            uploading={isUploading(`${card.id}-front`)}
+                          />
+                          <AttachAudioButton
+                            onFiles={(files) => attach(`${card.id}-front`, files, appendMedia(card.id, 'front'))}
+                            uploading={isUploading(`${card.id}-front`)}
+                          />
+                        </div>
+                      )}
+                    </div>
 
-                <div className="space-y-2">
-                  <div className="flex gap-2">
-                    <Textarea
-                      value={card.back}
-                      onChange={(e) => updateCard(card.id, 'back', e.target.value)}
-                      placeholder={card.card_type === 'term' ? 'Enter definition...' : 'Enter answer...'}
-                      className="flex-1"
-                    />
-                    <Button
-                      onClick={() => generateDefinition(index)}
-                      disabled={generatingIndex === index || !card.front.trim()}
-                      variant="secondary"
-                      size="icon"
-                    >
-                      <Sparkles className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  {generatingIndex === index && (
-                    <p className="text-xs text-muted-foreground">Generating...</p>
-                  )}
-                </div>
+                    <div className="space-y-2">
+                      <div className="flex gap-2">
+                        <Textarea
+                          value={card.back}
+                          onChange={(e) => updateCard(card.id, 'back', e.target.value)}
+                          {...dropProps(`${card.id}-back`, appendMedia(card.id, 'back'))}
+                          placeholder={CARD_TYPE_LABELS[card.card_type].backPlaceholder}
+                          className="flex-1"
+                        />
+                        <AttachImageButton
+                          onFiles={(files) => attach(`${card.id}-back`, files, appendMedia(card.id, 'back'))}
+                          uploading={isUploading(`${card.id}-back`)}
+                        />
+                        <AttachAudioButton
+                          onFiles={(files) => attach(`${card.id}-back`, files, appendMedia(card.id, 'back'))}
+                          uploading={isUploading(`${card.id}-back`)}
+                        />
+                        <Button
+                          onClick={() => definitions.generate(card, true)}
+                          disabled={definitions.isGenerating(card.id) || !card.front.trim() || !needsBack(card.card_type)}
+                          variant="secondary"
+                          size="icon"
+                        >
+                          <Sparkles className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {definitions.status[card.id] === 'queued' && (
+                        <p className="text-xs text-muted-foreground">Waiting to generate...</p>
+                      )}
+                      {definitions.status[card.id] === 'generating' && (
+                        <p className="text-xs text-muted-foreground">Generating...</p>
+                      )}
+                      {definitions.status[card.id] === 'failed' && !card.back.trim() && (
+                        <p className="text-xs text-destructive">Could not generate a definition</p>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                {showPreview && (card.front.trim() || card.back.trim()) && (
+                  <CardPreview card={card} noteType={noteTypeOf(card, noteTypes)} />
+                )}
               </div>
             ))}
 
@@ -293,6 +432,24 @@ const CreateSet = () => {
           </div>
         </div>
 
+        {noteTypesDialogOpen && (
+          <NoteTypesDialog
+            open
+            onOpenChange={setNoteTypesDialogOpen}
+            noteTypes={noteTypes}
+            onChanged={reloadNoteTypes}
+          />
+        )}
+
+        {generateDialogOpen && (
+          <GenerateSetDialog
+            open
+            onOpenChange={setGenerateDialogOpen}
+            style={definitionStyle(settings)}
+            onAdd={handleAddGenerated}
+          />
+        )}
+
         <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
           <DialogContent>
             <DialogHeader>
@@ -1,32 +1,91 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, Plus, Trash2, Sparkles, Upload, Download, Copy } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Sparkles, Upload, Download, Copy, Shapes, Eye, EyeOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { CardType } from '@/types/flashcard';
+import { repository } from '@/lib/repository';
+import type { CardValidationError, SavedCard } from '@/lib/repository/types';
+import { Card, CardType, OcclusionRegion } from '@/types/flashcard';
+import { validateCards } from '@/lib/cardValidation';
+import { CARD_TYPE_LABELS, needsBack } from '@/lib/cardTypes';
+import { withNoteFields } from '@/lib/noteTemplates';
+import { occlusionFront } from '@/lib/occlusion';
+import { noteTypeOf } from '@/lib/studyItems';
+import {
+  defaultChoices,
+  findConflicts,
+  mergeCards,
+  MergeChoices,
+  sameFields,
+  sameRegions,
+  SetConflict,
+  SetDetails
+} from '@/lib/setMerge';
+import { cn } from '@/lib/utils';
 import { exportToCSV, parseCSV } from '@/lib/csvUtils';
+import { DEFAULT_SET_SETTINGS, pickSetSettings, SetSettingsValue } from '@/lib/setSettings';
+import SetSettings from '@/components/editor/SetSettings';
+import ConflictDialog from '@/components/editor/ConflictDialog';
+import CardTypeSelect from '@/components/editor/CardTypeSelect';
+import NoteFieldInputs from '@/components/editor/NoteFieldInputs';
+import CardPreview from '@/components/editor/CardPreview';
+import NoteTypesDialog from '@/components/editor/NoteTypesDialog';
+import AttachImageButton from '@/components/editor/AttachImageButton';
+import AttachAudioButton from '@/components/editor/AttachAudioButton';
+import OcclusionEditor from '@/components/editor/OcclusionEditor';
+import FillDefinitionsBar from '@/components/editor/FillDefinitionsBar';
+import { useNoteTypes } from '@/hooks/use-note-types';
+import { useMediaUpload } from '@/hooks/use-media-upload';
+import { emptyDefinitions, useDefinitionGeneration } from '@/hooks/use-definition-generation';
+import { definitionStyle } from '@/lib/generation';
+
+// Note cards keep their field values in `fields` and a preview of them on front and back;
+// occlusion cards their regions in `occlusions` and the image on the front
+type CardInput = Pick<Card, 'id' | 'front' | 'back' | 'card_type' | 'note_type_id' | 'fields' | 'occlusions'>;
+
+interface Draft {
+  title: string;
+  description: string;
+  cards: CardInput[];
+}
 
-interface CardInput {
-  id: string;
-  front: string;
-  back: string;
-  card_type: CardType;
-  isNew?: boolean;
+interface PendingMerge {
+  conflict: SetConflict;
+  theirCards: Card[];
+  choices: MergeChoices;
+  /** Makes the other device's copy the base of this edit once the merge is accepted. */
+  rebase: () => void;
 }
 
+const snapshot = (cards: Card[]) => new Map(cards.map(
+  ({ id, front, back, card_type, note_type_id, fields, occlusions, order_index }) =>
+    [id, { id, front, back, card_type, note_type_id, fields, occlusions, order_index }]
+));
+
+const isBlank = (card: CardInput) => !card.front.trim() && !card.back.trim();
+
+// Errors grouped by card so each card can show its own
+const errorsByCard = (errors: CardValidationError[]) => {
+  const grouped: Record<string, CardValidationError[]> = {};
+  for (const error of errors) {
+    (grouped[error.cardId] ??= []).push(error);
+  }
+  return grouped;
+};
+
 const EditSet = () => {
   const { setId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [settings, setSettings] = useState<SetSettingsValue>(DEFAULT_SET_SETTINGS);
   const [cards, setCards] = useState<CardInput[]>([]);
-  const [generatingIndex, setGeneratingIndex] = useState<number | null>(null);
+  const [cardErrors, setCardErrors] = useState<Record<string, CardValidationError[]>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
@@ -34,6 +93,33 @@ const EditSet = () => {
   const [importText, setImportText] = useState('');
   const [exportText, setExportText] = useState('');
   const debounceTimers = useRef<Record<string, NodeJS.Timeout>>({});
+  // The set as last loaded, to work out what a save has to change and what changed elsewhere
+  const savedCards = useRef<Map<string, SavedCard>>(new Map());
+  const baseDetails = useRef<SetDetails>({ title: '', description: '' });
+  const version = useRef<number | undefined>(undefined);
+  const [merge, setMerge] = useState<PendingMerge | null>(null);
+  const { noteTypes, reload: reloadNoteTypes } = useNoteTypes();
+  const [noteTypesDialogOpen, setNoteTypesDialogOpen] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const { attach, dropProps, isUploading } = useMediaUpload();
+  // A back typed while its definition was being generated is kept
+  const definitions = useDefinitionGeneration(definitionStyle(settings), (id, definition, overwrite) => {
+    setCardErrors(({ [id]: errors, ...rest }) => {
+      const remaining = errors?.filter(error => error.field !== 'back' && error.field !== null) ?? [];
+      return remaining.length > 0 ? { ...rest, [id]: remaining } : rest;
+    });
+    setCards(prevCards => prevCards.map(c =>
+      c.id === id && (overwrite || !c.back.trim()) ? { ...c, back: definition } : c
+    ));
+  });
+
+  // Previews follow template edits, so the cards are saved with what they now render to
+  useEffect(() => {
+    setCards(current => current.map(card => {
+      const noteType = noteTypeOf(card, noteTypes);
+      return noteType ? withNoteFields(card, noteType, card.fields) : card;
+    }));
+  }, [noteTypes]);
 
   useEffect(() => {
     loadSet();
@@ -44,30 +130,29 @@ const EditSet = () => {
 
   const loadSet = async () => {
     try {
-      const { data: setData } = await supabase
-        .from('sets')
-        .select('*')
-        .eq('id', setId)
-        .single();
-
-      const { data: cardsData } = await supabase
-        .from('cards')
-        .select('*')
-        .eq('set_id', setId)
-        .order('order_index');
+      const [setData, cardsData] = await Promise.all([
+        repository.sets.get(setId!),
+        repository.cards.listBySet(setId!)
+      ]);
 
       if (setData) {
         setTitle(setData.title);
         setDescription(setData.description || '');
+        setSettings(pickSetSettings(setData));
+        baseDetails.current = { title: setData.title, description: setData.description || '' };
+        version.current = setData.version ?? 1;
       }
 
-      if (cardsData && cardsData.length > 0) {
+      savedCards.current = snapshot(cardsData);
+      if (cardsData.length > 0) {
         setCards(cardsData.map(c => ({
           id: c.id,
           front: c.front,
           back: c.back,
-          card_type: c.card_type as CardType,
-          isNew: false
+          card_type: c.card_type,
+          note_type_id: c.note_type_id,
+          fields: c.fields,
+          occlusions: c.occlusions
         })));
       }
     } catch (error) {
@@ -84,7 +169,9 @@ const EditSet = () => {
       front: '', 
       back: '', 
       card_type: 'term',
-      isNew: true 
+      note_type_id: null,
+      fields: null,
+      occlusions: null
     }]);
   };
 
@@ -95,6 +182,12 @@ const EditSet = () => {
   };
 
   const updateCard = (id: string, field: keyof CardInput, value: string | CardType) => {
+    if (cardErrors[id]?.some(error => error.field === field || error.field === null)) {
+      setCardErrors(({ [id]: errors, ...rest }) => {
+        const remaining = errors.filter(error => error.field !== field && error.field !== null);
+        return remaining.length > 0 ? { ...rest, [id]: remaining } : rest;
+      });
+    }
     setCards(prevCards => {
       const updatedCards = prevCards.map(c => c.id === id ? { ...c, [field]: value } : c);
       
@@ -104,13 +197,12 @@ const EditSet = () => {
           clearTimeout(debounceTimers.current[id]);
         }
         
-        if (value.trim() && card && !card.back.trim()) {
+        // Cloze cards keep their answers in the text, so there is no definition to generate
+        if (value.trim() && card && needsBack(card.card_type) && !card.back.trim()) {
           debounceTimers.current[id] = setTimeout(() => {
             setCards(currentCards => {
-              const index = currentCards.findIndex(c => c.id === id);
-              if (index !== -1) {
-                generateDefinition(index);
-              }
+              const current = currentCards.find(c => c.id === id);
+              if (current) definitions.generate(current, false);
               return currentCards;
             });
           }, 1500);
@@ -121,32 +213,59 @@ const EditSet = () => {
     });
   };
 
-  const generateDefinition = async (index: number) => {
-    setCards(prevCards => {
-      const card = prevCards[index];
-      if (!card?.front.trim()) {
-        toast({ title: 'Please enter a term or question first', variant: 'destructive' });
-        return prevCards;
+  const changeCardType = (id: string, cardType: CardType, noteTypeId: string | null) => {
+    setCardErrors(({ [id]: _errors, ...rest }) => rest);
+    setCards(prevCards => prevCards.map(c => {
+      if (c.id !== id) return c;
+      const changed = {
+        ...c,
+        card_type: cardType,
+        note_type_id: noteTypeId,
+        occlusions: cardType === 'occlusion' ? c.occlusions ?? [] : null
+      };
+      if (cardType === 'occlusion') {
+        // Occlusion cards show nothing on the front but the image they mask
+        return { ...changed, front: occlusionFront(c.front), back: c.card_type === 'note' ? '' : c.back, fields: null };
       }
+      if (cardType !== 'note') return c.card_type === 'note' ? { ...changed, front: '', back: '', fields: null } : changed;
+      return withNoteFields(changed, noteTypeOf(changed, noteTypes), c.card_type === 'note' ? c.fields : {});
+    }));
+  };
 
-      setGeneratingIndex(index);
-      
-      supabase.functions.invoke('generate-definition', {
-        body: { text: card.front, type: card.card_type }
-      }).then(({ data, error }) => {
-        if (error) {
-          console.error(error);
-          toast({ title: 'Failed to generate definition', variant: 'destructive' });
-        } else {
-          setCards(currentCards => 
-            currentCards.map(c => c.id === card.id ? { ...c, back: data.definition } : c)
-          );
-        }
-        setGeneratingIndex(null);
+  const updateNoteField = (id: string, field: string, value: string) => {
+    if (cardErrors[id]?.some(error => error.field === 'front')) {
+      setCardErrors(({ [id]: errors, ...rest }) => {
+        const remaining = errors.filter(error => error.field !== 'front');
+        return remaining.length > 0 ? { ...rest, [id]: remaining } : rest;
       });
+    }
+    setCards(prevCards => prevCards.map(c =>
+      c.id === id ? withNoteFields(c, noteTypeOf(c, noteTypes), { ...c.fields, [field]: value }) : c
+    ));
+  };
 
-      return prevCards;
-    });
+  // The front is a single-line input for most card types, so images go on the same line there
+  const appendMedia = (id: string, side: 'front' | 'back') => (markdown: string) => {
+    setCards(prevCards => prevCards.map(c => {
+      if (c.id !== id) return c;
+      const text = c[side].trimEnd();
+      return { ...c, [side]: text ? `${text}${side === 'front' ? ' ' : '\n\n'}${markdown}` : markdown };
+    }));
+  };
+
+  // Regions are kept when the image is replaced, so a corrected scan keeps its masks
+  const setOcclusionImage = (id: string) => (markdown: string) => {
+    setCards(prevCards => prevCards.map(c => (c.id === id ? { ...c, front: markdown } : c)));
+  };
+
+  const updateOcclusions = (id: string, occlusions: OcclusionRegion[]) => {
+    if (cardErrors[id]?.some(error => error.field === 'front')) {
+      setCardErrors(({ [id]: errors, ...rest }) => {
+        const remaining = errors.filter(error => error.field !== 'front');
+        return remaining.length > 0 ? { ...rest, [id]: remaining } : rest;
+      });
+    }
+    setCards(prevCards => prevCards.map(c => (c.id === id ? { ...c, occlusions } : c)));
   };
 
   const handleImportText = () => {
@@ -155,7 +274,7 @@ const EditSet = () => {
       return;
     }
     const imported = parseCSV(importText);
-    setCards(imported.map(c => ({ ...c, id: crypto.randomUUID(), isNew: true })));
+    setCards(imported.map(c => ({ ...c, id: crypto.randomUUID(), note_type_id: null, fields: null, occlusions: null })));
     toast({ title: `Imported ${imported.length} cards` });
     setImportDialogOpen(false);
     setImportText('');
@@ -175,62 +294,65 @@ const EditSet = () => {
     toast({ title: 'Copied to clipboard' });
   };
 
-  const handleSave = async () => {
-    if (!title.trim()) {
+  const save = async (draft: Draft) => {
+    if (!draft.title.trim()) {
       toast({ title: 'Please enter a title', variant: 'destructive' });
       return;
     }
 
-    const validCards = cards.filter(c => c.front.trim() && c.back.trim());
-    if (validCards.length === 0) {
+    // Cards left completely empty are dropped rather than reported
+    const keptCards = draft.cards.filter(c => !isBlank(c));
+    if (keptCards.length === 0) {
       toast({ title: 'Please add at least one complete card', variant: 'destructive' });
       return;
     }
 
+    const errors = validateCards(keptCards);
+    if (errors.length > 0) {
+      setCardErrors(errorsByCard(errors));
+      toast({ title: 'Please fix the highlighted cards', variant: 'destructive' });
+      return;
+    }
+
+    const ordered = keptCards.map((card, index): SavedCard => ({ ...card, order_index: index }));
+    const changed = ordered.filter(card => {
+      const saved = savedCards.current.get(card.id);
+      return !saved ||
+        saved.front !== card.front ||
+        saved.back !== card.back ||
+        saved.card_type !== card.card_type ||
+        saved.note_type_id !== card.note_type_id ||
+        !sameFields(saved.fields, card.fields) ||
+        !sameRegions(saved.occlusions, card.occlusions) ||
+        saved.order_index !== card.order_index;
+    });
+    const keptIds = new Set(ordered.map(card => card.id));
+    const removedIds = [...savedCards.current.keys()].filter(id => !keptIds.has(id));
+
     setIsSaving(true);
     try {
-      // Update set info
-      const { error: setError } = await supabase
-        .from('sets')
-        .update({ title, description })
-        .eq('id', setId);
-
-      if (setError) throw setError;
-
-      // Delete cards that were removed
-      const existingCardIds = cards.filter(c => !c.isNew).map(c => c.id);
-      await supabase
-        .from('cards')
-        .delete()
-        .eq('set_id', setId)
-        .not('id', 'in', `(${existingCardIds.join(',')})`);
-
-      // Update existing cards and insert new ones
-      for (let i = 0; i < validCards.length; i++) {
-        const card = validCards[i];
-        if (card.isNew) {
-          await supabase
-            .from('cards')
-            .insert({
-              set_id: setId,
-              front: card.front,
-              back: card.back,
-              card_type: card.card_type,
-              order_index: i
-            });
-        } else {
-          await supabase
-            .from('cards')
-            .update({
-              front: card.front,
-              back: card.back,
-              card_type: card.card_type,
-              order_index: i
-            })
-            .eq('id', card.id);
-        }
+      const result = await repository.sets.save(setId!, {
+        set: { title: draft.title, description: draft.description, ...settings },
+        cards: changed,
+        removedIds,
+        expectedVersion: version.current
+      });
+
+      if (result.conflict) {
+        await handleConflict({ ...draft, cards: keptCards });
+        return;
+      }
+
+      if (!result.ok) {
+        setCardErrors(errorsByCard(result.errors));
+        toast({ title: 'Please fix the highlighted cards', variant: 'destructive' });
+        return;
       }
 
+      // Removed cards and edited sides may leave images nothing refers to anymore
+      if (changed.length > 0 || removedIds.length > 0) {
+        repository.media.removeOrphans().catch(console.error);
+      }
       toast({ title: 'Set updated successfully!' });
       navigate('/');
     } catch (error) {
@@ -241,6 +363,57 @@ const EditSet = () => {
     }
   };
 
+  const handleSave = () => save({ title, description, cards });
+
+  // Another device saved since this edit started: rebase onto its copy and ask about what differs
+  const handleConflict = async (draft: Draft) => {
+    const [remoteSet, remoteCards] = await Promise.all([
+      repository.sets.get(setId!),
+      repository.cards.listBySet(setId!)
+    ]);
+    if (!remoteSet) {
+      toast({ title: 'This set was deleted on another device', variant: 'destructive' });
+      return;
+    }
+
+    const base = { details: baseDetails.current, cards: [...savedCards.current.values()] };
+    const theirs = {
+      details: { title: remoteSet.title, description: remoteSet.description || '' },
+      cards: remoteCards
+    };
+    const conflict = findConflicts(base, { details: draft, cards: draft.cards }, theirs);
+    const rebase = () => {
+      savedCards.current = snapshot(remoteCards);
+      baseDetails.current = theirs.details;
+      version.current = remoteSet.version ?? 1;
+    };
+
+    if (conflict.cards.length === 0 && !conflict.details) {
+      // Nothing the other device did clashes with this edit
+      rebase();
+      await save(draft);
+      return;
+    }
+    // Cancelling the merge keeps the old base, so the next save runs into the conflict again
+    setMerge({ conflict, theirCards: remoteCards, choices: defaultChoices(conflict, base.details), rebase });
+  };
+
+  const handleResolve = async (choices: MergeChoices) => {
+    if (!merge) return;
+    const { conflict, theirCards, rebase } = merge;
+    const merged = mergeCards(cards.filter(c => !isBlank(c)), theirCards, conflict.cards, choices.cards);
+    const details = choices.details === 'theirs' && conflict.details
+      ? conflict.details.theirs
+      : { title, description };
+
+    rebase();
+    setMerge(null);
+    setCards(merged);
+    setTitle(details.title);
+    setDescription(details.description || '');
+    await save({ title: details.title, description: details.description || '', cards: merged });
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -257,6 +430,10 @@ const EditSet = () => {
             <ArrowLeft className="h-5 w-5" />
           </Button>
           <h1 className="text-3xl font-bold">Edit Flashcard Set</h1>
+          <Button onClick={() => setNoteTypesDialogOpen(true)} variant="outline" size="sm" className="ml-auto">
+            <Shapes className="mr-2 h-4 w-4" />
+            Note Types
+          </Button>
         </div>
 
         <div className="space-y-6 bg-card p-6 rounded-lg border">
@@ -280,6 +457,8 @@ const EditSet = () => {
             />
           </div>
 
+          <SetSettings value={settings} onChange={setSettings} />
+
           <div className="flex gap-2">
             <Button onClick={() => setImportDialogOpen(true)} variant="outline" size="sm">
               <Upload className="mr-2 h-4 w-4" />
@@ -289,23 +468,41 @@ const EditSet = () => {
               <Download className="mr-2 h-4 w-4" />
               Export Text
             </Button>
+            <Button onClick={() => setShowPreview(!showPreview)} variant="outline" size="sm">
+              {showPreview ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+              {showPreview ? 'Hide Preview' : 'Show Preview'}
+            </Button>
           </div>
 
           <div className="space-y-4">
             <Label>Cards</Label>
-            {cards.map((card, index) => (
-              <div key={card.id} className="p-4 border rounded-lg space-y-3">
+            <FillDefinitionsBar
+              progress={definitions.progress}
+              emptyCount={emptyDefinitions(cards).length}
+              failedCount={cards.filter(c => definitions.status[c.id] === 'failed' && !c.back.trim()).length}
+              onFill={() => definitions.fillAll(cards)}
+              onCancel={definitions.cancel}
+              onRetry={() => definitions.retryFailed(cards)}
+            />
+            {cards.map((card, index) => {
+              const errors = cardErrors[card.id] ?? [];
+              const errorFor = (field: CardValidationError['field']) =>
+                errors.find(error => error.field === field)?.message;
+
+              return (
+              <div
+                key={card.id}
+                className={cn('p-4 border rounded-lg space-y-3', errors.length > 0 && 'border-destructive')}
+              >
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Card {index + 1}</span>
                   <div className="flex gap-2">
-                    <select
-                      value={card.card_type}
-                      onChange={(e) => updateCard(card.id, 'card_type', e.target.value as CardType)}
-                      className="text-sm border rounded px-2 py-1 bg-background"
-                    >
-                      <option value="term">Term</option>
-                      <option value="question">Question</option>
-                    </select>
+                    <CardTypeSelect
+                      card={card}
+                      noteTypes={noteTypes}
+                      onChange={(cardType, noteTypeId) => changeCardType(card.id, cardType, noteTypeId)}
+                      className={cn(errorFor('card_type') && 'border-destructive')}
+                    />
                     {cards.length > 1 && (
                       <Button
                         variant="ghost"
@@ -318,37 +515,112 @@ const EditSet = () => {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Input
-                    value={card.front}
-                    onChange={(e) => updateCard(card.id, 'front', e.target.value)}
-                    placeholder={card.card_type === 'term' ? 'Enter term...' : 'Enter question...'}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <div className="flex gap-2">
-                    <Textarea
-                      value={card.back}
-                      onChange={(e) => updateCard(card.id, 'back', e.target.value)}
-                      placeholder={card.card_type === 'term' ? 'Enter definition...' : 'Enter answer...'}
-                      className="flex-1"
+                {card.card_type === 'note' ? (
+                  <div className="space-y-2">
+                    <NoteFieldInputs
+                      cardId={card.id}
+                      noteType={noteTypeOf(card, noteTypes)}
+                      fields={card.fields}
+                      onChange={(field, value) => updateNoteField(card.id, field, value)}
+                      invalid={!!errorFor('front')}
                     />
-                    <Button
-                      onClick={() => generateDefinition(index)}
-                      disabled={generatingIndex === index || !card.front.trim()}
-                      variant="secondary"
-                      size="icon"
-                    >
-                      <Sparkles className="h-4 w-4" />
-                    </Button>
+                    {errorFor('front') && <p className="text-xs text-destructive">{errorFor('front')}</p>}
                   </div>
-                  {generatingIndex === index && (
-                    <p className="text-xs text-muted-foreground">Generating...</p>
-                  )}
-                </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      {card.card_type === 'occlusion' ? (
+                        <OcclusionEditor
+                          front={card.front}
+                          regions={card.occlusions ?? []}
+                          onRegionsChange={(regions) => updateOcclusions(card.id, regions)}
+                          onFiles={(files) => attach(`${card.id}-front`, files, setOcclusionImage(card.id))}
+                          dropProps={dropProps(`${card.id}-front`, setOcclusionImage(card.id))}
+                          uploading={isUploading(`${card.id}-front`)}
+                          invalid={!!errorFor('front')}
+                        />
+                      ) : (
+                        <div className="flex gap-2">
+                          {card.card_type === 'cloze' ? (
+                            <Textarea
+                              value={card.front}
+                              onChange={(e) => updateCard(card.id, 'front', e.target.value)}
+                              {...dropProps(`${card.id}-front`, appendMedia(card.id, 'front'))}
+                              placeholder={CARD_TYPE_LABELS.cloze.frontPlaceholder}
+                              className={cn('flex-1', errorFor('front') && 'border-destructive')}
+                            />
+                          ) : (
+                            <Input
+                              value={card.front}
+                              onChange={(e) => updateCard(card.id, 'front', e.target.value)}
+                              {...dropProps(`${card.id}-front`, appendMedia(card.id, 'front'))}
+                              placeholder={CARD_TYPE_LABELS[card.card_type].frontPlaceholder}
+                              className={cn('flex-1', errorFor('front') && 'border-destructive')}
+                            />
+                          )}
+                          <AttachImageButton
+                            onFiles={(files) => attach(`${card.id}-front`, files, appendMedia(card.id, 'front'))}
+                            uploading={isUploading(`${card.id}-front`)}
+                          />
+                          <AttachAudioButton
+                            onFiles={(files) => attach(`${card.id}-front`, files, appendMedia(card.id, 'front'))}
+                            uploading={isUploading(`${card.id}-front`)}
+                          />
+                        </div>
+                      )}
+                      {errorFor('front') && <p className="text-xs text-destructive">{errorFor('front')}</p>}
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex gap-2">
+                        <Textarea
+                          value={card.back}
+                          onChange={(e) => updateCard(card.id, 'back', e.target.value)}
+                          {...dropProps(`${card.id}-back`, appendMedia(card.id, 'back'))}
+                          placeholder={CARD_TYPE_LABELS[card.card_type].backPlaceholder}
+                          className={cn('flex-1', errorFor('back') && 'border-destructive')}
+                        />
+                        <AttachImageButton
+                          onFiles={(files) => attach(`${card.id}-back`, files, appendMedia(card.id, 'back'))}
+                          uploading={isUploading(`${card.id}-back`)}
+                        />
+                        <AttachAudioButton
+                          onFiles={(files) => attach(`${card.id}-back`, files, appendMedia(card.id, 'back'))}
+                          uploading={isUploading(`${card.id}-back`)}
+                        />
+                        <Button
+                          onClick={() => definitions.generate(card, true)}
+                          disabled={definitions.isGenerating(card.id) || !card.front.trim() || !needsBack(card.card_type)}
+                          variant="secondary"
+                          size="icon"
+                        >
+                          <Sparkles className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {definitions.status[card.id] === 'queued' && (
+                        <p className="text-xs text-muted-foreground">Waiting to generate...</p>
+                      )}
+                      {definitions.status[card.id] === 'generating' && (
+                        <p className="text-xs text-muted-foreground">Generating...</p>
+                      )}
+                      {definitions.status[card.id] === 'failed' && !card.back.trim() && (
+                        <p className="text-xs text-destructive">Could not generate a definition</p>
+                      )}
+                      {errorFor('back') && <p className="text-xs text-destructive">{errorFor('back')}</p>}
+                    </div>
+                  </>
+                )}
+
+                {showPreview && (card.front.trim() || card.back.trim()) && (
+                  <CardPreview card={card} noteType={noteTypeOf(card, noteTypes)} />
+                )}
+
+                {[errorFor('card_type'), errorFor(null)].filter(Boolean).map(message => (
+                  <p key={message} className="text-xs text-destructive">{message}</p>
+                ))}
               </div>
-            ))}
+              );
+            })}
 
             <Button onClick={addCard} variant="outline" className="w-full">
               <Plus className="mr-2 h-4 w-4" />
@@ -366,6 +638,25 @@ const EditSet = () => {
           </div>
         </div>
 
+        {noteTypesDialogOpen && (
+          <NoteTypesDialog
+            open
+            onOpenChange={setNoteTypesDialogOpen}
+            noteTypes={noteTypes}
+            onChanged={reloadNoteTypes}
+          />
+        )}
+
+        {merge && (
+          <ConflictDialog
+            open
+            onOpenChange={(open) => { if (!open) setMerge(null); }}
+            conflict={merge.conflict}
+            initialChoices={merge.choices}
+            onResolve={handleResolve}
+          />
+        )}
+
         <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
           <DialogContent>
             <DialogHeader>
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, BookOpen, TrendingUp, Trash2, Pencil } from 'lucide-react';
+import { Plus, BookOpen, Trash2, Pencil, LogOut, BarChart3, Flame, Target, Settings2, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -13,31 +13,42 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { supabase } from '@/integrations/supabase/client';
+import { repository, dataBackend } from '@/lib/repository';
+import { useAuth } from '@/hooks/use-auth';
+import SyncIndicator from '@/components/SyncIndicator';
+import ActivityHeatmap from '@/components/activity/ActivityHeatmap';
+import GoalRing from '@/components/activity/GoalRing';
+import DailyGoalDialog from '@/components/activity/DailyGoalDialog';
+import { activityByDay, activityStart, DayActivity, streaks } from '@/lib/activity';
+import { DailyGoal, DEFAULT_PREFERENCES, GOAL_UNITS, goalAmount } from '@/lib/dailyGoal';
+import { dayKey } from '@/lib/studyStats';
 import { FlashcardSet } from '@/types/flashcard';
-import { formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow, startOfDay } from 'date-fns';
 import { toast } from 'sonner';
 
 const Index = () => {
   const navigate = useNavigate();
+  const { user, signOut } = useAuth();
   const [sets, setSets] = useState<FlashcardSet[]>([]);
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({ totalSets: 0, totalCards: 0, studiedToday: 0 });
+  const [stats, setStats] = useState({ totalSets: 0, totalCards: 0 });
+  const [activity, setActivity] = useState<Map<string, DayActivity>>(new Map());
+  const [studyDays, setStudyDays] = useState<string[]>([]);
+  const [goal, setGoal] = useState<DailyGoal>(DEFAULT_PREFERENCES);
+  const [goalDialogOpen, setGoalDialogOpen] = useState(false);
+  const [dueCounts, setDueCounts] = useState<Map<string, number>>(new Map());
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [setToDelete, setSetToDelete] = useState<string | null>(null);
+  const [signOutDialogOpen, setSignOutDialogOpen] = useState(false);
 
   useEffect(() => {
     loadSets();
     loadStats();
-  }, []);
+  }, [user?.id]);
 
   const loadSets = async () => {
     try {
-      const { data } = await supabase
-        .from('sets')
-        .select('*')
-        .order('updated_at', { ascending: false });
-      if (data) setSets(data);
+      setSets(await repository.sets.list());
     } catch (error) {
       console.error(error);
       toast.error('Failed to load sets');
@@ -48,28 +59,63 @@ const Index = () => {
 
   const loadStats = async () => {
     try {
-      // Combine queries for better performance
-      const [setsResult, sessionsResult] = await Promise.all([
-        supabase.from('sets').select('id, card_count'),
-        supabase
-          .from('study_sessions')
-          .select('cards_studied')
-          .gte('started_at', new Date(new Date().setHours(0, 0, 0, 0)).toISOString())
+      // Combine queries for better performance; the heatmap loads its weeks, streaks only the days studied
+      const [allSets, sessions, days, preferences, due] = await Promise.all([
+        repository.sets.list(),
+        repository.sessions.listSince(activityStart()),
+        repository.sessions.studyDays(),
+        repository.preferences.get(),
+        repository.progress.dueCounts({ dayStart: startOfDay(new Date()) })
       ]);
 
-      const totalCards = setsResult.data?.reduce((sum, set) => sum + set.card_count, 0) || 0;
-      const studiedToday = sessionsResult.data?.reduce((sum, s) => sum + s.cards_studied, 0) || 0;
+      const totalCards = allSets.reduce((sum, set) => sum + set.card_count, 0);
 
       setStats({
-        totalSets: setsResult.data?.length || 0,
-        totalCards,
-        studiedToday
+        totalSets: allSets.length,
+        totalCards
       });
+      setActivity(activityByDay(sessions));
+      setStudyDays(days);
+      setDueCounts(new Map(
+        Object.entries(due.countsBySet)
+          .map(([setId, counts]): [string, number] => [setId, counts.new + counts.learning + counts.due])
+          .filter(([, count]) => count > 0)
+      ));
+      if (preferences) {
+        setGoal({ daily_goal_type: preferences.daily_goal_type, daily_goal_target: preferences.daily_goal_target });
+      }
     } catch (error) {
       console.error(error);
     }
   };
 
+  const handleSaveGoal = async (changes: DailyGoal) => {
+    const previous = goal;
+    setGoal(changes);
+    try {
+      await repository.preferences.save(changes);
+      toast.success('Daily goal updated');
+    } catch (error) {
+      console.error(error);
+      setGoal(previous);
+      toast.error('Failed to save daily goal');
+    }
+  };
+
+  const handleSignOut = async (discardUnsynced = false) => {
+    try {
+      await signOut({ discardUnsynced });
+      navigate('/auth');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'unsynced_changes') {
+        setSignOutDialogOpen(true);
+        return;
+      }
+      console.error(error);
+      toast.error('Failed to sign out');
+    }
+  };
+
   const handleDeleteClick = (setId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setSetToDelete(setId);
@@ -80,13 +126,9 @@ const Index = () => {
     if (!setToDelete) return;
 
     try {
-      // Delete associated cards first
-      await supabase.from('cards').delete().eq('set_id', setToDelete);
-      
-      // Delete the set
-      const { error } = await supabase.from('sets').delete().eq('id', setToDelete);
-      
-      if (error) throw error;
+      await repository.sets.remove(setToDelete);
+      // Images only the deleted cards used are no longer needed
+      repository.media.removeOrphans().catch(console.error);
 
       toast.success('Set deleted successfully');
       loadSets();
@@ -100,9 +142,28 @@ const Index = () => {
     }
   };
 
+  const streak = streaks(studyDays);
+  const totalDue = [...dueCounts.values()].reduce((sum, count) => sum + count, 0);
+  const todayAmount = goalAmount(activity.get(dayKey(new Date())), goal.daily_goal_type);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
       <div className="max-w-6xl mx-auto p-6 space-y-8">
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          <SyncIndicator />
+          <Button variant="ghost" size="sm" onClick={() => navigate('/stats')}>
+            <BarChart3 className="mr-2 h-4 w-4" />
+            Statistics
+          </Button>
+          <span className="truncate">{user?.email}</span>
+          {dataBackend === 'supabase' && (
+            <Button variant="ghost" size="sm" onClick={() => handleSignOut()}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          )}
+        </div>
+
         <div className="text-center space-y-2">
           <h1 className="text-5xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
             Hanh Dung Tran's Notebook
@@ -110,7 +171,7 @@ const Index = () => {
           <p className="text-muted-foreground">Your personal flashcard study companion</p>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
               <CardTitle className="text-sm font-medium">Total Sets</CardTitle>
@@ -133,21 +194,78 @@ const Index = () => {
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium">Studied Today</CardTitle>
-              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              <CardTitle className="text-sm font-medium">Daily Goal</CardTitle>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Change daily goal"
+                onClick={() => setGoalDialogOpen(true)}
+              >
+                <Settings2 className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            </CardHeader>
+            <CardContent className="flex items-center gap-4">
+              <GoalRing value={todayAmount} target={goal.daily_goal_target}>
+                {todayAmount >= goal.daily_goal_target
+                  ? <Target className="h-5 w-5 text-green-500" />
+                  : `${Math.round((todayAmount / goal.daily_goal_target) * 100)}%`}
+              </GoalRing>
+              <div>
+                <div className="text-2xl font-bold">
+                  {todayAmount}/{goal.daily_goal_target}
+                </div>
+                <p className="text-xs text-muted-foreground">{GOAL_UNITS[goal.daily_goal_type]} today</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium">Streak</CardTitle>
+              <Flame className={`h-4 w-4 ${streak.studiedToday ? 'text-orange-500' : 'text-muted-foreground'}`} />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{stats.studiedToday}</div>
+              <div className="text-2xl font-bold">
+                {streak.current} {streak.current === 1 ? 'day' : 'days'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {streak.current > 0 && !streak.studiedToday
+                  ? 'Study today to keep it going · '
+                  : ''}
+                Longest: {streak.longest} {streak.longest === 1 ? 'day' : 'days'}
+              </p>
             </CardContent>
           </Card>
         </div>
 
-        <div className="flex justify-between items-center">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Activity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ActivityHeatmap activity={activity} goal={goal} />
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-wrap justify-between items-center gap-4">
           <h2 className="text-2xl font-semibold">Your Sets</h2>
-          <Button onClick={() => navigate('/create')} size="lg" className="gap-2">
-            <Plus className="h-5 w-5" />
-            New Set
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => navigate('/review')}
+              size="lg"
+              variant="outline"
+              className="gap-2"
+              disabled={totalDue === 0}
+            >
+              <Repeat className="h-5 w-5" />
+              Review All Due{totalDue > 0 && ` (${totalDue})`}
+            </Button>
+            <Button onClick={() => navigate('/create')} size="lg" className="gap-2">
+              <Plus className="h-5 w-5" />
+              New Set
+            </Button>
+          </div>
         </div>
 
         {loading ? (
@@ -207,7 +325,12 @@ const Index = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="flex items-center justify-between text-sm text-muted-foreground">
-                    <span>{set.card_count} cards</span>
+                    <span>
+                      {set.card_count} cards
+                      {(dueCounts.get(set.id) ?? 0) > 0 && (
+                        <span className="ml-2 font-medium text-primary">{dueCounts.get(set.id)} due</span>
+                      )}
+                    </span>
                     <span>Updated {formatDistanceToNow(new Date(set.updated_at), { addSuffix: true })}</span>
                   </div>
                 </CardContent>
@@ -216,6 +339,31 @@ const Index = () => {
           </div>
         )}
 
+        <DailyGoalDialog
+          open={goalDialogOpen}
+          onOpenChange={setGoalDialogOpen}
+          goal={goal}
+          onSave={handleSaveGoal}
+        />
+
+        <AlertDialog open={signOutDialogOpen} onOpenChange={setSignOutDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Sign out with unsynced changes?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Some changes made on this device have not reached the server yet. Signing out now discards them.
+                Stay signed in and go online to sync them first.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Stay signed in</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleSignOut(true)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                Sign out anyway
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useReviewQueue } from '@/hooks/use-review-queue';
+import ReviewCard from '@/components/study/ReviewCard';
+import DueCountsBar from '@/components/study/DueCountsBar';
+import OcclusionModeSelect from '@/components/study/OcclusionModeSelect';
+import SyncIndicator from '@/components/SyncIndicator';
+import { toast } from 'sonner';
+import { OcclusionMode } from '@/types/flashcard';
+
+const ReviewAll = () => {
+  const navigate = useNavigate();
+  const { loading, queue, counts, current, currentIndex, reviewedCount, showAnswer, load, reveal, grade } =
+    useReviewQueue();
+  const [occlusionMode, setOcclusionMode] = useState<OcclusionMode>('hide_one');
+
+  const loadQueue = useCallback(() => {
+    load().catch(error => {
+      console.error(error);
+      toast.error('Failed to load due cards');
+    });
+  }, [load]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const renderBody = () => {
+    if (loading) {
+      return <div className="text-center p-8">Loading...</div>;
+    }
+
+    if (queue.length === 0) {
+      return (
+        <div className="text-center space-y-4 p-8">
+          <h2 className="text-2xl font-bold">All caught up! 🎉</h2>
+          <p className="text-muted-foreground">
+            No cards due for review in any of your sets.
+          </p>
+          <Button onClick={() => navigate('/')}>Back to Sets</Button>
+        </div>
+      );
+    }
+
+    if (!current) {
+      return (
+        <div className="text-center space-y-4 p-8">
+          <h2 className="text-2xl font-bold">Review Complete! 🎉</h2>
+          <p className="text-muted-foreground">
+            You reviewed {reviewedCount} cards.
+          </p>
+          <Button onClick={loadQueue}>Check for More</Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {counts && <DueCountsBar counts={counts} />}
+        <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+          <span>Card {currentIndex + 1} of {queue.length} due</span>
+          {current.card.card_type === 'occlusion' && (
+            <OcclusionModeSelect value={occlusionMode} onChange={setOcclusionMode} />
+          )}
+          <Badge variant="secondary" className="truncate max-w-[60%]" title={current.set.title}>
+            {current.set.title}
+          </Badge>
+        </div>
+
+        <ReviewCard
+          card={current.card}
+          progress={current.progress}
+          noteType={current.noteType}
+          occlusionMode={occlusionMode}
+          languages={current.set}
+          algorithm={current.set.scheduler}
+          showAnswer={showAnswer}
+          onReveal={reveal}
+          onGrade={grade}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="mb-6 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold flex-1">Review All Due</h1>
+          <SyncIndicator />
+        </div>
+
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewAll;
@@ -0,0 +1,413 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CalendarIcon } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { DateRange } from 'react-day-picker';
+import { addDays, format, startOfDay, subDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { repository } from '@/lib/repository';
+import { useAuth } from '@/hooks/use-auth';
+import SyncIndicator from '@/components/SyncIndicator';
+import { dailyStats, hardestCards, setMastery } from '@/lib/studyStats';
+import { stripCloze } from '@/lib/cloze';
+import { markdownToPlainText } from '@/lib/markdown';
+import { Card as Flashcard, CardProgress, FlashcardSet, NoteType, ReviewLog, StudySession } from '@/types/flashcard';
+import { toast } from 'sonner';
+
+const RANGE_PRESETS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const accuracyConfig = {
+  learn: { label: 'Learn', color: 'hsl(var(--chart-1))' },
+  test: { label: 'Test', color: 'hsl(var(--chart-2))' },
+  spaced: { label: 'Spaced Rep', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+const cardsConfig = {
+  cardsStudied: { label: 'Cards', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const minutesConfig = {
+  minutesStudied: { label: 'Minutes', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const masteryConfig = {
+  new: { label: 'New', color: 'hsl(var(--muted-foreground))' },
+  learning: { label: 'Learning', color: 'hsl(var(--chart-4))' },
+  young: { label: 'Young', color: 'hsl(var(--chart-2))' },
+  mature: { label: 'Mature', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const shortDate = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d');
+
+const Stats = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [sets, setSets] = useState<FlashcardSet[]>([]);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [progress, setProgress] = useState<CardProgress[]>([]);
+  const [noteTypes, setNoteTypes] = useState<NoteType[]>([]);
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [logs, setLogs] = useState<ReviewLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [setFilter, setSetFilter] = useState('all');
+  const [preset, setPreset] = useState('30');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+
+  const range = useMemo(() => {
+    const today = startOfDay(new Date());
+    if (preset === 'custom' && customRange?.from) {
+      return { from: startOfDay(customRange.from), to: startOfDay(customRange.to ?? customRange.from) };
+    }
+    const days = preset === 'custom' ? 30 : Number(preset);
+    return { from: subDays(today, days - 1), to: today };
+  }, [preset, customRange]);
+
+  useEffect(() => {
+    loadCollection();
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [user?.id, range]);
+
+  const loadCollection = async () => {
+    try {
+      const [allSets, allCards, allProgress, allNoteTypes] = await Promise.all([
+        repository.sets.list(),
+        repository.cards.list(),
+        repository.progress.list(),
+        repository.noteTypes.list()
+      ]);
+      setSets(allSets);
+      setCards(allCards);
+      setProgress(allProgress);
+      setNoteTypes(allNoteTypes);
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to load your sets');
+    }
+  };
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      const until = addDays(range.to, 1);
+      const [rangeSessions, rangeLogs] = await Promise.all([
+        repository.sessions.listSince(range.from, until),
+        repository.reviewLogs.listSince(range.from, until)
+      ]);
+      setSessions(rangeSessions);
+      setLogs(rangeLogs);
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to load study history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filtered = useMemo(() => {
+    const bySet = <T extends { set_id: string }>(rows: T[]) =>
+      setFilter === 'all' ? rows : rows.filter(row => row.set_id === setFilter);
+    return {
+      sets: setFilter === 'all' ? sets : sets.filter(set => set.id === setFilter),
+      cards: bySet(cards),
+      sessions: bySet(sessions),
+      logs: bySet(logs)
+    };
+  }, [setFilter, sets, cards, sessions, logs]);
+
+  const daily = useMemo(
+    () => dailyStats(filtered.sessions, range.from, range.to).map(day => ({
+      ...day,
+      ...day.accuracy,
+      label: shortDate(day.date)
+    })),
+    [filtered.sessions, range]
+  );
+  const mastery = useMemo(
+    () => setMastery(filtered.sets, filtered.cards, progress, noteTypes).map(set => ({ ...set, ...set.counts })),
+    [filtered.sets, filtered.cards, progress, noteTypes]
+  );
+  const hardest = useMemo(
+    () => hardestCards(filtered.logs, sets, filtered.cards, progress),
+    [filtered.logs, sets, filtered.cards, progress]
+  );
+
+  const totals = useMemo(() => ({
+    cards: daily.reduce((sum, day) => sum + day.cardsStudied, 0),
+    minutes: daily.reduce((sum, day) => sum + day.minutesStudied, 0),
+    sessions: filtered.sessions.length
+  }), [daily, filtered.sessions]);
+
+  const hasAccuracy = daily.some(day => day.learn !== null || day.test !== null || day.spaced !== null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold flex-1">Statistics</h1>
+          <SyncIndicator />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            aria-label="Set"
+            value={setFilter}
+            onChange={(e) => setSetFilter(e.target.value)}
+            className="h-10 text-sm border rounded-md px-3 bg-background"
+          >
+            <option value="all">All sets</option>
+            {sets.map(set => (
+              <option key={set.id} value={set.id}>{set.title}</option>
+            ))}
+          </select>
+
+          <select
+            aria-label="Date range"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value)}
+            className="h-10 text-sm border rounded-md px-3 bg-background"
+          >
+            {RANGE_PRESETS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          {preset === 'custom' && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <CalendarIcon className="h-4 w-4" />
+                  {format(range.from, 'MMM d, yyyy')} – {format(range.to, 'MMM d, yyyy')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  selected={customRange}
+                  onSelect={setCustomRange}
+                  defaultMonth={range.from}
+                  disabled={{ after: new Date() }}
+                  numberOfMonths={2}
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Cards Studied</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{totals.cards}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Time Studied</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {Math.floor(totals.minutes / 60)}h {totals.minutes % 60}m
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Sessions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{totals.sessions}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {loading ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {[1, 2].map((i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="h-64" />
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Accuracy by Mode</CardTitle>
+                <CardDescription>Share of correct answers per day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {hasAccuracy ? (
+                  <ChartContainer config={accuracyConfig} className="h-64 w-full aspect-auto">
+                    <LineChart data={daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {(['learn', 'test', 'spaced'] as const).map(mode => (
+                        <Line
+                          key={mode}
+                          dataKey={mode}
+                          type="monotone"
+                          stroke={`var(--color-${mode})`}
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ChartContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground py-8 text-center">
+                    No graded study sessions in this period
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Cards Studied</CardTitle>
+                  <CardDescription>Cards answered or flipped per day</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={cardsConfig} className="h-56 w-full aspect-auto">
+                    <BarChart data={daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="cardsStudied" fill="var(--color-cardsStudied)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Time Studied</CardTitle>
+                  <CardDescription>Minutes spent in study sessions per day</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={minutesConfig} className="h-56 w-full aspect-auto">
+                    <BarChart data={daily}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="minutesStudied" fill="var(--color-minutesStudied)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Mastery by Set</CardTitle>
+            <CardDescription>
+              Where each card stands today; mature cards have a review interval of three weeks or more
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {mastery.length > 0 ? (
+              <ChartContainer
+                config={masteryConfig}
+                className="w-full aspect-auto"
+                style={{ height: Math.max(160, mastery.length * 40 + 60) }}
+              >
+                <BarChart data={mastery} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="title" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {(['new', 'learning', 'young', 'mature'] as const).map(level => (
+                    <Bar key={level} dataKey={level} stackId="mastery" fill={`var(--color-${level})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground py-8 text-center">No sets yet</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Hardest Cards</CardTitle>
+            <CardDescription>Lowest share of correct answers in this period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {hardest.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Card</TableHead>
+                    <TableHead>Set</TableHead>
+                    <TableHead className="text-right">Correct</TableHead>
+                    <TableHead className="text-right">Missed</TableHead>
+                    <TableHead className="text-right">Lapses</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {hardest.map(({ card, setTitle, attempts, misses, accuracy, lapses }) => (
+                    <TableRow
+                      key={card.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/study/${card.set_id}`)}
+                    >
+                      <TableCell className="max-w-xs">
+                        <div className="font-medium line-clamp-1">{markdownToPlainText(stripCloze(card.front))}</div>
+                        <div className="text-muted-foreground line-clamp-1">{markdownToPlainText(card.back)}</div>
+                      </TableCell>
+                      <TableCell className="line-clamp-1">{setTitle}</TableCell>
+                      <TableCell className="text-right">{accuracy}%</TableCell>
+                      <TableCell className="text-right">{misses}/{attempts}</TableCell>
+                      <TableCell className="text-right">{lapses}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                Not enough answers in this period to rank cards
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Stats;
@@ -2,19 +2,29 @@ import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { supabase } from '@/integrations/supabase/client';
-import { Card } from '@/types/flashcard';
+import { repository } from '@/lib/repository';
+import { Card, FlashcardSet, NoteType, StudyDirection } from '@/types/flashcard';
 import FlashcardsMode from '@/components/study/FlashcardsMode';
 import LearnMode from '@/components/study/LearnMode';
 import SpacedMode from '@/components/study/SpacedMode';
 import TestMode from '@/components/study/TestMode';
+import SpeechSettings from '@/components/study/SpeechSettings';
+import SyncIndicator from '@/components/SyncIndicator';
+import { STUDY_DIRECTION_LABELS, STUDY_DIRECTIONS, studyItems } from '@/lib/studyItems';
+import { pickSetSettings } from '@/lib/setSettings';
+import { SetLanguages } from '@/lib/speech';
+
+const NO_LANGUAGES: SetLanguages = { front_language: null, back_language: null };
 
 const StudyMode = () => {
   const { setId } = useParams();
   const navigate = useNavigate();
   const [cards, setCards] = useState<Card[]>([]);
-  const [setTitle, setSetTitle] = useState('');
+  const [noteTypes, setNoteTypes] = useState<NoteType[]>([]);
+  const [studySet, setStudySet] = useState<FlashcardSet | null>(null);
+  const [direction, setDirection] = useState<StudyDirection>('forward');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -23,20 +33,17 @@ const StudyMode = () => {
 
   const loadCards = async () => {
     try {
-      const { data: set } = await supabase
-        .from('sets')
-        .select('title')
-        .eq('id', setId)
-        .single();
-
-      const { data: cardsData } = await supabase
-        .from('cards')
-        .select('*')
-        .eq('set_id', setId)
-        .order('order_index');
-
-      if (set) setSetTitle(set.title);
-      if (cardsData) setCards(cardsData as Card[]);
+      const [set, cardsData, noteTypesData] = await Promise.all([
+        repository.sets.get(setId!),
+        repository.cards.listBySet(setId!),
+        repository.noteTypes.list()
+      ]);
+
+      setStudySet(set);
+      // Starts in the set's direction; switching only affects this visit
+      if (set) setDirection(pickSetSettings(set).study_direction);
+      setNoteTypes(noteTypesData);
+      setCards(cardsData);
     } catch (error) {
       console.error(error);
     } finally {
@@ -44,19 +51,23 @@ const StudyMode = () => {
     }
   };
 
-  // Memoize study mode components to prevent unnecessary re-renders
+  const items = useMemo(() => studyItems(cards, direction, noteTypes), [cards, direction, noteTypes]);
+  const languages = studySet ?? NO_LANGUAGES;
+
+  // Memoize study mode components to prevent unnecessary re-renders; a new
+  // direction starts every mode over
   const studyModes = useMemo(() => ({
-    flashcards: <FlashcardsMode cards={cards} setId={setId!} />,
-    learn: <LearnMode cards={cards} setId={setId!} />,
-    test: <TestMode cards={cards} setId={setId!} />,
-    spaced: <SpacedMode cards={cards} setId={setId!} />,
-  }), [cards, setId]);
+    flashcards: <FlashcardsMode key={direction} items={items} setId={setId!} languages={languages} />,
+    learn: <LearnMode key={direction} items={items} setId={setId!} />,
+    test: <TestMode key={direction} items={items} setId={setId!} />,
+    spaced: <SpacedMode key={direction} setId={setId!} direction={direction} />,
+  }), [items, setId, direction, languages]);
 
   if (loading) {
     return <div className="min-h-screen bg-background flex items-center justify-center">Loading...</div>;
   }
 
-  if (cards.length === 0) {
+  if (items.length === 0) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -74,7 +85,23 @@ const StudyMode = () => {
           <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
             <ArrowLeft className="h-5 w-5" />
           </Button>
-          <h1 className="text-2xl font-bold">{setTitle}</h1>
+          <h1 className="text-2xl font-bold flex-1">{studySet?.title}</h1>
+          <SyncIndicator />
+        </div>
+
+        <div className="mb-6 flex items-center gap-2">
+          <Label htmlFor="study-direction" className="text-sm text-muted-foreground">Direction</Label>
+          <select
+            id="study-direction"
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as StudyDirection)}
+            className="h-9 text-sm border rounded-md px-3 bg-background"
+          >
+            {STUDY_DIRECTIONS.map(option => (
+              <option key={option} value={option}>{STUDY_DIRECTION_LABELS[option]}</option>
+            ))}
+          </select>
+          <SpeechSettings languages={languages} />
         </div>
 
         <Tabs defaultValue="flashcards" className="w-full">
@@ -0,0 +1,2 @@
+// IndexedDB for the local repository, the mirror and the outbox
+import 'fake-indexeddb/auto';
@@ -1,4 +1,17 @@
-export type CardType = 'term' | 'question';
+import type { Difficulty } from '@/lib/spacedRepetition';
+
+export type CardType = 'term' | 'question' | 'cloze' | 'note' | 'occlusion';
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+export type StudyModeName = 'flashcards' | 'learn' | 'test' | 'spaced';
+export type DailyGoalType = 'cards' | 'minutes';
+/** Forward asks with the front and answers with the back; reverse the other way round. */
+export type CardDirection = 'forward' | 'reverse';
+export type StudyDirection = CardDirection | 'both';
+/** Whether an occlusion item hides only the region asked about or every region. */
+export type OcclusionMode = 'hide_one' | 'hide_all';
+export type DefinitionLength = 'brief' | 'short' | 'detailed';
+export type ReadingLevel = 'simple' | 'general' | 'advanced';
 
 export interface FlashcardSet {
   id: string;
@@ -7,35 +20,166 @@ export interface FlashcardSet {
   created_at: string;
   updated_at: string;
   card_count: number;
+  scheduler: SchedulerAlgorithm;
+  target_retention: number;
+  new_cards_per_day: number;
+  max_reviews_per_day: number;
+  /** Delays in minutes before a new card graduates to day-based reviews. */
+  learning_steps: number[];
+  /** Delays in minutes after a forgotten review card. */
+  relearning_steps: number[];
+  /** Direction study sessions start with; each session may pick another. */
+  study_direction: StudyDirection;
+  /** BCP 47 tag of the language on the front of the cards, e.g. en-US; used to read them aloud. */
+  front_language: string | null;
+  back_language: string | null;
+  /** How generated definitions are written for the cards of the set. */
+  definition_length: DefinitionLength;
+  reading_level: ReadingLevel;
+  /** BCP 47 tag to write generated definitions in, e.g. vi for Vietnamese glosses; null for the language of the card. */
+  definition_language: string | null;
+  /** Whether generated definitions end with an example sentence. */
+  include_example: boolean;
+  /** Bumped by every save from the editor, to detect edits made elsewhere in the meantime. */
+  version: number;
+  owner_id: string | null;
 }
 
+/** How one card of a note is shown; `{{Field}}` placeholders are filled from the note. */
+export interface CardTemplate {
+  /**
+   * Scheduled like a cloze number; kept when other templates are removed or
+   * reordered. Templates saved without one use their position.
+   */
+  ordinal?: number;
+  name: string;
+  front: string;
+  /** `{{FrontSide}}` repeats the rendered front. */
+  back: string;
+}
+
+/** A user-defined kind of note: its named fields and the cards each note generates. */
+export interface NoteType {
+  id: string;
+  name: string;
+  fields: string[];
+  templates: CardTemplate[];
+  created_at: string;
+  updated_at: string;
+  owner_id: string | null;
+}
+
+/**
+ * A masked region of an occlusion card's image, in fractions of the image's
+ * width and height so it fits the image at any size. A type rather than an
+ * interface so it can be stored as JSON.
+ */
+export type OcclusionRegion = {
+  /** Scheduled like a cloze number; kept when other regions are removed. */
+  ordinal: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** What is hidden under the region, asked for in typed answers. */
+  label: string;
+};
+
 export interface Card {
   id: string;
   set_id: string;
+  /** For note cards, a preview rendered from the first template, for lists and exports. */
   front: string;
   back: string;
   card_type: CardType;
+  /** Set for note cards only, which are studied once per template of the note type. */
+  note_type_id: string | null;
+  /** Field values of a note card, by field name. */
+  fields: Record<string, string> | null;
+  /** Regions of an occlusion card, whose image is on the front; each is studied on its own. */
+  occlusions: OcclusionRegion[] | null;
   order_index: number;
   created_at: string;
+  updated_at: string;
+  owner_id: string | null;
+}
+
+/** A file attached to cards; card text refers to it as media:<id>. */
+export interface CardMedia {
+  id: string;
+  /** Storage path of the file. */
+  path: string;
+  content_type: string;
+  byte_size: number;
+  created_at: string;
+  owner_id: string | null;
 }
 
 export interface CardProgress {
   id: string;
   card_id: string;
+  /**
+   * Cloze number this row schedules for cloze cards, template ordinal for note
+   * cards, region ordinal for occlusion cards, 0 for every other card.
+   */
+  ordinal: number;
+  /** Each direction of a card studied both ways is scheduled on its own. */
+  direction: CardDirection;
   ease_factor: number;
   interval: number;
   repetitions: number;
   next_review: string;
   last_reviewed: string | null;
+  stability: number | null;
+  difficulty: number | null;
+  lapses: number;
+  state: CardState;
+  /** Index into the learning or relearning steps while in one of those states. */
+  step: number;
+  owner_id: string | null;
+  /** When the server last changed the row; unset on rows created offline until they are read back. */
+  updated_at?: string;
 }
 
 export interface StudySession {
   id: string;
   set_id: string;
-  mode: 'flashcards' | 'learn' | 'spaced';
+  mode: StudyModeName;
   started_at: string;
   ended_at: string | null;
+  last_active_at: string;
+  duration_seconds: number | null;
+  abandoned: boolean;
   cards_studied: number;
   correct_count: number;
   accuracy: number | null;
-}
\ No newline at end of file
+  owner_id: string | null;
+}
+
+export interface ReviewLog {
+  id: string;
+  card_id: string;
+  /** Cloze number, template ordinal or region ordinal answered, 0 for every other card. */
+  ordinal: number;
+  direction: CardDirection;
+  set_id: string;
+  session_id: string | null;
+  mode: StudyModeName;
+  grade: Difficulty | null;
+  correct: boolean | null;
+  answer: string | null;
+  response_time_ms: number | null;
+  interval_before: number | null;
+  interval_after: number | null;
+  /** State of the card when it was answered. */
+  state: CardState | null;
+  reviewed_at: string;
+  owner_id: string | null;
+}
+
+export interface UserPreferences {
+  daily_goal_type: DailyGoalType;
+  daily_goal_target: number;
+  updated_at: string;
+  owner_id: string | null;
+}
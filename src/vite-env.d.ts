@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY: string;
+  readonly VITE_DATA_BACKEND?: 'supabase' | 'indexeddb';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,107 @@
+// Chat completions for the edge functions, from any OpenAI-compatible endpoint
+// or from the echo provider, which answers offline and always the same way.
+//
+//   AI_PROVIDER    openai (default) or echo
+//   AI_BASE_URL    defaults to the Lovable gateway
+//   AI_API_KEY     defaults to LOVABLE_API_KEY
+//   AI_MODEL       overrides the model each function picks
+//   AI_TIMEOUT_MS  defaults to 30 seconds
+
+export type AiErrorCode = 'quota' | 'timeout' | 'upstream' | 'config';
+
+export type AiError = Error & { code: AiErrorCode };
+
+export const aiError = (code: AiErrorCode, message: string): AiError =>
+  Object.assign(new Error(message), { code });
+
+export const isAiError = (error: unknown): error is AiError =>
+  error instanceof Error && typeof (error as Partial<AiError>).code === 'string';
+
+export interface ChatRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  /** Asks for a JSON object as the reply. */
+  json?: boolean;
+  /** What the echo provider replies; the user message when left out. */
+  echo?: () => string;
+}
+
+export interface AiProvider {
+  complete(request: ChatRequest): Promise<string>;
+}
+
+const DEFAULT_BASE_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+function openAiProvider(baseUrl: string, apiKey: string, model: string, timeoutMs: number): AiProvider {
+  return {
+    async complete({ system, user, maxTokens, json }) {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: user }
+            ],
+            max_tokens: maxTokens,
+            ...(json ? { response_format: { type: 'json_object' } } : {}),
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'TimeoutError') {
+          throw aiError('timeout', `The AI provider did not answer within ${timeoutMs / 1000} seconds`);
+        }
+        throw aiError('upstream', `The AI provider could not be reached: ${error instanceof Error ? error.message : error}`);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('AI provider error:', response.status, errorText);
+        // 402 is how the Lovable gateway reports that the credits are used up
+        if (response.status === 429 || response.status === 402) {
+          throw aiError('quota', 'The AI provider is rate limited or out of credits');
+        }
+        if (response.status === 408 || response.status === 504) {
+          throw aiError('timeout', 'The AI provider timed out');
+        }
+        throw aiError('upstream', `The AI provider failed with status ${response.status}`);
+      }
+
+      const data = await response.json().catch(() => null);
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw aiError('upstream', 'The AI provider sent an unexpected reply');
+      return content;
+    },
+  };
+}
+
+const echoProvider: AiProvider = {
+  complete: async ({ user, echo }) => (echo ? echo() : user),
+};
+
+/** The provider configured for this deployment; `defaultModel` applies unless AI_MODEL is set. */
+export function providerFromEnv(defaultModel: string): AiProvider {
+  const provider = Deno.env.get('AI_PROVIDER') ?? 'openai';
+  if (provider === 'echo') return echoProvider;
+  if (provider !== 'openai') throw aiError('config', `Unknown AI_PROVIDER: ${provider}`);
+
+  const apiKey = Deno.env.get('AI_API_KEY') ?? Deno.env.get('LOVABLE_API_KEY');
+  if (!apiKey) throw aiError('config', 'AI_API_KEY not configured');
+
+  const timeoutMs = Number(Deno.env.get('AI_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS;
+  return openAiProvider(
+    Deno.env.get('AI_BASE_URL') ?? DEFAULT_BASE_URL,
+    apiKey,
+    Deno.env.get('AI_MODEL') ?? defaultModel,
+    timeoutMs
+  );
+}
@@ -0,0 +1,17 @@
+import { createClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * The user who signed the request, or null. The gateway only checks that the
+ * JWT is valid, and the public anon key is one too, so functions that spend
+ * API credits or write with the service role ask for a real user here.
+ */
+export async function requestUser(req: Request): Promise<User | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) return null;
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await supabase.auth.getUser(authorization.slice('Bearer '.length));
+  return error ? null : data.user;
+}
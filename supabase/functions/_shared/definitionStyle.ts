@@ -0,0 +1,69 @@
+// How a set wants its generated definitions written; mirrors the generation
+// settings on public.sets.
+
+export interface DefinitionStyle {
+  definition_length: 'brief' | 'short' | 'detailed';
+  reading_level: 'simple' | 'general' | 'advanced';
+  /** BCP 47 tag to write in; null for the language of the card. */
+  definition_language: string | null;
+  include_example: boolean;
+}
+
+export const DEFAULT_STYLE: DefinitionStyle = {
+  definition_length: 'short',
+  reading_level: 'general',
+  definition_language: null,
+  include_example: false,
+};
+
+const LENGTHS: Record<DefinitionStyle['definition_length'], { words: string; maxTokens: number }> = {
+  brief: { words: 'in a few words (under 15 words)', maxTokens: 40 },
+  short: { words: 'in 1-2 sentences (30-50 words)', maxTokens: 100 },
+  detailed: { words: 'in 3-4 sentences (60-100 words)', maxTokens: 200 },
+};
+
+const LEVELS: Record<DefinitionStyle['reading_level'], string> = {
+  simple: 'Use plain everyday words a 10-year-old would understand.',
+  general: '',
+  advanced: 'Use precise technical vocabulary suitable for university students.',
+};
+
+const LANGUAGE_TAG = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/** The style sent with a request, with defaults for what is left out; null when a value is not allowed. */
+export function parseStyle(value: unknown): DefinitionStyle | null {
+  if (value === undefined || value === null) return DEFAULT_STYLE;
+  if (typeof value !== 'object') return null;
+  const style = { ...DEFAULT_STYLE, ...value } as DefinitionStyle;
+  style.definition_language ??= null;
+  if (!Object.hasOwn(LENGTHS, style.definition_length) || !Object.hasOwn(LEVELS, style.reading_level)) return null;
+  if (style.definition_language !== null &&
+    (typeof style.definition_language !== 'string' || !LANGUAGE_TAG.test(style.definition_language))) return null;
+  if (typeof style.include_example !== 'boolean') return null;
+  return style;
+}
+
+const languageName = (tag: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+};
+
+/** How long a definition should be, as a phrase such as "in 1-2 sentences (30-50 words)". */
+export const lengthPhrase = (style: DefinitionStyle) => LENGTHS[style.definition_length].words;
+
+/** Room for a definition in the style, including its example. */
+export const maxTokensFor = (style: DefinitionStyle) =>
+  LENGTHS[style.definition_length].maxTokens + (style.include_example ? 60 : 0);
+
+/** Instructions beyond the length: reading level, language and example. */
+export function styleInstructions(style: DefinitionStyle): string {
+  const language = style.definition_language && languageName(style.definition_language);
+  return [
+    LEVELS[style.reading_level],
+    language ? `Write it in ${language}; when the term is in another language, start with its ${language} translation.` : '',
+    style.include_example ? 'Then add one example sentence that uses the term, on a new line starting with "Example:".' : '',
+  ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,32 @@
+import { AiErrorCode, isAiError } from './ai.ts';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+/** A request the function refuses; `code` lets the client tell it from provider trouble. */
+export const badRequest = (error: string) => jsonResponse({ error, code: 'bad_request' }, 400);
+
+/** The request did not come from a signed-in user. */
+export const unauthorized = () => jsonResponse({ error: 'Sign in to use this feature', code: 'unauthorized' }, 401);
+
+const STATUS_BY_CODE: Record<AiErrorCode, number> = {
+  quota: 429,
+  timeout: 504,
+  upstream: 502,
+  config: 500,
+};
+
+/** The response for an error thrown while handling a request, with its code when it has one. */
+export function errorResponse(functionName: string, error: unknown) {
+  console.error(`Error in ${functionName}:`, error);
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (isAiError(error)) return jsonResponse({ error: message, code: error.code }, STATUS_BY_CODE[error.code]);
+  return jsonResponse({ error: message, code: 'internal' }, 500);
+}
@@ -1,10 +1,67 @@
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { AiProvider, providerFromEnv } from "../_shared/ai.ts";
+import { requestUser } from "../_shared/auth.ts";
+import { badRequest, corsHeaders, errorResponse, jsonResponse, unauthorized } from "../_shared/http.ts";
+import { DefinitionStyle, lengthPhrase, maxTokensFor, parseStyle, styleInstructions } from "../_shared/definitionStyle.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+// A batch is answered in one response: two rounds of CONCURRENCY calls, each
+// cut off by the provider timeout (30s by default), stay well within the
+// function's 150s limit
+const MAX_BATCH_SIZE = 8;
+const CONCURRENCY = 4;
+const MAX_TEXT_LENGTH = 500;
+
+const tooLong = (text: string) => text.length > MAX_TEXT_LENGTH;
+
+interface BatchItem {
+  id: string;
+  text: string;
+  type: string;
+}
+
+function define(ai: AiProvider, text: string, type: string, style: DefinitionStyle): Promise<string> {
+  const system = [
+    `Provide a clear ${type === 'term' ? 'definition' : 'answer'} ${lengthPhrase(style)}.`,
+    styleInstructions(style),
+  ].filter(Boolean).join(' ');
+
+  return ai.complete({
+    system,
+    user: text,
+    maxTokens: maxTokensFor(style),
+    echo: () => [
+      `${type === 'term' ? 'Definition' : 'Answer'} of ${text.trim()}`,
+      style.include_example ? `Example: ${text.trim()}.` : '',
+    ].filter(Boolean).join('\n'),
+  });
+}
+
+// Each item gets its own result, so one failure does not lose the rest of the batch
+async function defineAll(ai: AiProvider, items: BatchItem[], style: DefinitionStyle) {
+  const results: ({ id: string; definition: string } | { id: string; error: string; code?: string })[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      if (tooLong(item.text)) {
+        results.push({ id: item.id, error: `Text can be at most ${MAX_TEXT_LENGTH} characters`, code: 'bad_request' });
+        continue;
+      }
+      try {
+        results.push({ id: item.id, definition: await define(ai, item.text, item.type, style) });
+      } catch (error) {
+        console.error('Error defining batch item:', error);
+        results.push({
+          id: item.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: (error as { code?: string }).code,
+        });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+  return results;
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -12,52 +69,27 @@ serve(async (req) => {
   }
 
   try {
-    const { text, type } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    if (!(await requestUser(req))) return unauthorized();
 
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
+    const { text, type, items, style: requestedStyle } = await req.json();
+    // The set's generation settings; older clients send none and get the defaults
+    const style = parseStyle(requestedStyle);
+    if (!style) return badRequest('Unknown definition style');
 
-    const systemPrompt = type === 'term' 
-      ? "Provide a clear definition in 1-2 sentences (30-50 words)."
-      : "Provide a clear answer in 1-2 sentences (30-50 words).";
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-lite',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: text }
-        ],
-        max_tokens: 100,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      throw new Error(`AI Gateway error: ${response.status}`);
+    // A batch is { items: [{ id, text, type }], style }; a single card is { text, type, style }
+    if (items !== undefined) {
+      const valid = Array.isArray(items) && items.length <= MAX_BATCH_SIZE && items.every((item: BatchItem) =>
+        typeof item?.id === 'string' && typeof item.text === 'string' && item.text.trim() && typeof item.type === 'string'
+      );
+      if (!valid) return badRequest(`A batch takes up to ${MAX_BATCH_SIZE} items with an id, text and type`);
+      return jsonResponse({ results: await defineAll(providerFromEnv('google/gemini-2.5-flash-lite'), items, style) });
     }
 
-    const data = await response.json();
-    const definition = data.choices[0].message.content;
-
-    return new Response(
-      JSON.stringify({ definition }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    if (typeof text !== 'string' || !text.trim()) return badRequest('Enter a term or question first');
+    if (tooLong(text)) return badRequest(`Text can be at most ${MAX_TEXT_LENGTH} characters`);
+    const definition = await define(providerFromEnv('google/gemini-2.5-flash-lite'), text, type, style);
+    return jsonResponse({ definition });
   } catch (error) {
-    console.error('Error in generate-definition:', error);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return errorResponse('generate-definition', error);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { aiError, providerFromEnv } from "../_shared/ai.ts";
+import { requestUser } from "../_shared/auth.ts";
+import { badRequest, corsHeaders, errorResponse, jsonResponse, unauthorized } from "../_shared/http.ts";
+import { lengthPhrase, maxTokensFor, parseStyle, styleInstructions } from "../_shared/definitionStyle.ts";
+
+const MAX_SOURCE_LENGTH = 20000;
+const MAX_TOPIC_LENGTH = 200;
+const MAX_COUNT = 50;
+
+interface GeneratedCard {
+  front: string;
+  back: string;
+}
+
+// Models sometimes wrap JSON in a code fence even when asked not to
+function parseJson(content: string) {
+  try {
+    return JSON.parse(content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    throw aiError('upstream', 'The AI provider did not reply with cards');
+  }
+}
+
+// Offline, the cards come straight from the notes, a line each, or are numbered for the topic
+function echoCards(source: string, topic: string, count: number): GeneratedCard[] {
+  const lines = source.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length > 0) {
+    return lines.slice(0, count).map(line => ({ front: line.slice(0, 60), back: line }));
+  }
+  return Array.from({ length: count }, (_, i) => ({
+    front: `${topic.trim()} ${i + 1}`,
+    back: `Definition ${i + 1} of ${topic.trim()}`,
+  }));
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!(await requestUser(req))) return unauthorized();
+
+    const { source = '', topic = '', count = 10, type = 'term', style: requestedStyle } = await req.json();
+    const style = parseStyle(requestedStyle);
+    if (!style) return badRequest('Unknown definition style');
+    if (typeof source !== 'string' || typeof topic !== 'string') return badRequest('Source and topic must be text');
+    if (!source.trim() && !topic.trim()) return badRequest('Paste some notes or enter a topic');
+    if (source.length > MAX_SOURCE_LENGTH) return badRequest(`Notes can be at most ${MAX_SOURCE_LENGTH} characters`);
+    if (topic.length > MAX_TOPIC_LENGTH) return badRequest(`Topics can be at most ${MAX_TOPIC_LENGTH} characters`);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) return badRequest(`Ask for 1 to ${MAX_COUNT} cards`);
+    if (type !== 'term' && type !== 'question') return badRequest('Cards must be terms or questions');
+
+    const ai = providerFromEnv('google/gemini-2.5-flash');
+
+    const shape = type === 'term'
+      ? `Each card has a key term on the front and a clear definition ${lengthPhrase(style)} on the back.`
+      : `Each card has a question on the front and a concise answer ${lengthPhrase(style)} on the back.`;
+    const backStyle = styleInstructions(style);
+    const systemPrompt = [
+      `You write flashcards for studying. Write up to ${count} cards. ${shape}`,
+      backStyle ? `For the back of each card: ${backStyle}` : '',
+      'Cover the most important ideas, do not repeat cards, and keep each card self-contained.',
+      source.trim() ? 'Only use facts stated in the notes the user gives you.' : '',
+      'Reply with JSON only, shaped as {"title": "<short set title>", "cards": [{"front": "...", "back": "..."}]}.'
+    ].filter(Boolean).join(' ');
+    const userPrompt = source.trim()
+      ? `${topic.trim() ? `Topic: ${topic.trim()}\n\n` : ''}Notes:\n${source}`
+      : `Topic: ${topic.trim()}`;
+
+    const content = await ai.complete({
+      system: systemPrompt,
+      user: userPrompt,
+      // Room for each front and its JSON on top of the back
+      maxTokens: (maxTokensFor(style) + 60) * count,
+      json: true,
+      echo: () => JSON.stringify({ title: topic.trim() || 'Echo set', cards: echoCards(source, topic, count) }),
+    });
+    const result = parseJson(content) ?? {};
+
+    // Anything malformed is dropped rather than failing the whole set
+    const cards: GeneratedCard[] = (Array.isArray(result.cards) ? result.cards : [])
+      .filter((card: unknown): card is GeneratedCard =>
+        typeof (card as GeneratedCard)?.front === 'string' && typeof (card as GeneratedCard)?.back === 'string'
+      )
+      .map((card: GeneratedCard) => ({ front: card.front.trim(), back: card.back.trim() }))
+      .filter((card: GeneratedCard) => card.front && card.back)
+      .slice(0, count);
+    const title = typeof result.title === 'string' ? result.title.trim() : '';
+
+    return jsonResponse({ title, cards });
+  } catch (error) {
+    return errorResponse('generate-set', error);
+  }
+});
@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requestUser } from "../_shared/auth.ts";
+import { unauthorized } from "../_shared/http.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'tts-audio';
+const MAX_TEXT_LENGTH = 1000;
+
+// Must match audioPath in src/lib/speech.ts, which fetches the file without asking first
+async function audioPath(text: string, lang: string | null) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${lang ?? ''}\n${text}`));
+  const hash = [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${lang ?? 'default'}/${hash}.mp3`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only signed-in users may spend the speech key and write to the bucket
+    if (!(await requestUser(req))) return unauthorized();
+
+    const { text, lang = null } = await req.json();
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_TEXT_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: `Text must be 1-${MAX_TEXT_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (lang !== null && (typeof lang !== 'string' || !/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(lang))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid language' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const TTS_API_KEY = Deno.env.get('TTS_API_KEY');
+    if (!TTS_API_KEY) {
+      throw new Error('TTS_API_KEY not configured');
+    }
+
+    // Audio is only written here, with the service role; the bucket is public to read
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const path = await audioPath(text, lang);
+    const folder = path.slice(0, path.indexOf('/'));
+    const { data: existing } = await supabase.storage.from(BUCKET).list(folder, { search: path.slice(folder.length + 1) });
+    if (existing?.length) {
+      return new Response(
+        JSON.stringify({ path }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Any OpenAI-compatible speech endpoint; its voices pick up the language from the text
+    const response = await fetch(Deno.env.get('TTS_API_URL') ?? 'https://api.openai.com/v1/audio/speech', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${TTS_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: Deno.env.get('TTS_MODEL') ?? 'tts-1',
+        voice: Deno.env.get('TTS_VOICE') ?? 'alloy',
+        input: text,
+        response_format: 'mp3',
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('TTS error:', response.status, errorText);
+      throw new Error(`TTS error: ${response.status}`);
+    }
+
+    // The path is derived from the content, so the file never changes and may be cached for good
+    const { error } = await supabase.storage.from(BUCKET).upload(path, await response.arrayBuffer(), {
+      contentType: 'audio/mpeg',
+      cacheControl: '31536000',
+      upsert: true,
+    });
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ path }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in text-to-speech:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,46 @@
+-- Add per-user ownership to every table
+ALTER TABLE public.sets ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.cards ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.card_progress ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.study_sessions ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+-- Rows created before accounts existed have no owner and stay invisible to everyone
+CREATE INDEX idx_sets_owner_id ON public.sets(owner_id);
+CREATE INDEX idx_cards_owner_id ON public.cards(owner_id);
+CREATE INDEX idx_card_progress_owner_id ON public.card_progress(owner_id);
+CREATE INDEX idx_study_sessions_owner_id ON public.study_sessions(owner_id);
+
+-- Replace the permissive anonymous policies
+DROP POLICY IF EXISTS "Allow all operations on sets" ON public.sets;
+DROP POLICY IF EXISTS "Allow all operations on cards" ON public.cards;
+DROP POLICY IF EXISTS "Allow all operations on card_progress" ON public.card_progress;
+DROP POLICY IF EXISTS "Allow all operations on study_sessions" ON public.study_sessions;
+
+CREATE POLICY "Users manage their own sets" ON public.sets
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users manage cards in their own sets" ON public.cards
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.sets s WHERE s.id = set_id AND s.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Users manage progress on their own cards" ON public.card_progress
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.cards c WHERE c.id = card_id AND c.owner_id = auth.uid())
+  );
+
+CREATE POLICY "Users manage sessions on their own sets" ON public.study_sessions
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.sets s WHERE s.id = set_id AND s.owner_id = auth.uid())
+  );
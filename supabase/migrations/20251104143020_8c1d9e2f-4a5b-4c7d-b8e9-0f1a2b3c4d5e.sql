@@ -0,0 +1,25 @@
+-- Track card edits so offline changes can be reconciled with last-writer-wins
+ALTER TABLE public.cards ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+UPDATE public.cards SET updated_at = created_at;
+
+-- Keep a client-supplied updated_at so replayed offline edits retain their original edit time
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.updated_at IS NOT DISTINCT FROM OLD.updated_at THEN
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sets_updated_at ON public.sets;
+CREATE TRIGGER trigger_sets_updated_at
+BEFORE UPDATE ON public.sets
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_updated_at();
+
+CREATE TRIGGER trigger_cards_updated_at
+BEFORE UPDATE ON public.cards
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_updated_at();
@@ -0,0 +1,21 @@
+-- Per-set choice of scheduling algorithm and FSRS target retention
+ALTER TABLE public.sets
+  ADD COLUMN scheduler TEXT NOT NULL DEFAULT 'sm2' CHECK (scheduler IN ('sm2', 'fsrs')),
+  ADD COLUMN target_retention FLOAT NOT NULL DEFAULT 0.9 CHECK (target_retention BETWEEN 0.7 AND 0.99);
+
+-- FSRS memory state alongside the existing SM-2 columns
+ALTER TABLE public.card_progress
+  ADD COLUMN stability FLOAT,
+  ADD COLUMN difficulty FLOAT,
+  ADD COLUMN lapses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN state TEXT NOT NULL DEFAULT 'new' CHECK (state IN ('new', 'learning', 'review', 'relearning'));
+
+-- Convert reviewed SM-2 rows: at 90% retention the interval approximates the
+-- stability, and ease 2.5 -> 1.3 maps onto FSRS difficulty 5 -> 10.
+-- Keep in sync with memoryStateFromSm2 in src/lib/fsrs.ts.
+UPDATE public.card_progress
+SET
+  state = 'review',
+  stability = GREATEST(interval, 0.1),
+  difficulty = LEAST(10, GREATEST(1, 5 + (2.5 - ease_factor) / 1.2 * 5))
+WHERE last_reviewed IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Raw per-answer history for analytics and scheduler tuning
+CREATE TABLE IF NOT EXISTS public.review_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  card_id UUID NOT NULL REFERENCES public.cards(id) ON DELETE CASCADE,
+  set_id UUID NOT NULL REFERENCES public.sets(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('flashcards', 'learn', 'test', 'spaced')),
+  grade TEXT CHECK (grade IN ('again', 'hard', 'good', 'easy')),
+  correct BOOLEAN,
+  answer TEXT,
+  response_time_ms INTEGER CHECK (response_time_ms >= 0),
+  interval_before INTEGER,
+  interval_after INTEGER,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.review_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own review logs" ON public.review_logs
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.cards c WHERE c.id = card_id AND c.owner_id = auth.uid())
+  );
+
+CREATE INDEX idx_review_logs_owner_reviewed_at ON public.review_logs(owner_id, reviewed_at);
+CREATE INDEX idx_review_logs_card_id ON public.review_logs(card_id);
+CREATE INDEX idx_review_logs_session_id ON public.review_logs(session_id);
@@ -0,0 +1,24 @@
+-- Test mode sessions were rejected by the original CHECK constraint
+ALTER TABLE public.study_sessions DROP CONSTRAINT IF EXISTS study_sessions_mode_check;
+ALTER TABLE public.study_sessions
+  ADD CONSTRAINT study_sessions_mode_check CHECK (mode IN ('flashcards', 'learn', 'test', 'spaced'));
+
+-- Duration and abandonment tracking
+ALTER TABLE public.study_sessions
+  ADD COLUMN last_active_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN duration_seconds INTEGER CHECK (duration_seconds >= 0),
+  ADD COLUMN abandoned BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.study_sessions
+SET
+  last_active_at = COALESCE(ended_at, started_at),
+  duration_seconds = CASE
+    WHEN ended_at IS NOT NULL THEN GREATEST(0, EXTRACT(EPOCH FROM ended_at - started_at)::INTEGER)
+  END;
+
+-- Sessions left open from before heartbeats existed can never be resumed
+UPDATE public.study_sessions
+SET ended_at = started_at, duration_seconds = 0, abandoned = true
+WHERE ended_at IS NULL;
+
+CREATE INDEX idx_study_sessions_open ON public.study_sessions(owner_id, last_active_at) WHERE ended_at IS NULL;
@@ -0,0 +1,19 @@
+-- One row of per-user preferences, starting with the daily study goal
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+  owner_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  daily_goal_type TEXT NOT NULL DEFAULT 'cards' CHECK (daily_goal_type IN ('cards', 'minutes')),
+  daily_goal_target INTEGER NOT NULL DEFAULT 20 CHECK (daily_goal_target > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own preferences" ON public.user_preferences
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE TRIGGER trigger_user_preferences_updated_at
+BEFORE UPDATE ON public.user_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_updated_at();
@@ -0,0 +1,14 @@
+-- Daily limits and intraday learning steps (in minutes) per set
+ALTER TABLE public.sets
+  ADD COLUMN new_cards_per_day INTEGER NOT NULL DEFAULT 20 CHECK (new_cards_per_day >= 0),
+  ADD COLUMN max_reviews_per_day INTEGER NOT NULL DEFAULT 200 CHECK (max_reviews_per_day >= 0),
+  ADD COLUMN learning_steps INTEGER[] NOT NULL DEFAULT '{1,10}' CHECK (0 < ALL (learning_steps)),
+  ADD COLUMN relearning_steps INTEGER[] NOT NULL DEFAULT '{10}' CHECK (0 < ALL (relearning_steps));
+
+-- Position within the learning or relearning steps
+ALTER TABLE public.card_progress
+  ADD COLUMN step INTEGER NOT NULL DEFAULT 0 CHECK (step >= 0);
+
+-- State of the card when it was answered, so today's new cards and reviews can be counted
+ALTER TABLE public.review_logs
+  ADD COLUMN state TEXT CHECK (state IN ('new', 'learning', 'review', 'relearning'));
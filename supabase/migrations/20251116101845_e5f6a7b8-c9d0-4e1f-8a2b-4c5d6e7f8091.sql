@@ -0,0 +1,134 @@
+-- Due queue for spaced review in one round trip: creates the missing progress
+-- rows, applies each set's daily limits and returns the cards in review order.
+-- Runs as the caller, so row level security scopes everything to their own rows.
+CREATE OR REPLACE FUNCTION public.get_due_queue(
+  p_day_start TIMESTAMPTZ,
+  p_set_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL,
+  p_learn_ahead_minutes INTEGER DEFAULT 20
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+  v_result JSONB;
+BEGIN
+  -- Cards never studied get their progress row here instead of one insert each from the client
+  INSERT INTO public.card_progress (card_id)
+  SELECT c.id
+  FROM public.cards c
+  WHERE (p_set_id IS NULL OR c.set_id = p_set_id)
+    AND NOT EXISTS (SELECT 1 FROM public.card_progress p WHERE p.card_id = c.id)
+  ON CONFLICT (card_id) DO NOTHING;
+
+  WITH studied AS (
+    -- New cards introduced and reviews answered since the start of the caller's day
+    SELECT l.set_id,
+      COUNT(DISTINCT l.card_id) FILTER (WHERE l.state = 'new') AS new_cards,
+      COUNT(*) FILTER (WHERE l.state = 'review') AS reviews
+    FROM public.review_logs l
+    WHERE l.mode = 'spaced'
+      AND l.reviewed_at >= p_day_start
+      AND (p_set_id IS NULL OR l.set_id = p_set_id)
+    GROUP BY l.set_id
+  ),
+  scoped AS (
+    SELECT c.id AS card_id, c.set_id, c.order_index, p.next_review,
+      s.new_cards_per_day, s.max_reviews_per_day,
+      CASE
+        WHEN p.state = 'new' THEN 'new'
+        WHEN p.state IN ('learning', 'relearning') THEN 'learning'
+        ELSE 'review'
+      END AS queue
+    FROM public.cards c
+    JOIN public.sets s ON s.id = c.set_id
+    JOIN public.card_progress p ON p.card_id = c.id
+    WHERE p_set_id IS NULL OR c.set_id = p_set_id
+  ),
+  ranked AS (
+    SELECT sc.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY sc.set_id, sc.queue
+        ORDER BY CASE WHEN sc.queue = 'new' THEN sc.order_index END, sc.next_review, sc.card_id
+      ) AS queue_rank
+    FROM scoped sc
+    WHERE sc.queue = 'new'
+      OR (sc.queue = 'learning' AND sc.next_review <= v_now + make_interval(mins => p_learn_ahead_minutes))
+      OR (sc.queue = 'review' AND sc.next_review <= v_now)
+  ),
+  -- Learning cards are never held back by the daily limits
+  selected AS (
+    SELECT r.*,
+      CASE
+        WHEN r.queue = 'new' THEN 2
+        WHEN r.next_review < p_day_start THEN 0
+        ELSE 1
+      END AS review_group
+    FROM ranked r
+    LEFT JOIN studied st ON st.set_id = r.set_id
+    WHERE r.queue = 'learning'
+      OR (r.queue = 'review' AND r.queue_rank <= r.max_reviews_per_day - COALESCE(st.reviews, 0))
+      OR (r.queue = 'new' AND r.queue_rank <= r.new_cards_per_day - COALESCE(st.new_cards, 0))
+  ),
+  -- Overdue cards, then the rest of today's, then new cards; within each group
+  -- one card from each set in turn so a large set cannot crowd out the rest
+  ordered AS (
+    SELECT sel.card_id, sel.set_id, sel.review_group,
+      ROW_NUMBER() OVER (
+        PARTITION BY sel.review_group, sel.set_id
+        ORDER BY CASE WHEN sel.review_group = 2 THEN sel.order_index END, sel.next_review, sel.card_id
+      ) AS turn,
+      MIN(sel.next_review) OVER (PARTITION BY sel.review_group, sel.set_id) AS set_first_due
+    FROM selected sel
+  ),
+  page AS (
+    SELECT o.*
+    FROM ordered o
+    ORDER BY o.review_group, o.turn, o.set_first_due, o.set_id
+    LIMIT p_limit
+  ),
+  set_counts AS (
+    SELECT sc.set_id,
+      COUNT(sel.card_id) FILTER (WHERE sel.queue = 'new') AS new_count,
+      COUNT(sel.card_id) FILTER (WHERE sel.queue = 'learning') AS learning_count,
+      COUNT(sel.card_id) FILTER (WHERE sel.queue = 'review') AS due_count,
+      COUNT(*) AS total_count
+    FROM scoped sc
+    LEFT JOIN selected sel ON sel.card_id = sc.card_id
+    GROUP BY sc.set_id
+  )
+  SELECT jsonb_build_object(
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('card', to_jsonb(c), 'progress', to_jsonb(p))
+        ORDER BY pg.review_group, pg.turn, pg.set_first_due, pg.set_id
+      )
+      FROM page pg
+      JOIN public.cards c ON c.id = pg.card_id
+      JOIN public.card_progress p ON p.card_id = pg.card_id
+    ), '[]'::jsonb),
+    'counts', (
+      SELECT jsonb_build_object(
+        'new', COALESCE(SUM(new_count), 0),
+        'learning', COALESCE(SUM(learning_count), 0),
+        'due', COALESCE(SUM(due_count), 0),
+        'total', COALESCE(SUM(total_count), 0)
+      )
+      FROM set_counts
+    ),
+    'sets', COALESCE((
+      SELECT jsonb_object_agg(set_id, jsonb_build_object(
+        'new', new_count,
+        'learning', learning_count,
+        'due', due_count,
+        'total', total_count
+      ))
+      FROM set_counts
+    ), '{}'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_due_queue(TIMESTAMPTZ, UUID, INTEGER, INTEGER) TO authenticated;
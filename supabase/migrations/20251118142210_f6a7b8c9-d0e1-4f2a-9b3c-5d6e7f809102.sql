@@ -0,0 +1,91 @@
+-- Saves a set from the editor in one transaction: the set's own fields, the
+-- cards that were added or changed, and the cards that were removed. Nothing is
+-- written when a card fails validation; the errors come back per card instead.
+-- Cards keep their ids, so their progress survives the save.
+CREATE OR REPLACE FUNCTION public.save_set(
+  p_set_id UUID,
+  p_set JSONB,
+  p_cards JSONB,
+  p_removed_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_set public.sets;
+  v_errors JSONB;
+BEGIN
+  SELECT * INTO v_set FROM public.sets WHERE id = p_set_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Set % not found', p_set_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Keys missing from p_set keep their current values
+  v_set := jsonb_populate_record(v_set, p_set);
+  IF btrim(v_set.title) = '' THEN
+    RAISE EXCEPTION 'Title is required' USING ERRCODE = '22023';
+  END IF;
+
+  WITH incoming AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_cards) AS c(id UUID, front TEXT, back TEXT, card_type TEXT, order_index INTEGER)
+  ),
+  problems AS (
+    SELECT id, 'front' AS field, 'Front is required' AS message
+    FROM incoming WHERE btrim(COALESCE(front, '')) = ''
+    UNION ALL
+    SELECT id, 'front', 'Front is longer than 10000 characters'
+    FROM incoming WHERE length(front) > 10000
+    UNION ALL
+    SELECT id, 'back', 'Back is required'
+    FROM incoming WHERE btrim(COALESCE(back, '')) = ''
+    UNION ALL
+    SELECT id, 'back', 'Back is longer than 10000 characters'
+    FROM incoming WHERE length(back) > 10000
+    UNION ALL
+    SELECT id, 'card_type', 'Card type must be term or question'
+    FROM incoming WHERE card_type IS NULL OR card_type NOT IN ('term', 'question')
+    UNION ALL
+    SELECT i.id, NULL, 'Card belongs to another set'
+    FROM incoming i
+    WHERE EXISTS (SELECT 1 FROM public.cards c WHERE c.id = i.id AND c.set_id <> p_set_id)
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('card_id', id, 'field', field, 'message', message)), '[]'::jsonb)
+  INTO v_errors
+  FROM problems;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE public.sets SET
+    title = v_set.title,
+    description = v_set.description,
+    scheduler = v_set.scheduler,
+    target_retention = v_set.target_retention,
+    new_cards_per_day = v_set.new_cards_per_day,
+    max_reviews_per_day = v_set.max_reviews_per_day,
+    learning_steps = v_set.learning_steps,
+    relearning_steps = v_set.relearning_steps,
+    updated_at = v_set.updated_at
+  WHERE id = p_set_id AND updated_at <= v_set.updated_at;
+
+  -- Progress and review logs of removed cards go with them through ON DELETE CASCADE
+  DELETE FROM public.cards WHERE set_id = p_set_id AND id = ANY (p_removed_ids);
+
+  -- A card edited elsewhere more recently than this save keeps the newer text
+  INSERT INTO public.cards (id, set_id, front, back, card_type, order_index, updated_at)
+  SELECT c.id, p_set_id, c.front, c.back, c.card_type, c.order_index, COALESCE(c.updated_at, NOW())
+  FROM jsonb_to_recordset(p_cards)
+    AS c(id UUID, front TEXT, back TEXT, card_type TEXT, order_index INTEGER, updated_at TIMESTAMPTZ)
+  ON CONFLICT (id) DO UPDATE SET
+    front = EXCLUDED.front,
+    back = EXCLUDED.back,
+    card_type = EXCLUDED.card_type,
+    order_index = EXCLUDED.order_index,
+    updated_at = EXCLUDED.updated_at
+  WHERE public.cards.updated_at <= EXCLUDED.updated_at;
+
+  RETURN jsonb_build_object('ok', true, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_set(UUID, JSONB, JSONB, UUID[]) TO authenticated;
@@ -0,0 +1,66 @@
+-- Images attached to cards. Files live in the public card-media bucket under
+-- <owner id>/<media id>; card text refers to them as ![alt](media:<media id>).
+-- Paths are random and never reused, so the files can be cached for good.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'card-media',
+  'card-media',
+  true,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users upload card media to their own folder" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'card-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users delete their own card media" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'card-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE TABLE IF NOT EXISTS public.card_media (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  path TEXT NOT NULL UNIQUE,
+  content_type TEXT NOT NULL,
+  byte_size INTEGER NOT NULL CHECK (byte_size >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.card_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own card media" ON public.card_media
+  FOR ALL TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE INDEX idx_card_media_owner_id ON public.card_media(owner_id);
+
+-- Media of the current user no card or note template refers to any more, e.g.
+-- after its card or set was deleted. Media younger than p_min_age are left
+-- alone, since an editor may have uploaded them for a card not saved yet.
+-- Storage objects cannot be removed from SQL, so the client deletes the files
+-- and then these rows.
+CREATE OR REPLACE FUNCTION public.orphaned_media(p_min_age INTERVAL DEFAULT INTERVAL '1 hour')
+RETURNS SETOF public.card_media AS $$
+  SELECT m.*
+  FROM public.card_media m
+  WHERE m.owner_id = auth.uid()
+    AND m.created_at < NOW() - p_min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM public.cards c
+      WHERE c.owner_id = m.owner_id
+        AND (
+          strpos(c.front, 'media:' || m.id) > 0
+          OR strpos(c.back, 'media:' || m.id) > 0
+          OR strpos(COALESCE(c.fields::text, ''), 'media:' || m.id) > 0
+        )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.note_types n
+      WHERE n.owner_id = m.owner_id AND strpos(n.templates::text, 'media:' || m.id) > 0
+    );
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.orphaned_media(INTERVAL) TO authenticated;
@@ -0,0 +1,318 @@
+-- Image occlusion cards: the front holds an image, ![alt](media:<id>), and
+-- occlusions the rectangles masked on it as
+-- [{ "ordinal": 1, "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.05, "label": ... }]
+-- in fractions of the image size. Each region is studied and scheduled on its
+-- own with its ordinal, which stays the same when other regions are removed.
+ALTER TABLE public.cards DROP CONSTRAINT cards_card_type_check;
+ALTER TABLE public.cards
+  ADD CONSTRAINT cards_card_type_check CHECK (card_type IN ('term', 'question', 'cloze', 'note', 'occlusion'));
+
+ALTER TABLE public.cards
+  ADD COLUMN occlusions JSONB,
+  ADD CONSTRAINT cards_occlusions_check CHECK (
+    (card_type = 'occlusion') = (occlusions IS NOT NULL)
+    AND (occlusions IS NULL OR jsonb_typeof(occlusions) = 'array')
+  );
+
+CREATE OR REPLACE FUNCTION public.card_ordinals(p_card_type TEXT, p_front TEXT, p_note_type_id UUID, p_occlusions JSONB)
+RETURNS INTEGER[] AS $$
+  SELECT CASE
+    WHEN p_card_type = 'occlusion' THEN COALESCE((
+      SELECT array_agg(DISTINCT (r->>'ordinal')::INTEGER ORDER BY (r->>'ordinal')::INTEGER)
+      FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(p_occlusions) = 'array' THEN p_occlusions ELSE '[]'::jsonb END
+      ) AS r
+      WHERE r->>'ordinal' ~ '^[1-9][0-9]{0,8}$'
+    ), '{}')
+    ELSE public.card_ordinals(p_card_type, p_front, p_note_type_id)
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Each region is its own question about the image, so occlusion cards go one way
+CREATE OR REPLACE FUNCTION public.card_directions(p_card_type TEXT, p_direction TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE
+    WHEN p_card_type IN ('cloze', 'note', 'occlusion') THEN '{forward}'::TEXT[]
+    WHEN p_direction = 'both' THEN '{forward,reverse}'::TEXT[]
+    ELSE ARRAY[COALESCE(p_direction, 'forward')]
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Occlusion cards get a progress row per region
+CREATE OR REPLACE FUNCTION public.get_due_queue(
+  p_day_start TIMESTAMPTZ,
+  p_set_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL,
+  p_learn_ahead_minutes INTEGER DEFAULT 20,
+  p_direction TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+  v_result JSONB;
+BEGIN
+  -- Items never studied get their progress row here instead of one insert each from the client
+  INSERT INTO public.card_progress (card_id, ordinal, direction)
+  SELECT c.id, o.ordinal, d.direction
+  FROM public.cards c
+  JOIN public.sets s ON s.id = c.set_id
+  CROSS JOIN LATERAL unnest(public.card_ordinals(c.card_type, c.front, c.note_type_id, c.occlusions)) AS o(ordinal)
+  CROSS JOIN LATERAL unnest(public.card_directions(c.card_type, COALESCE(p_direction, s.study_direction))) AS d(direction)
+  WHERE (p_set_id IS NULL OR c.set_id = p_set_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.card_progress p
+      WHERE p.card_id = c.id AND p.ordinal = o.ordinal AND p.direction = d.direction
+    )
+  ON CONFLICT (card_id, ordinal, direction) DO NOTHING;
+
+  WITH studied AS (
+    -- New cards introduced and reviews answered since the start of the caller's day
+    SELECT l.set_id,
+      COUNT(DISTINCT (l.card_id, l.ordinal, l.direction)) FILTER (WHERE l.state = 'new') AS new_cards,
+      COUNT(*) FILTER (WHERE l.state = 'review') AS reviews
+    FROM public.review_logs l
+    WHERE l.mode = 'spaced'
+      AND l.reviewed_at >= p_day_start
+      AND (p_set_id IS NULL OR l.set_id = p_set_id)
+    GROUP BY l.set_id
+  ),
+  scoped AS (
+    SELECT p.id AS progress_id, c.set_id, c.order_index, p.ordinal, p.direction, p.next_review,
+      s.new_cards_per_day, s.max_reviews_per_day,
+      CASE
+        WHEN p.state = 'new' THEN 'new'
+        WHEN p.state IN ('learning', 'relearning') THEN 'learning'
+        ELSE 'review'
+      END AS queue
+    FROM public.cards c
+    JOIN public.sets s ON s.id = c.set_id
+    -- Rows left over from cloze numbers or regions since removed from the card,
+    -- or from directions not being studied, are skipped
+    JOIN public.card_progress p
+      ON p.card_id = c.id
+      AND p.ordinal = ANY (public.card_ordinals(c.card_type, c.front, c.note_type_id, c.occlusions))
+      AND p.direction = ANY (public.card_directions(c.card_type, COALESCE(p_direction, s.study_direction)))
+    WHERE p_set_id IS NULL OR c.set_id = p_set_id
+  ),
+  ranked AS (
+    SELECT sc.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY sc.set_id, sc.queue
+        ORDER BY CASE WHEN sc.queue = 'new' THEN sc.order_index END, sc.ordinal, sc.direction, sc.next_review, sc.progress_id
+      ) AS queue_rank
+    FROM scoped sc
+    WHERE sc.queue = 'new'
+      OR (sc.queue = 'learning' AND sc.next_review <= v_now + make_interval(mins => p_learn_ahead_minutes))
+      OR (sc.queue = 'review' AND sc.next_review <= v_now)
+  ),
+  -- Learning cards are never held back by the daily limits
+  selected AS (
+    SELECT r.*,
+      CASE
+        WHEN r.queue = 'new' THEN 2
+        WHEN r.next_review < p_day_start THEN 0
+        ELSE 1
+      END AS review_group
+    FROM ranked r
+    LEFT JOIN studied st ON st.set_id = r.set_id
+    WHERE r.queue = 'learning'
+      OR (r.queue = 'review' AND r.queue_rank <= r.max_reviews_per_day - COALESCE(st.reviews, 0))
+      OR (r.queue = 'new' AND r.queue_rank <= r.new_cards_per_day - COALESCE(st.new_cards, 0))
+  ),
+  -- Overdue cards, then the rest of today's, then new cards; within each group
+  -- one card from each set in turn so a large set cannot crowd out the rest
+  ordered AS (
+    SELECT sel.progress_id, sel.set_id, sel.review_group,
+      ROW_NUMBER() OVER (
+        PARTITION BY sel.review_group, sel.set_id
+        ORDER BY CASE WHEN sel.review_group = 2 THEN sel.order_index END, sel.ordinal, sel.direction, sel.next_review, sel.progress_id
+      ) AS turn,
+      MIN(sel.next_review) OVER (PARTITION BY sel.review_group, sel.set_id) AS set_first_due
+    FROM selected sel
+  ),
+  page AS (
+    SELECT o.*
+    FROM ordered o
+    ORDER BY o.review_group, o.turn, o.set_first_due, o.set_id
+    LIMIT p_limit
+  ),
+  set_counts AS (
+    SELECT sc.set_id,
+      COUNT(sel.progress_id) FILTER (WHERE sel.queue = 'new') AS new_count,
+      COUNT(sel.progress_id) FILTER (WHERE sel.queue = 'learning') AS learning_count,
+      COUNT(sel.progress_id) FILTER (WHERE sel.queue = 'review') AS due_count,
+      COUNT(*) AS total_count
+    FROM scoped sc
+    LEFT JOIN selected sel ON sel.progress_id = sc.progress_id
+    GROUP BY sc.set_id
+  )
+  SELECT jsonb_build_object(
+    'items', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('card', to_jsonb(c), 'progress', to_jsonb(p))
+        ORDER BY pg.review_group, pg.turn, pg.set_first_due, pg.set_id
+      )
+      FROM page pg
+      JOIN public.card_progress p ON p.id = pg.progress_id
+      JOIN public.cards c ON c.id = p.card_id
+    ), '[]'::jsonb),
+    'counts', (
+      SELECT jsonb_build_object(
+        'new', COALESCE(SUM(new_count), 0),
+        'learning', COALESCE(SUM(learning_count), 0),
+        'due', COALESCE(SUM(due_count), 0),
+        'total', COALESCE(SUM(total_count), 0)
+      )
+      FROM set_counts
+    ),
+    'sets', COALESCE((
+      SELECT jsonb_object_agg(set_id, jsonb_build_object(
+        'new', new_count,
+        'learning', learning_count,
+        'due', due_count,
+        'total', total_count
+      ))
+      FROM set_counts
+    ), '{}'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_due_queue(TIMESTAMPTZ, UUID, INTEGER, INTEGER, TEXT) TO authenticated;
+
+-- The editor saves the regions of occlusion cards
+CREATE OR REPLACE FUNCTION public.save_set(
+  p_set_id UUID,
+  p_set JSONB,
+  p_cards JSONB,
+  p_removed_ids UUID[] DEFAULT '{}',
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_set public.sets;
+  v_errors JSONB;
+  v_version INTEGER;
+BEGIN
+  SELECT * INTO v_set FROM public.sets WHERE id = p_set_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Set % not found', p_set_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Someone else saved since the editor loaded the set; the caller has to merge first
+  IF p_expected_version IS NOT NULL AND v_set.version <> p_expected_version THEN
+    RETURN jsonb_build_object('ok', false, 'conflict', true, 'version', v_set.version, 'errors', '[]'::jsonb);
+  END IF;
+
+  -- Keys missing from p_set keep their current values
+  v_set := jsonb_populate_record(v_set, p_set);
+  IF btrim(v_set.title) = '' THEN
+    RAISE EXCEPTION 'Title is required' USING ERRCODE = '22023';
+  END IF;
+
+  WITH incoming AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_cards)
+      AS c(id UUID, front TEXT, back TEXT, card_type TEXT, note_type_id UUID, occlusions JSONB, order_index INTEGER)
+  ),
+  problems AS (
+    SELECT id, 'front' AS field, 'Front is required' AS message
+    FROM incoming WHERE btrim(COALESCE(front, '')) = ''
+    UNION ALL
+    SELECT id, 'front', 'Front is longer than 10000 characters'
+    FROM incoming WHERE length(front) > 10000
+    UNION ALL
+    SELECT id, 'front', 'Mark at least one deletion like {{c1::text}}'
+    FROM incoming
+    WHERE card_type = 'cloze' AND btrim(COALESCE(front, '')) <> '' AND length(front) <= 10000
+      AND cardinality(public.card_ordinals(card_type, front)) = 0
+    UNION ALL
+    SELECT id, 'front', 'Mark at least one region on the image'
+    FROM incoming
+    WHERE card_type = 'occlusion' AND btrim(COALESCE(front, '')) <> ''
+      AND cardinality(public.card_ordinals(card_type, front, NULL, occlusions)) = 0
+    UNION ALL
+    SELECT i.id, 'front', 'Label every region'
+    FROM incoming i
+    WHERE i.card_type = 'occlusion' AND jsonb_typeof(i.occlusions) = 'array'
+      AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements(i.occlusions) AS r
+        WHERE btrim(COALESCE(r->>'label', '')) = ''
+      )
+    UNION ALL
+    -- Cloze cards keep their answers on the front, note cards in their fields
+    -- and occlusion cards under their regions
+    SELECT id, 'back', 'Back is required'
+    FROM incoming WHERE card_type NOT IN ('cloze', 'note', 'occlusion') AND btrim(COALESCE(back, '')) = ''
+    UNION ALL
+    SELECT id, 'back', 'Back is longer than 10000 characters'
+    FROM incoming WHERE length(back) > 10000
+    UNION ALL
+    SELECT id, 'card_type', 'Card type must be term, question, cloze, note or occlusion'
+    FROM incoming WHERE card_type IS NULL OR card_type NOT IN ('term', 'question', 'cloze', 'note', 'occlusion')
+    UNION ALL
+    SELECT i.id, 'card_type', 'Pick a note type'
+    FROM incoming i
+    WHERE i.card_type = 'note'
+      AND NOT EXISTS (SELECT 1 FROM public.note_types n WHERE n.id = i.note_type_id)
+    UNION ALL
+    SELECT i.id, NULL, 'Card belongs to another set'
+    FROM incoming i
+    WHERE EXISTS (SELECT 1 FROM public.cards c WHERE c.id = i.id AND c.set_id <> p_set_id)
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('card_id', id, 'field', field, 'message', message)), '[]'::jsonb)
+  INTO v_errors
+  FROM problems;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'conflict', false, 'version', v_set.version, 'errors', v_errors);
+  END IF;
+
+  UPDATE public.sets SET
+    title = v_set.title,
+    description = v_set.description,
+    scheduler = v_set.scheduler,
+    target_retention = v_set.target_retention,
+    new_cards_per_day = v_set.new_cards_per_day,
+    max_reviews_per_day = v_set.max_reviews_per_day,
+    learning_steps = v_set.learning_steps,
+    relearning_steps = v_set.relearning_steps,
+    study_direction = v_set.study_direction,
+    updated_at = v_set.updated_at
+  WHERE id = p_set_id AND updated_at <= v_set.updated_at;
+
+  -- Progress and review logs of removed cards go with them through ON DELETE CASCADE
+  DELETE FROM public.cards WHERE set_id = p_set_id AND id = ANY (p_removed_ids);
+
+  -- A card edited elsewhere more recently than this save keeps the newer text
+  INSERT INTO public.cards (id, set_id, front, back, card_type, note_type_id, fields, occlusions, order_index, updated_at)
+  SELECT c.id, p_set_id, c.front, c.back, c.card_type,
+    CASE WHEN c.card_type = 'note' THEN c.note_type_id END,
+    CASE WHEN c.card_type = 'note' THEN c.fields END,
+    CASE WHEN c.card_type = 'occlusion' THEN c.occlusions END,
+    c.order_index, COALESCE(c.updated_at, NOW())
+  FROM jsonb_to_recordset(p_cards) AS c(
+    id UUID, front TEXT, back TEXT, card_type TEXT, note_type_id UUID, fields JSONB, occlusions JSONB,
+    order_index INTEGER, updated_at TIMESTAMPTZ
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    front = EXCLUDED.front,
+    back = EXCLUDED.back,
+    card_type = EXCLUDED.card_type,
+    note_type_id = EXCLUDED.note_type_id,
+    fields = EXCLUDED.fields,
+    occlusions = EXCLUDED.occlusions,
+    order_index = EXCLUDED.order_index,
+    updated_at = EXCLUDED.updated_at
+  WHERE public.cards.updated_at <= EXCLUDED.updated_at;
+
+  UPDATE public.sets SET version = version + 1 WHERE id = p_set_id RETURNING version INTO v_version;
+
+  RETURN jsonb_build_object('ok', true, 'conflict', false, 'version', v_version, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_set(UUID, JSONB, JSONB, UUID[], INTEGER) TO authenticated;
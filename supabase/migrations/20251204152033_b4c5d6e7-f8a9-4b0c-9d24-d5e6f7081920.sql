@@ -0,0 +1,10 @@
+-- Audio clips are attached to cards like images and live in the same bucket;
+-- card text refers to them as [label](media:<media id>), which orphaned_media
+-- already counts as a reference. Recorders report their codecs as well, but
+-- files are stored under the bare type.
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+  'audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wav', 'audio/x-wav'
+]
+WHERE id = 'card-media';
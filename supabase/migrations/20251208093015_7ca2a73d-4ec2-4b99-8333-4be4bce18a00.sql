@@ -0,0 +1,139 @@
+-- Saves no longer compare client clocks: a set or card with a later timestamp on
+-- the server was skipped while the save still reported success. Concurrent saves
+-- are caught by the version check, and every row written gets the server's time.
+CREATE OR REPLACE FUNCTION public.save_set(
+  p_set_id UUID,
+  p_set JSONB,
+  p_cards JSONB,
+  p_removed_ids UUID[] DEFAULT '{}',
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_set public.sets;
+  v_errors JSONB;
+  v_version INTEGER;
+BEGIN
+  SELECT * INTO v_set FROM public.sets WHERE id = p_set_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Set % not found', p_set_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Someone else saved since the editor loaded the set; the caller has to merge first
+  IF p_expected_version IS NOT NULL AND v_set.version <> p_expected_version THEN
+    RETURN jsonb_build_object('ok', false, 'conflict', true, 'version', v_set.version, 'errors', '[]'::jsonb);
+  END IF;
+
+  -- Keys missing from p_set keep their current values
+  v_set := jsonb_populate_record(v_set, p_set);
+  IF btrim(v_set.title) = '' THEN
+    RAISE EXCEPTION 'Title is required' USING ERRCODE = '22023';
+  END IF;
+
+  WITH incoming AS (
+    SELECT *
+    FROM jsonb_to_recordset(p_cards)
+      AS c(id UUID, front TEXT, back TEXT, card_type TEXT, note_type_id UUID, occlusions JSONB, order_index INTEGER)
+  ),
+  problems AS (
+    SELECT id, 'front' AS field, 'Front is required' AS message
+    FROM incoming WHERE btrim(COALESCE(front, '')) = ''
+    UNION ALL
+    SELECT id, 'front', 'Front is longer than 10000 characters'
+    FROM incoming WHERE length(front) > 10000
+    UNION ALL
+    SELECT id, 'front', 'Mark at least one deletion like {{c1::text}}'
+    FROM incoming
+    WHERE card_type = 'cloze' AND btrim(COALESCE(front, '')) <> '' AND length(front) <= 10000
+      AND cardinality(public.card_ordinals(card_type, front)) = 0
+    UNION ALL
+    SELECT id, 'front', 'Mark at least one region on the image'
+    FROM incoming
+    WHERE card_type = 'occlusion' AND btrim(COALESCE(front, '')) <> ''
+      AND cardinality(public.card_ordinals(card_type, front, NULL, occlusions)) = 0
+    UNION ALL
+    SELECT i.id, 'front', 'Label every region'
+    FROM incoming i
+    WHERE i.card_type = 'occlusion' AND jsonb_typeof(i.occlusions) = 'array'
+      AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements(i.occlusions) AS r
+        WHERE btrim(COALESCE(r->>'label', '')) = ''
+      )
+    UNION ALL
+    -- Cloze cards keep their answers on the front, note cards in their fields
+    -- and occlusion cards under their regions
+    SELECT id, 'back', 'Back is required'
+    FROM incoming WHERE card_type NOT IN ('cloze', 'note', 'occlusion') AND btrim(COALESCE(back, '')) = ''
+    UNION ALL
+    SELECT id, 'back', 'Back is longer than 10000 characters'
+    FROM incoming WHERE length(back) > 10000
+    UNION ALL
+    SELECT id, 'card_type', 'Card type must be term, question, cloze, note or occlusion'
+    FROM incoming WHERE card_type IS NULL OR card_type NOT IN ('term', 'question', 'cloze', 'note', 'occlusion')
+    UNION ALL
+    SELECT i.id, 'card_type', 'Pick a note type'
+    FROM incoming i
+    WHERE i.card_type = 'note'
+      AND NOT EXISTS (SELECT 1 FROM public.note_types n WHERE n.id = i.note_type_id)
+    UNION ALL
+    SELECT i.id, NULL, 'Card belongs to another set'
+    FROM incoming i
+    WHERE EXISTS (SELECT 1 FROM public.cards c WHERE c.id = i.id AND c.set_id <> p_set_id)
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('card_id', id, 'field', field, 'message', message)), '[]'::jsonb)
+  INTO v_errors
+  FROM problems;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'conflict', false, 'version', v_set.version, 'errors', v_errors);
+  END IF;
+
+  UPDATE public.sets SET
+    title = v_set.title,
+    description = v_set.description,
+    scheduler = v_set.scheduler,
+    target_retention = v_set.target_retention,
+    new_cards_per_day = v_set.new_cards_per_day,
+    max_reviews_per_day = v_set.max_reviews_per_day,
+    learning_steps = v_set.learning_steps,
+    relearning_steps = v_set.relearning_steps,
+    study_direction = v_set.study_direction,
+    front_language = v_set.front_language,
+    back_language = v_set.back_language,
+    definition_length = v_set.definition_length,
+    reading_level = v_set.reading_level,
+    definition_language = v_set.definition_language,
+    include_example = v_set.include_example,
+    updated_at = NOW()
+  WHERE id = p_set_id;
+
+  -- Progress and review logs of removed cards go with them through ON DELETE CASCADE
+  DELETE FROM public.cards WHERE set_id = p_set_id AND id = ANY (p_removed_ids);
+
+  INSERT INTO public.cards (id, set_id, front, back, card_type, note_type_id, fields, occlusions, order_index, updated_at)
+  SELECT c.id, p_set_id, c.front, c.back, c.card_type,
+    CASE WHEN c.card_type = 'note' THEN c.note_type_id END,
+    CASE WHEN c.card_type = 'note' THEN c.fields END,
+    CASE WHEN c.card_type = 'occlusion' THEN c.occlusions END,
+    c.order_index, NOW()
+  FROM jsonb_to_recordset(p_cards) AS c(
+    id UUID, front TEXT, back TEXT, card_type TEXT, note_type_id UUID, fields JSONB, occlusions JSONB,
+    order_index INTEGER
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    front = EXCLUDED.front,
+    back = EXCLUDED.back,
+    card_type = EXCLUDED.card_type,
+    note_type_id = EXCLUDED.note_type_id,
+    fields = EXCLUDED.fields,
+    occlusions = EXCLUDED.occlusions,
+    order_index = EXCLUDED.order_index,
+    updated_at = EXCLUDED.updated_at;
+
+  UPDATE public.sets SET version = version + 1 WHERE id = p_set_id RETURNING version INTO v_version;
+
+  RETURN jsonb_build_object('ok', true, 'conflict', false, 'version', v_version, 'errors', '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_set(UUID, JSONB, JSONB, UUID[], INTEGER) TO authenticated;
@@ -0,0 +1,77 @@
+-- The counts get_due_queue returns, for screens that only show them. Nothing is
+-- written: items never studied have no progress row yet and count as new.
+CREATE OR REPLACE FUNCTION public.get_due_counts(
+  p_day_start TIMESTAMPTZ,
+  p_set_id UUID DEFAULT NULL,
+  p_learn_ahead_minutes INTEGER DEFAULT 20,
+  p_direction TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH studied AS (
+    -- New cards introduced and reviews answered since the start of the caller's day
+    SELECT l.set_id,
+      COUNT(DISTINCT (l.card_id, l.ordinal, l.direction)) FILTER (WHERE l.state = 'new') AS new_cards,
+      COUNT(*) FILTER (WHERE l.state = 'review') AS reviews
+    FROM public.review_logs l
+    WHERE l.mode = 'spaced'
+      AND l.reviewed_at >= p_day_start
+      AND (p_set_id IS NULL OR l.set_id = p_set_id)
+    GROUP BY l.set_id
+  ),
+  scoped AS (
+    SELECT c.set_id, s.new_cards_per_day, s.max_reviews_per_day, p.next_review,
+      CASE
+        WHEN p.id IS NULL OR p.state = 'new' THEN 'new'
+        WHEN p.state IN ('learning', 'relearning') THEN 'learning'
+        ELSE 'review'
+      END AS queue
+    FROM public.cards c
+    JOIN public.sets s ON s.id = c.set_id
+    CROSS JOIN LATERAL unnest(public.card_ordinals(c.card_type, c.front, c.note_type_id, c.occlusions)) AS o(ordinal)
+    CROSS JOIN LATERAL unnest(public.card_directions(c.card_type, COALESCE(p_direction, s.study_direction))) AS d(direction)
+    LEFT JOIN public.card_progress p
+      ON p.card_id = c.id AND p.ordinal = o.ordinal AND p.direction = d.direction
+    WHERE p_set_id IS NULL OR c.set_id = p_set_id
+  ),
+  -- Learning cards are never held back by the daily limits
+  set_counts AS (
+    SELECT sc.set_id,
+      GREATEST(0, LEAST(
+        COUNT(*) FILTER (WHERE sc.queue = 'new'),
+        MIN(sc.new_cards_per_day) - COALESCE(MIN(st.new_cards), 0)
+      )) AS new_count,
+      COUNT(*) FILTER (
+        WHERE sc.queue = 'learning' AND sc.next_review <= NOW() + make_interval(mins => p_learn_ahead_minutes)
+      ) AS learning_count,
+      GREATEST(0, LEAST(
+        COUNT(*) FILTER (WHERE sc.queue = 'review' AND sc.next_review <= NOW()),
+        MIN(sc.max_reviews_per_day) - COALESCE(MIN(st.reviews), 0)
+      )) AS due_count,
+      COUNT(*) AS total_count
+    FROM scoped sc
+    LEFT JOIN studied st ON st.set_id = sc.set_id
+    GROUP BY sc.set_id
+  )
+  SELECT jsonb_build_object(
+    'counts', (
+      SELECT jsonb_build_object(
+        'new', COALESCE(SUM(new_count), 0),
+        'learning', COALESCE(SUM(learning_count), 0),
+        'due', COALESCE(SUM(due_count), 0),
+        'total', COALESCE(SUM(total_count), 0)
+      )
+      FROM set_counts
+    ),
+    'sets', COALESCE((
+      SELECT jsonb_object_agg(set_id, jsonb_build_object(
+        'new', new_count,
+        'learning', learning_count,
+        'due', due_count,
+        'total', total_count
+      ))
+      FROM set_counts
+    ), '{}'::jsonb)
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_due_counts(TIMESTAMPTZ, UUID, INTEGER, TEXT) TO authenticated;
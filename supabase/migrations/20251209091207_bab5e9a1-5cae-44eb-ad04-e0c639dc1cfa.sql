@@ -0,0 +1,21 @@
+-- Note templates carry an ordinal, kept when other templates are removed or
+-- reordered, so each card of a note stays with its progress. Templates saved
+-- before ordinals were stored use their position as before.
+CREATE OR REPLACE FUNCTION public.card_ordinals(p_card_type TEXT, p_front TEXT, p_note_type_id UUID)
+RETURNS INTEGER[] AS $$
+  SELECT CASE
+    WHEN p_card_type = 'note' THEN COALESCE((
+      SELECT array_agg(DISTINCT o.ordinal ORDER BY o.ordinal)
+      FROM public.note_types n
+      CROSS JOIN LATERAL jsonb_array_elements(n.templates) WITH ORDINALITY AS t(template, position)
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN t.template->>'ordinal' ~ '^(0|[1-9][0-9]{0,8})$' THEN (t.template->>'ordinal')::INTEGER
+          ELSE t.position::INTEGER - 1
+        END AS ordinal
+      ) AS o
+      WHERE n.id = p_note_type_id
+    ), '{}')
+    ELSE public.card_ordinals(p_card_type, p_front)
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,5 @@
+-- Storage only removes objects the caller can also select, so without this
+-- cleaning up orphaned media removed nothing.
+CREATE POLICY "Users read their own card media" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'card-media' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,11 @@
+-- Days the current user studied at least one card on, over their whole
+-- history and in their time zone. Streaks need every day, while the dashboard
+-- only loads the sessions its heatmap shows.
+CREATE OR REPLACE FUNCTION public.get_study_days(p_time_zone TEXT)
+RETURNS SETOF DATE AS $$
+  SELECT (s.started_at AT TIME ZONE p_time_zone)::DATE AS day
+  FROM public.study_sessions s
+  GROUP BY 1
+  HAVING SUM(s.cards_studied) > 0
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,19 @@
+-- Track progress changes so clients can mirror only the rows changed since
+-- their last read instead of every row in scope. Unlike cards the time is
+-- always the server's, as clients page by it.
+ALTER TABLE public.card_progress ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION public.stamp_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_card_progress_updated_at
+BEFORE UPDATE ON public.card_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_updated_at();
+
+CREATE INDEX idx_card_progress_owner_updated_at ON public.card_progress(owner_id, updated_at, id);
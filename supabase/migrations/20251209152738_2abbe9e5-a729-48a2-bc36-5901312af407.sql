@@ -0,0 +1,13 @@
+-- A cloze deletion only counts once it is closed, and it ends at the first }}
+-- after its opening, as the editor and study modes read it. Before, an
+-- unclosed {{cN:: made a progress row for a cloze number no one can study.
+CREATE OR REPLACE FUNCTION public.card_ordinals(p_card_type TEXT, p_front TEXT)
+RETURNS INTEGER[] AS $$
+  SELECT CASE
+    WHEN p_card_type = 'cloze' THEN COALESCE((
+      SELECT array_agg(DISTINCT m[1]::INTEGER ORDER BY m[1]::INTEGER)
+      FROM regexp_matches(p_front, '\{\{c([1-9][0-9]*)::(?:[^}]|\}(?!\}))*\}\}', 'g') AS m
+    ), '{}')
+    ELSE '{0}'::INTEGER[]
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
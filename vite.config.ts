@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -52,17 +53,31 @@ export default defineConfig(({ mode }) => ({
         ],
       },
       workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // woff2 covers the KaTeX fonts, so math on card faces renders offline
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // Supabase data is mirrored in IndexedDB by the sync layer, so API
+        // responses are deliberately not cached here: a stale cached GET would
+        // hide local edits that are still waiting in the outbox.
         runtimeCaching: [
           {
-            urlPattern: /^https:\/\/.*\.supabase\.co\/.*/i,
-            handler: 'NetworkFirst',
+            // Attached images and audio clips never change once uploaded (each upload
+            // gets a fresh path), so they can be served from cache for good.
+            urlPattern: /\/storage\/v1\/object\/public\/card-media\//,
+            handler: 'CacheFirst',
             options: {
-              cacheName: 'supabase-cache',
-              expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 60 * 60 * 24, // 24 hours
-              },
+              cacheName: 'card-media',
+              expiration: { maxEntries: 500 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+          {
+            // Spoken audio is stored under a hash of its text and language
+            urlPattern: /\/storage\/v1\/object\/public\/tts-audio\//,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'tts-audio',
+              expiration: { maxEntries: 1000 },
+              cacheableResponse: { statuses: [0, 200] },
             },
           },
         ],
@@ -74,4 +89,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 }));